@@ -0,0 +1,208 @@
+import { ipcMain, BrowserWindow } from 'electron'
+import { mpvCommand, getProperty, setProperty } from './mpvController'
+import { getCurrentFile } from './remoteServer'
+import { getAudioOutputSettings, saveAudioOutputSettings, SPDIF_CODECS, type AudioDevice, type AudioOutputSettings } from './lib/audioOutput'
+import {
+    getAudioFilters, saveAudioFilters, hasFileAudioFilters, setFileAudioFiltersEnabled,
+    getEqualizerPresets, saveEqualizerPreset, deleteEqualizerPreset,
+    buildAudioFilters, formatAudioFilters, EQ_BANDS, FILTER_LABELS, type AudioFilterSettings
+} from './lib/audioFilters'
+
+let handlersRegistered = false
+let applyQueue: Promise<void> = Promise.resolve() // Slider drags send changes faster than mpv rebuilds the chain
+let uiWindow: BrowserWindow | null = null
+let audioDevices: AudioDevice[] = [] // Last 'audio-device-list' from mpv
+let activeDevice = 'auto' // What mpv is actually using right now
+
+// ============================================================================
+// AUDIO FILTERS
+// ============================================================================
+
+// Everything the Sound tab shows for the current file
+function getAudioFilterState() {
+    const source = getCurrentFile()
+    return {
+        settings: getAudioFilters(source),
+        perFile: hasFileAudioFilters(source),
+        canSavePerFile: !!source,
+        presets: getEqualizerPresets(),
+        bands: EQ_BANDS
+    }
+}
+
+/**
+ * Bring our labeled `af` entries in line with the settings for `source`
+ * Only entries with our labels are touched: filters from mpv.conf stay, and the audio-only
+ * visualization lives in lavfi-complex, which sits before `af` and is never rebuilt here
+ */
+async function syncAudioFilters(source: string | null): Promise<void> {
+    const wanted = buildAudioFilters(getAudioFilters(source))
+    const current: any[] = await getProperty<any[]>('af').catch(() => [])
+    const ours = (current || []).filter(f => FILTER_LABELS.includes(f.label))
+
+    const same = ours.length === wanted.length && ours.every((f, i) => f.label === wanted[i].label && f.params?.graph === wanted[i].graph)
+    if (same) return
+
+    if (ours.length > 0) await mpvCommand('af', 'remove', ours.map(f => `@${f.label}`).join(','))
+    if (wanted.length > 0) await mpvCommand('af', 'add', formatAudioFilters(wanted))
+}
+
+/**
+ * Apply the audio filters for a newly loaded file (also runs after mpv was respawned)
+ */
+export function applyAudioFilters(source: string | null, onError?: (message: string) => void): Promise<void> {
+    applyQueue = applyQueue
+        .then(() => syncAudioFilters(source))
+        .catch((e: any) => {
+            console.error('[AUDIO] Could not apply audio filters:', e.message)
+            onError?.(e.message)
+        })
+    return applyQueue
+}
+
+// ============================================================================
+// OUTPUT DEVICES
+// ============================================================================
+
+function notify(message: string): void {
+    if (uiWindow && !uiWindow.isDestroyed()) uiWindow.webContents.send('mpv-msg', message)
+}
+
+function describeDevice(name: string): string {
+    return audioDevices.find(d => d.name === name)?.description || name
+}
+
+export function getAudioOutputState() {
+    return {
+        devices: audioDevices,
+        current: activeDevice,
+        settings: getAudioOutputSettings(),
+        codecs: SPDIF_CODECS
+    }
+}
+
+// Sound tab and tray menu follow the device list and the active device
+function announceAudioOutput(): void {
+    if (uiWindow && !uiWindow.isDestroyed()) uiWindow.webContents.send('audio-output', getAudioOutputState())
+    ipcMain.emit('audio-devices-changed')
+}
+
+function switchDevice(name: string): void {
+    setProperty('audio-device', name).catch(e => {
+        console.error('[AUDIO] Could not switch output device:', e.message)
+        notify(`❌ Could not switch to ${describeDevice(name)}`)
+    })
+}
+
+/**
+ * mpv reported its devices (on start and whenever one is plugged in or removed)
+ * The remembered device is used while it is connected, the system default stands in while it's gone
+ */
+export function handleAudioDeviceList(list: any[]): void {
+    const previous = audioDevices
+    audioDevices = list.map(d => ({ name: d.name, description: d.description || d.name }))
+
+    const { device } = getAudioOutputSettings()
+    if (device !== 'auto') {
+        const present = audioDevices.some(d => d.name === device)
+        const wasPresent = previous.some(d => d.name === device)
+
+        if (present && activeDevice !== device) {
+            switchDevice(device)
+            if (previous.length > 0 && !wasPresent) notify(`🔊 ${describeDevice(device)}`)
+        } else if (!present && activeDevice === device) {
+            switchDevice('auto')
+            notify(`🔈 ${previous.find(d => d.name === device)?.description || device} disconnected, using the default output`)
+        }
+    }
+    announceAudioOutput()
+}
+
+export function handleAudioDeviceChange(name: string): void {
+    activeDevice = name || 'auto'
+    // A respawned mpv starts on the default again
+    const { device } = getAudioOutputSettings()
+    if (activeDevice === 'auto' && device !== 'auto' && audioDevices.some(d => d.name === device)) switchDevice(device)
+    announceAudioOutput()
+}
+
+/**
+ * Switch live and remember the choice
+ */
+export function selectAudioDevice(name: string): void {
+    saveAudioOutputSettings({ device: name })
+    switchDevice(name)
+    notify(`🔊 ${describeDevice(name)}`)
+}
+
+/**
+ * Passthrough and exclusive mode only take effect when the audio output is reopened
+ */
+async function applyOutputOptions(settings: AudioOutputSettings): Promise<void> {
+    await setProperty('audio-spdif', settings.spdif.join(','))
+    await setProperty('audio-exclusive', settings.exclusive)
+    await mpvCommand('ao-reload')
+}
+
+export function setupAudioController(mainWindow: BrowserWindow): void {
+    // Only register handlers once to avoid "second handler" error
+    if (handlersRegistered) return
+    handlersRegistered = true
+    uiWindow = mainWindow
+
+    const send = (channel: string, ...args: any[]) => {
+        if (!mainWindow.isDestroyed()) mainWindow.webContents.send(channel, ...args)
+    }
+    const reportError = (message: string) => send('mpv-msg', `❌ Audio filters: ${message}`)
+
+    ipcMain.handle('get-audio-filters', () => getAudioFilterState())
+
+    ipcMain.handle('set-audio-filters', async (_event, changes: Partial<AudioFilterSettings>) => {
+        const source = getCurrentFile()
+        saveAudioFilters(source, changes)
+        await applyAudioFilters(source, reportError)
+        return getAudioFilterState()
+    })
+
+    // Remember the current settings for this file only, or go back to the global ones
+    ipcMain.handle('set-audio-filters-per-file', async (_event, enabled: boolean) => {
+        const source = getCurrentFile()
+        if (!source) return getAudioFilterState()
+        setFileAudioFiltersEnabled(source, enabled)
+        await applyAudioFilters(source, reportError)
+        return getAudioFilterState()
+    })
+
+    ipcMain.handle('get-audio-output', () => getAudioOutputState())
+
+    ipcMain.handle('set-audio-device', (_event, name: string) => {
+        selectAudioDevice(name)
+        return getAudioOutputState()
+    })
+
+    ipcMain.handle('set-audio-output', async (_event, changes: Partial<Pick<AudioOutputSettings, 'spdif' | 'exclusive'>>) => {
+        const settings = saveAudioOutputSettings(changes)
+        try {
+            await applyOutputOptions(settings)
+        } catch (e: any) {
+            console.error('[AUDIO] Could not apply output options:', e.message)
+            notify(`❌ Audio output: ${e.message}`)
+        }
+        return getAudioOutputState()
+    })
+
+    ipcMain.handle('save-equalizer-preset', (_event, name: string) => {
+        try {
+            saveEqualizerPreset(name, getAudioFilters(getCurrentFile()).equalizer)
+            send('mpv-msg', `🎚️ Preset saved: ${name.trim()}`)
+        } catch (e: any) {
+            send('mpv-msg', `❌ ${e.message}`)
+        }
+        return getAudioFilterState()
+    })
+
+    ipcMain.handle('delete-equalizer-preset', (_event, name: string) => {
+        deleteEqualizerPreset(name)
+        return getAudioFilterState()
+    })
+}
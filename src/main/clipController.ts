@@ -0,0 +1,73 @@
+import { ipcMain, BrowserWindow, dialog, app, shell } from 'electron'
+import { promises as fsp } from 'fs'
+import { basename, extname, join, dirname } from 'path'
+import { getCurrentFile, getPlayerState } from './remoteServer'
+import { exportClip, cancelClipExport, isClipExportRunning, type ClipOptions } from './lib/clipExport'
+
+let handlersRegistered = false
+let lastExportDir: string | null = null
+
+// "Movie [01.02.03-01.02.10].mp4"
+function defaultClipName(videoPath: string, { start, end, format }: ClipOptions): string {
+    const stamp = (seconds: number) => {
+        const h = Math.floor(seconds / 3600)
+        const m = Math.floor((seconds % 3600) / 60)
+        const s = Math.floor(seconds % 60)
+        return [h, m, s].map(n => n.toString().padStart(2, '0')).join('.')
+    }
+    return `${basename(videoPath, extname(videoPath))} [${stamp(start)}-${stamp(end)}].${format}`
+}
+
+export function setupClipController(mainWindow: BrowserWindow): void {
+    // Only register handlers once to avoid "second handler" error
+    if (handlersRegistered) return
+    handlersRegistered = true
+
+    const send = (channel: string, ...args: any[]) => {
+        if (!mainWindow.isDestroyed()) mainWindow.webContents.send(channel, ...args)
+    }
+
+    // Export the selected range of the playing file, progress goes out as 'clip-export-progress'
+    ipcMain.handle('clip-export', async (_event, options: ClipOptions) => {
+        const videoPath = getCurrentFile()
+        if (!videoPath || /^[a-z]+:\/\//i.test(videoPath)) {
+            send('mpv-msg', '❌ Clip export needs a local file')
+            return null
+        }
+        if (isClipExportRunning()) {
+            send('mpv-msg', '❌ Another clip is already exporting')
+            return null
+        }
+
+        const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+            title: 'Export Clip',
+            defaultPath: join(lastExportDir || app.getPath('videos'), defaultClipName(videoPath, options)),
+            filters: [{ name: options.format.toUpperCase(), extensions: [options.format] }]
+        })
+        if (canceled || !filePath) return null
+        lastExportDir = dirname(filePath)
+
+        try {
+            send('clip-export-progress', 0)
+            await exportClip(videoPath, filePath, options, getPlayerState().tracks, progress => send('clip-export-progress', progress))
+            send('mpv-msg', `✅ Clip saved: ${basename(filePath)}`)
+            return filePath
+        } catch (e: any) {
+            // Don't leave a half-written clip behind
+            await fsp.rm(filePath, { force: true }).catch(() => {})
+            if (e.message === 'FFmpeg was cancelled') {
+                send('mpv-msg', 'Clip export cancelled')
+            } else {
+                console.error('[CLIP] Export failed:', e)
+                send('mpv-msg', `❌ Clip export failed: ${e.message}`)
+            }
+            return null
+        } finally {
+            send('clip-export-progress', null)
+        }
+    })
+
+    ipcMain.on('clip-export-cancel', () => cancelClipExport())
+
+    ipcMain.on('clip-show-in-folder', (_event, filePath: string) => shell.showItemInFolder(filePath))
+}
@@ -4,3 +4,11 @@ declare module '*?asset' {
   const content: string;
   export default content;
 }
+
+declare module 'opensubtitles-api' {
+  export default class OpenSubtitles {
+    constructor(options: { useragent: string; username?: string; password?: string; ssl?: boolean; endpoint?: string } | string)
+    search(info: Record<string, any>): Promise<Record<string, any>>
+    hash(path: string): Promise<{ moviehash: string; moviebytesize: number }>
+  }
+}
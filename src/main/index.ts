@@ -1,13 +1,21 @@
 import { app, shell, BrowserWindow, ipcMain, dialog } from 'electron'
-import { join } from 'path'
+import { join, extname } from 'path'
+import { promises as fsp } from 'fs'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import { autoUpdater } from 'electron-updater'
 import icon from '../../resources/NauticPlayerIcon.ico?asset'
 import { setupMpvController, setupIpcHandlers, updateYtdl, sendCommand } from './mpvController'
-import { startRemoteServer, resolveBestIps, setCurrentFile, sendShutdownAck } from './remoteServer'
+import { startRemoteServer, stopRemoteServer, resolveBestIps, setCurrentFile, sendShutdownAck, disconnectRemoteDevice } from './remoteServer'
 import { setupSubtitleController } from './subtitleController'
+import { setupClipController } from './clipController'
+import { setupScreenshotController } from './screenshotController'
+import { setupAudioController, getAudioOutputState, selectAudioDevice } from './audioController'
+import { setupVideoController } from './videoController'
+import { setupShaderController } from './shaderController'
 import { logger } from './lib/logger'
 import { getPreference, savePreference } from './lib/preferences'
+import { getPairingToken, getHostKey, listDevices, revokeDevice } from './lib/remoteAuth'
+import { getLibraryRoots, setLibraryRoots } from './lib/libraryRoots'
 
 // Configure Auto Updater
 autoUpdater.autoDownload = true
@@ -100,6 +108,11 @@ function createWindow(): void {
     }
 
     setupSubtitleController(mainWindow)
+    setupClipController(mainWindow)
+    setupScreenshotController(mainWindow)
+    setupAudioController(mainWindow)
+    setupVideoController(mainWindow)
+    setupShaderController(mainWindow)
     setupIpcHandlers(mainWindow.webContents, mainWindow) // (Sender, Host) - Corrected Order
     
     // Start Remote Server
@@ -161,11 +174,68 @@ ipcMain.handle('get-remote-info', async () => {
     if (mainWindow && !mainWindow.isDestroyed()) {
         const { port } = startRemoteServer(mainWindow.webContents, mainWindow)
         const ips = await resolveBestIps()
-        return { port, ips, url: `http://${ips[0]}:${port}` }
+        return { port, ips, url: `http://${ips[0]}:${port}`, hostKey: getHostKey(), pairing: getPairingToken() }
     }
     return null
 })
 
+// Remote pairing: fresh one-time token for the QR code, paired device list, revoke
+ipcMain.handle('get-remote-pairing', () => getPairingToken())
+
+ipcMain.handle('get-remote-devices', () => listDevices())
+
+ipcMain.handle('revoke-remote-device', (_, id: string) => {
+    const revoked = revokeDevice(id)
+    if (revoked) disconnectRemoteDevice(id)
+    return revoked
+})
+
+// Library roots: the only folders the remote file browser can see
+ipcMain.handle('get-library-roots', () => getLibraryRoots())
+
+ipcMain.handle('add-library-root', async () => {
+    if (!mainWindow) return getLibraryRoots()
+    const result = await dialog.showOpenDialog(mainWindow, {
+        title: 'Add Library Folder',
+        properties: ['openDirectory']
+    })
+    if (result.canceled || result.filePaths.length === 0) return getLibraryRoots()
+    return setLibraryRoots([...getLibraryRoots(), result.filePaths[0]])
+})
+
+ipcMain.handle('remove-library-root', (_, root: string) => {
+    return setLibraryRoots(getLibraryRoots().filter(r => r !== root))
+})
+
+// Bookmark export/import: the renderer builds and parses the CSV/JSON, main only does the file dialogs
+ipcMain.handle('bookmarks-export', async (_, { csv, json, defaultName }: { csv: string, json: string, defaultName: string }) => {
+    if (!mainWindow) return null
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: 'Export Bookmarks',
+        defaultPath: join(app.getPath('documents'), `${defaultName}.csv`),
+        filters: [
+            { name: 'CSV', extensions: ['csv'] },
+            { name: 'JSON', extensions: ['json'] }
+        ]
+    })
+    if (canceled || !filePath) return null
+    // Written in the format of the chosen extension
+    await fsp.writeFile(filePath, extname(filePath).toLowerCase() === '.json' ? json : csv, 'utf-8')
+    return filePath
+})
+
+ipcMain.handle('bookmarks-import', async () => {
+    if (!mainWindow) return null
+    const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+        title: 'Import Bookmarks',
+        properties: ['openFile'],
+        filters: [{ name: 'Bookmarks', extensions: ['csv', 'json'] }]
+    })
+    if (canceled || filePaths.length === 0) return null
+    const text = await fsp.readFile(filePaths[0], 'utf-8')
+    return { text, format: extname(filePaths[0]).toLowerCase() === '.json' ? 'json' : 'csv' }
+})
+
 ipcMain.on('toggle-fullscreen', () => {
   if (mainWindow) {
     const isMax = mainWindow.isMaximized()
@@ -351,6 +421,11 @@ app.on('window-all-closed', () => {
   }
 })
 
+// Stop the remote streams' encoders and remove their output
+app.on('will-quit', () => {
+  stopRemoteServer()
+})
+
 // --- TRAY LOGIC ---
 import { Tray, Menu, nativeImage } from 'electron'
 let tray: Tray | null = null
@@ -369,17 +444,32 @@ function createTray(win: BrowserWindow): Tray {
     const appIcon = nativeImage.createFromPath(iconPath)
     const trayInstance = new Tray(appIcon)
     
-    const contextMenu = Menu.buildFromTemplate([
-        { label: 'Show Player', click: () => win.show() },
-        { type: 'separator' },
-        { label: 'Quit', click: () => {
-            isQuitting = true
-            app.quit()
-        }}
-    ])
+    // Rebuilt whenever mpv reports a device change, so the output list stays current
+    const buildContextMenu = () => {
+        const { devices, current } = getAudioOutputState()
+        return Menu.buildFromTemplate([
+            { label: 'Show Player', click: () => win.show() },
+            {
+                label: 'Audio Output',
+                enabled: devices.length > 0,
+                submenu: devices.map(device => ({
+                    label: device.description,
+                    type: 'radio' as const,
+                    checked: device.name === current,
+                    click: () => selectAudioDevice(device.name)
+                }))
+            },
+            { type: 'separator' },
+            { label: 'Quit', click: () => {
+                isQuitting = true
+                app.quit()
+            }}
+        ])
+    }
     
     trayInstance.setToolTip('NauticPlayer')
-    trayInstance.setContextMenu(contextMenu)
+    trayInstance.setContextMenu(buildContextMenu())
+    ipcMain.on('audio-devices-changed', () => trayInstance.setContextMenu(buildContextMenu()))
     
     trayInstance.on('double-click', () => {
         logger.log('[TRAY] Double-click detected. Showing window...')
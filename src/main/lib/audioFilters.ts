@@ -0,0 +1,216 @@
+/**
+ * Audio Filters
+ * Equalizer, loudness normalization, night mode, dialog boost and downmix as labeled mpv `af` entries
+ */
+
+import { getPreference, savePreference } from './preferences'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface AudioFilterSettings {
+  equalizerEnabled: boolean
+  equalizer: number[] // Gain in dB for each of EQ_BANDS
+  normalize: boolean // EBU R128 loudness normalization
+  nightMode: boolean // Dynamic range compression
+  dialogBoost: boolean
+  downmix: boolean // 5.1/7.1 to stereo
+}
+
+export interface EqualizerPreset {
+  name: string
+  gains: number[]
+  builtIn: boolean
+}
+
+// One `af` entry, the label lets us replace our filters without touching anyone else's
+export interface AudioFilterEntry {
+  label: string
+  graph: string
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000] // Hz, one octave apart
+export const EQ_MAX_GAIN = 12
+export const FILTER_LABELS = ['nautic-downmix', 'nautic-dialog', 'nautic-eq', 'nautic-night', 'nautic-loudnorm']
+
+const SETTINGS_PREF = 'audioFilters'
+const PER_FILE_PREF = 'audioFiltersPerFile'
+const PRESETS_PREF = 'equalizerPresets'
+const MAX_PER_FILE = 500
+
+const BUILT_IN_PRESETS: EqualizerPreset[] = [
+  { name: 'Flat', gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0], builtIn: true },
+  { name: 'Bass Boost', gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0], builtIn: true },
+  { name: 'Treble Boost', gains: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6], builtIn: true },
+  { name: 'Vocal', gains: [-2, -2, -1, 1, 3, 4, 4, 2, 0, -1], builtIn: true },
+  { name: 'Rock', gains: [4, 3, 2, 0, -1, -1, 1, 3, 4, 4], builtIn: true },
+  { name: 'Pop', gains: [-1, 1, 3, 4, 3, 0, -1, -1, 1, 2], builtIn: true },
+  { name: 'Jazz', gains: [3, 2, 1, 2, -1, -1, 0, 1, 2, 3], builtIn: true },
+  { name: 'Classical', gains: [4, 3, 2, 1, -1, -1, 0, 2, 3, 4], builtIn: true },
+  { name: 'Electronic', gains: [5, 4, 1, 0, -2, 1, 0, 1, 4, 5], builtIn: true },
+  { name: 'Small Speakers', gains: [-4, -2, 2, 3, 2, 1, 1, 2, 3, 2], builtIn: true }
+]
+
+const DEFAULT_SETTINGS: AudioFilterSettings = {
+  equalizerEnabled: false,
+  equalizer: BUILT_IN_PRESETS[0].gains,
+  normalize: false,
+  nightMode: false,
+  dialogBoost: false,
+  downmix: false
+}
+
+// ============================================================================
+// SETTINGS (global, with optional per-file overrides)
+// ============================================================================
+
+function sanitize(settings: AudioFilterSettings): AudioFilterSettings {
+  const gains = EQ_BANDS.map((_, i) => {
+    const gain = Number(settings.equalizer?.[i]) || 0
+    return Math.min(EQ_MAX_GAIN, Math.max(-EQ_MAX_GAIN, Math.round(gain * 2) / 2))
+  })
+  return {
+    equalizerEnabled: !!settings.equalizerEnabled,
+    equalizer: gains,
+    normalize: !!settings.normalize,
+    nightMode: !!settings.nightMode,
+    dialogBoost: !!settings.dialogBoost,
+    downmix: !!settings.downmix
+  }
+}
+
+function getPerFile(): Record<string, AudioFilterSettings> {
+  return getPreference<Record<string, AudioFilterSettings>>(PER_FILE_PREF, {}) || {}
+}
+
+export function getGlobalAudioFilters(): AudioFilterSettings {
+  return sanitize({ ...DEFAULT_SETTINGS, ...getPreference<Partial<AudioFilterSettings>>(SETTINGS_PREF, {}) })
+}
+
+export function hasFileAudioFilters(source: string | null): boolean {
+  return !!source && source in getPerFile()
+}
+
+/**
+ * Settings that apply to a file: its own when it has some, the global ones otherwise
+ */
+export function getAudioFilters(source: string | null): AudioFilterSettings {
+  const own = source ? getPerFile()[source] : undefined
+  return own ? sanitize({ ...DEFAULT_SETTINGS, ...own }) : getGlobalAudioFilters()
+}
+
+/**
+ * Save changes where the file's settings currently live (per-file entry or global)
+ */
+export function saveAudioFilters(source: string | null, changes: Partial<AudioFilterSettings>): AudioFilterSettings {
+  const next = sanitize({ ...getAudioFilters(source), ...changes })
+  if (source && hasFileAudioFilters(source)) {
+    savePreference(PER_FILE_PREF, { ...getPerFile(), [source]: next })
+  } else {
+    savePreference(SETTINGS_PREF, next)
+  }
+  return next
+}
+
+/**
+ * Switch a file between its own settings (starting from the current ones) and the global settings
+ */
+export function setFileAudioFiltersEnabled(source: string, enabled: boolean): AudioFilterSettings {
+  const perFile = getPerFile()
+  if (enabled) {
+    const { [source]: _previous, ...others } = perFile
+    // Oldest entries go first once the map is full (object keys keep insertion order)
+    const kept = Object.entries(others).slice(-(MAX_PER_FILE - 1))
+    savePreference(PER_FILE_PREF, { ...Object.fromEntries(kept), [source]: getAudioFilters(source) })
+  } else {
+    delete perFile[source]
+    savePreference(PER_FILE_PREF, perFile)
+  }
+  return getAudioFilters(source)
+}
+
+// ============================================================================
+// EQUALIZER PRESETS
+// ============================================================================
+
+export function getEqualizerPresets(): EqualizerPreset[] {
+  const custom = getPreference<EqualizerPreset[]>(PRESETS_PREF, []) || []
+  return [...BUILT_IN_PRESETS, ...custom.map(p => ({ ...p, builtIn: false }))]
+}
+
+export function saveEqualizerPreset(name: string, gains: number[]): EqualizerPreset[] {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Preset name is empty')
+  if (BUILT_IN_PRESETS.some(p => p.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`"${trimmed}" is a built-in preset`)
+  }
+
+  const custom = (getPreference<EqualizerPreset[]>(PRESETS_PREF, []) || []).filter(p => p.name !== trimmed)
+  const { equalizer } = sanitize({ ...DEFAULT_SETTINGS, equalizer: gains })
+  savePreference(PRESETS_PREF, [...custom, { name: trimmed, gains: equalizer, builtIn: false }])
+  return getEqualizerPresets()
+}
+
+export function deleteEqualizerPreset(name: string): EqualizerPreset[] {
+  const custom = getPreference<EqualizerPreset[]>(PRESETS_PREF, []) || []
+  savePreference(PRESETS_PREF, custom.filter(p => p.name !== name))
+  return getEqualizerPresets()
+}
+
+// ============================================================================
+// FILTER GRAPH
+// ============================================================================
+
+/**
+ * lavfi graphs for the enabled effects, in processing order
+ * Downmix comes first so the other filters work on two channels, loudness last so it sees the final mix
+ */
+export function buildAudioFilters(settings: AudioFilterSettings): AudioFilterEntry[] {
+  const entries: AudioFilterEntry[] = []
+
+  if (settings.downmix) {
+    // Stereo input passes through, dialog boost raises the center channel in the mix
+    const centerLevel = settings.dialogBoost ? 1.414 : 0.707
+    entries.push({ label: 'nautic-downmix', graph: `aresample=ochl=stereo:clev=${centerLevel}:slev=0.707:lfe_mix_level=0.5` })
+  }
+
+  if (settings.dialogBoost) {
+    // Pull back the low end and lift the speech presence range
+    entries.push({ label: 'nautic-dialog', graph: 'equalizer=f=200:t=q:w=0.8:g=-3,equalizer=f=2800:t=q:w=1:g=5' })
+  }
+
+  if (settings.equalizerEnabled && settings.equalizer.some(g => g !== 0)) {
+    const bands = EQ_BANDS
+      .map((freq, i) => ({ freq, gain: settings.equalizer[i] }))
+      .filter(b => b.gain !== 0)
+      .map(b => `equalizer=f=${b.freq}:t=o:w=1:g=${b.gain}`)
+    // Pre-attenuate by the largest boost so raised bands don't clip
+    const headroom = Math.max(0, ...settings.equalizer)
+    const graph = headroom > 0 ? [`volume=-${headroom}dB`, ...bands] : bands
+    entries.push({ label: 'nautic-eq', graph: graph.join(',') })
+  }
+
+  if (settings.nightMode) {
+    // Quiet parts up, loud parts down (threshold about -24 dB)
+    entries.push({ label: 'nautic-night', graph: 'acompressor=threshold=0.063:ratio=6:attack=5:release=300:makeup=3' })
+  }
+
+  if (settings.normalize) {
+    // loudnorm upsamples to 192 kHz internally, bring it back to a rate every output supports
+    entries.push({ label: 'nautic-loudnorm', graph: 'loudnorm=I=-16:TP=-1.5:LRA=11,aresample=48000' })
+  }
+
+  return entries
+}
+
+/**
+ * `af add` syntax for a list of entries (the brackets keep the graph's commas together)
+ */
+export function formatAudioFilters(entries: AudioFilterEntry[]): string {
+  return entries.map(e => `@${e.label}:lavfi=[${e.graph}]`).join(',')
+}
@@ -0,0 +1,66 @@
+/**
+ * Audio Output
+ * Remembered output device, S/PDIF/HDMI passthrough codecs and exclusive mode
+ */
+
+import { getPreference, savePreference } from './preferences'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface AudioDevice {
+  name: string // mpv device id, 'auto' for the system default
+  description: string
+}
+
+export interface AudioOutputSettings {
+  device: string
+  spdif: string[] // Codecs sent undecoded to the receiver
+  exclusive: boolean // Take the device for ourselves (WASAPI / CoreAudio)
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SPDIF_CODECS = ['ac3', 'eac3', 'dts', 'dts-hd', 'truehd']
+
+const OUTPUT_PREF = 'audioOutput'
+
+const DEFAULT_SETTINGS: AudioOutputSettings = {
+  device: 'auto',
+  spdif: [],
+  exclusive: false
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export function getAudioOutputSettings(): AudioOutputSettings {
+  return { ...DEFAULT_SETTINGS, ...getPreference<Partial<AudioOutputSettings>>(OUTPUT_PREF, {}) }
+}
+
+export function saveAudioOutputSettings(changes: Partial<AudioOutputSettings>): AudioOutputSettings {
+  const next = { ...getAudioOutputSettings(), ...changes }
+
+  if (typeof next.device !== 'string' || !next.device) next.device = 'auto'
+  next.spdif = SPDIF_CODECS.filter(codec => Array.isArray(next.spdif) && next.spdif.includes(codec))
+  next.exclusive = !!next.exclusive
+
+  savePreference(OUTPUT_PREF, next)
+  return next
+}
+
+/**
+ * Spawn arguments for the output options
+ * The device itself is picked once mpv lists what is connected, a missing one would leave us silent
+ */
+export function getAudioOutputArgs(): string[] {
+  const { spdif, exclusive } = getAudioOutputSettings()
+  const args: string[] = []
+  if (spdif.length > 0) args.push(`--audio-spdif=${spdif.join(',')}`)
+  if (exclusive) args.push('--audio-exclusive=yes')
+  return args
+}
@@ -0,0 +1,197 @@
+/**
+ * Clip Export
+ * Cuts a segment of the current file with ffmpeg: stream copy, re-encode or animated GIF/WebP
+ */
+
+import type { ChildProcess } from 'child_process'
+import { runFfmpeg } from './ffmpeg'
+import { resolveBurnInSubtitle, textBurnInFilter } from './subtitleTracks'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ClipFormat = 'mp4' | 'webm' | 'gif' | 'webp'
+export type ClipQuality = 'high' | 'medium' | 'low'
+
+export interface ClipOptions {
+  start: number // Seconds
+  end: number
+  format: ClipFormat
+  copy: boolean // Stream copy: fast, but cuts on keyframes and can't scale or burn subtitles
+  height: number | null // Output height, null keeps the source size
+  quality: ClipQuality
+  burnSubtitles: boolean
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// CRF per codec, lower is better
+const X264_CRF: Record<ClipQuality, number> = { high: 18, medium: 23, low: 28 }
+const VP9_CRF: Record<ClipQuality, number> = { high: 24, medium: 32, low: 40 }
+
+// Animations get big fast: fewer frames and a capped size
+const ANIMATION_FPS: Record<ClipQuality, number> = { high: 24, medium: 15, low: 10 }
+const WEBP_QUALITY: Record<ClipQuality, number> = { high: 85, medium: 70, low: 50 }
+const ANIMATION_MAX_HEIGHT = 480
+
+// What each container holds without -strict (mpv codec names), anything else is re-encoded instead of copied
+const COPY_CODECS: Record<'mp4' | 'webm', { video: Set<string>; audio: Set<string> }> = {
+  mp4: {
+    video: new Set(['h264', 'hevc', 'av1', 'vp9', 'mpeg4']),
+    audio: new Set(['aac', 'mp3', 'ac3', 'eac3', 'alac', 'opus'])
+  },
+  webm: {
+    video: new Set(['vp8', 'vp9', 'av1']),
+    audio: new Set(['vorbis', 'opus'])
+  }
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+let activeJob: { proc: ChildProcess | null; cancelled: boolean } | null = null
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Video filters and extra inputs for burning the selected sub track into the picture
+ * Text subs go through libass, bitmap subs (PGS, VobSub) are overlaid from the video's own stream
+ */
+async function buildSubtitleFilter(videoPath: string, subTrack: any, start: number): Promise<{ filter: string; overlayStream?: number }> {
+  const subtitle = await resolveBurnInSubtitle(subTrack, videoPath)
+  if ('stream' in subtitle) return { filter: '', overlayStream: subtitle.stream }
+  return { filter: textBurnInFilter(subtitle.file, start) }
+}
+
+/**
+ * Whether the video and audio streams being exported can be copied into a `format` file as they are
+ */
+function canStreamCopy(format: ClipFormat, videoTrack: any, audioTrack: any): boolean {
+  if (format !== 'mp4' && format !== 'webm') return false
+  const codecs = COPY_CODECS[format]
+  if (!videoTrack || !codecs.video.has(videoTrack.codec)) return false
+  return !audioTrack || codecs.audio.has(audioTrack.codec)
+}
+
+function scaleFilter(height: number | null): string | null {
+  return height ? `scale=-2:${height}:flags=lanczos` : null
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Stop the running export, its promise rejects with 'FFmpeg was cancelled'
+ */
+export function cancelClipExport(): void {
+  if (!activeJob) return
+  activeJob.cancelled = true
+  activeJob.proc?.kill()
+}
+
+export function isClipExportRunning(): boolean {
+  return activeJob !== null
+}
+
+/**
+ * Export [start, end] of a local file to `output`
+ * tracks: mpv track-list, for the selected audio and subtitle streams
+ * onProgress receives 0..1
+ */
+export async function exportClip(
+  videoPath: string,
+  output: string,
+  options: ClipOptions,
+  tracks: any[],
+  onProgress: (progress: number) => void
+): Promise<void> {
+  if (activeJob) throw new Error('Another clip is already exporting')
+
+  const duration = options.end - options.start
+  if (!(duration > 0)) throw new Error('Select a range first')
+
+  const job: { proc: ChildProcess | null; cancelled: boolean } = { proc: null, cancelled: false }
+  activeJob = job
+
+  try {
+    const animated = options.format === 'gif' || options.format === 'webp'
+    const audioTrack = tracks.find(t => t.type === 'audio' && t.selected && !t.external)
+    const subTrack = options.burnSubtitles ? tracks.find(t => t.type === 'sub' && t.selected) : null
+    // Without a pick the first audio stream goes in (see -map below)
+    const videoTrack = tracks.find(t => t.type === 'video' && t.selected) || tracks.find(t => t.type === 'video')
+    const copiedAudio = audioTrack || tracks.find(t => t.type === 'audio' && !t.external)
+    let copy = options.copy && !animated && !subTrack
+    if (copy && !canStreamCopy(options.format, videoTrack, copiedAudio)) {
+      console.log(`[CLIP] ${videoTrack?.codec}/${copiedAudio?.codec} doesn't fit in ${options.format}, re-encoding`)
+      copy = false
+    }
+
+    const args = ['-v', 'error', '-ss', String(options.start), '-i', videoPath, '-t', String(duration)]
+    const filters: string[] = []
+    let overlayStream: number | undefined
+
+    if (subTrack && !copy) {
+      const subtitle = await buildSubtitleFilter(videoPath, subTrack, options.start)
+      if (subtitle.filter) filters.push(subtitle.filter)
+      overlayStream = subtitle.overlayStream
+    }
+    if (job.cancelled) throw new Error('FFmpeg was cancelled')
+
+    if (animated) {
+      const height = Math.min(options.height || ANIMATION_MAX_HEIGHT, ANIMATION_MAX_HEIGHT)
+      filters.push(`fps=${ANIMATION_FPS[options.quality]}`, scaleFilter(height)!)
+    } else if (!copy) {
+      const scale = scaleFilter(options.height)
+      if (scale) filters.push(scale)
+    }
+
+    // Video graph: first video stream (+ bitmap subtitle overlay) -> filters
+    let graph: string | null = null
+    if (overlayStream !== undefined) graph = ['[0:v:0][0:' + overlayStream + ']overlay', ...filters].join(',')
+    else if (filters.length > 0) graph = '[0:v:0]' + filters.join(',')
+
+    if (options.format === 'gif') {
+      // Palette generated from the clip itself, the default GIF palette bands badly
+      args.push('-filter_complex', `${graph || '[0:v:0]null'},split[a][b];[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=bayer:bayer_scale=4[v]`)
+      args.push('-map', '[v]', '-loop', '0')
+    } else if (graph) {
+      args.push('-filter_complex', `${graph}[v]`, '-map', '[v]')
+    } else {
+      args.push('-map', '0:v:0')
+    }
+
+    if (!animated) {
+      args.push('-map', audioTrack ? `0:${audioTrack['ff-index']}` : '0:a:0?')
+    }
+
+    if (copy) {
+      args.push('-c', 'copy', '-avoid_negative_ts', 'make_zero')
+    } else if (options.format === 'mp4') {
+      args.push('-c:v', 'libx264', '-preset', 'veryfast', '-crf', String(X264_CRF[options.quality]), '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-b:a', '160k')
+    } else if (options.format === 'webm') {
+      args.push('-c:v', 'libvpx-vp9', '-crf', String(VP9_CRF[options.quality]), '-b:v', '0', '-deadline', 'good', '-cpu-used', '4', '-row-mt', '1', '-c:a', 'libopus', '-b:a', '128k')
+    } else if (options.format === 'webp') {
+      args.push('-c:v', 'libwebp', '-lossless', '0', '-quality', String(WEBP_QUALITY[options.quality]), '-loop', '0')
+    }
+
+    if (animated) args.push('-an')
+    args.push('-sn', '-dn')
+    if (options.format === 'mp4') args.push('-movflags', '+faststart')
+    args.push(output)
+
+    console.log('[CLIP] Exporting', options, '->', output)
+    await runFfmpeg(args, proc => {
+      job.proc = proc
+      if (job.cancelled) proc.kill()
+    }, seconds => onProgress(Math.min(1, seconds / duration)))
+  } finally {
+    activeJob = null
+  }
+}
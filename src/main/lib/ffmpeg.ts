@@ -0,0 +1,103 @@
+/**
+ * FFmpeg helpers for NauticPlayer
+ * Locates the bundled ffmpeg/ffprobe binaries, runs one-shot jobs and probes media
+ */
+
+import { spawn, execFile, ChildProcess } from 'child_process'
+import { existsSync } from 'fs'
+import { resolveBinary } from './platform'
+
+export interface MediaProbe {
+  container: string // ffprobe format_name, e.g. "matroska,webm" or "mov,mp4,m4a,3gp,3g2,mj2"
+  duration: number | null // Seconds
+  bitrate: number | null // bit/s of the whole file
+  video: { codec: string, pixFmt: string | null, width: number, height: number } | null // First video stream
+  audio: { codec: string, channels: number } | null // First audio stream
+}
+
+const PROBE_TIMEOUT_MS = 15000
+
+/**
+ * Path of the ffmpeg binary shipped in resources/bin, or the system one
+ */
+export function getFfmpegPath(): string {
+  return resolveBinary('bin', 'ffmpeg')
+}
+
+export function isFfmpegAvailable(): boolean {
+  return existsSync(getFfmpegPath())
+}
+
+export function getFfprobePath(): string {
+  return resolveBinary('bin', 'ffprobe')
+}
+
+/**
+ * Container and codecs of a file (cover art and attached pictures don't count as video)
+ */
+export function probeMedia(path: string): Promise<MediaProbe> {
+  const args = ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', path]
+  return new Promise((resolve, reject) => {
+    execFile(getFfprobePath(), args, { timeout: PROBE_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }, (err, stdout) => {
+      if (err) return reject(err)
+      try {
+        const data = JSON.parse(stdout)
+        const streams: any[] = data.streams || []
+        const video = streams.find(s => s.codec_type === 'video' && !s.disposition?.attached_pic)
+        const audio = streams.find(s => s.codec_type === 'audio')
+        const number = (value: any) => Number.isFinite(Number(value)) && Number(value) > 0 ? Number(value) : null
+
+        resolve({
+          container: data.format?.format_name || '',
+          duration: number(data.format?.duration),
+          bitrate: number(data.format?.bit_rate),
+          video: video ? { codec: video.codec_name, pixFmt: video.pix_fmt || null, width: video.width, height: video.height } : null,
+          audio: audio ? { codec: audio.codec_name, channels: audio.channels || 2 } : null
+        })
+      } catch {
+        reject(new Error('Unreadable ffprobe output'))
+      }
+    })
+  })
+}
+
+/**
+ * Run ffmpeg to completion, rejects with the last stderr lines on failure
+ * onSpawn receives the process so callers can kill it to cancel
+ * onProgress receives the output position in seconds
+ */
+export function runFfmpeg(args: string[], onSpawn?: (proc: ChildProcess) => void, onProgress?: (seconds: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!isFfmpegAvailable()) return reject(new Error('FFmpeg not available'))
+
+    const progressArgs = onProgress ? ['-progress', 'pipe:1', '-nostats'] : []
+    const proc = spawn(getFfmpegPath(), ['-hide_banner', '-y', ...progressArgs, ...args])
+    let stderr = ''
+
+    if (onProgress) {
+      // -progress writes key=value blocks, older builds only have out_time_ms (also in microseconds)
+      let pending = ''
+      proc.stdout?.on('data', (data) => {
+        const lines = (pending + data.toString()).split('\n')
+        pending = lines.pop() || ''
+        lines.forEach(line => {
+          const match = line.match(/^out_time_(?:us|ms)=(\d+)/)
+          if (match) onProgress(Number(match[1]) / 1e6)
+        })
+      })
+    }
+
+    proc.stderr?.on('data', (data) => {
+      // Keep only the tail, ffmpeg can be very chatty
+      stderr = (stderr + data.toString()).slice(-2000)
+    })
+    proc.on('error', reject)
+    proc.on('close', (code, signal) => {
+      if (code === 0) resolve()
+      else if (signal) reject(new Error('FFmpeg was cancelled'))
+      else reject(new Error(stderr.trim().split('\n').pop() || `FFmpeg exited with code ${code}`))
+    })
+
+    onSpawn?.(proc)
+  })
+}
@@ -4,10 +4,9 @@
  */
 
 import { spawn } from 'child_process'
-import { join } from 'path'
 import { randomUUID } from 'crypto'
-import { is } from '@electron-toolkit/utils'
 import { logger } from './logger'
+import { getYtdlPath } from './platform'
 
 export interface YouTubeMetadata {
   id: string
@@ -56,10 +55,7 @@ export async function extractYouTubeMetadata(url: string): Promise<YouTubeMetada
   return new Promise((resolve) => {
     try {
       // Path to yt-dlp binary
-      const binPath = is.dev
-        ? join(__dirname, '../../resources/bin')
-        : join(process.resourcesPath, 'bin')
-      const ytdlPath = join(binPath, 'yt-dlp.exe')
+      const ytdlPath = getYtdlPath()
 
       logger.log('[HISTORY] Extracting metadata for:', url)
 
@@ -135,10 +131,7 @@ export async function extractYouTubeMetadata(url: string): Promise<YouTubeMetada
 export async function extractYouTubePlaylist(playlistUrl: string): Promise<PlaylistItem[]> {
   return new Promise((resolve) => {
     try {
-      const binPath = is.dev
-        ? join(__dirname, '../../resources/bin')
-        : join(process.resourcesPath, 'bin')
-      const ytdlPath = join(binPath, 'yt-dlp.exe')
+      const ytdlPath = getYtdlPath()
 
       logger.log('[PLAYLIST] Extracting playlist:', playlistUrl)
 
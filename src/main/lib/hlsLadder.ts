@@ -0,0 +1,84 @@
+/**
+ * HLS Ladder
+ * Picks the renditions for remote streaming from the source resolution and builds the ffmpeg encode options for them
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface Rendition {
+  height: number
+  label: string
+  videoBitrate: number // kbit/s
+  audioBitrate: number // kbit/s
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Lowest first, hls.js numbers its levels in this order
+const LADDER: Rendition[] = [
+  { height: 360, label: '360p', videoBitrate: 800, audioBitrate: 96 },
+  { height: 480, label: '480p', videoBitrate: 1400, audioBitrate: 128 },
+  { height: 720, label: '720p', videoBitrate: 2800, audioBitrate: 128 },
+  { height: 1080, label: '1080p', videoBitrate: 5000, audioBitrate: 160 }
+]
+
+// Used while the source height is unknown (mpv hasn't reported the video track yet)
+const FALLBACK_HEIGHT = 720
+
+// A 1080p rip cropped to 1040 lines still deserves the 1080p rendition
+const HEIGHT_TOLERANCE = 1.1
+
+// ============================================================================
+// LADDER
+// ============================================================================
+
+/**
+ * Renditions worth encoding for a source: never upscaled, at least one
+ * `only` keeps a single rendition (clients that can't switch levels themselves)
+ */
+export function getRenditions(sourceHeight: number | null, only?: number | null): Rendition[] {
+  const height = sourceHeight && sourceHeight > 0 ? sourceHeight : FALLBACK_HEIGHT
+  const fitting = LADDER.filter(r => r.height <= height * HEIGHT_TOLERANCE)
+  // Sources below 360p are sent at their own (even, for yuv420p) size
+  const own = Math.max(2, height - (height % 2))
+  const renditions = fitting.length > 0 ? fitting : [{ ...LADDER[0], height: own, label: `${own}p` }]
+
+  if (only) {
+    const picked = renditions.find(r => r.height === only)
+    if (picked) return [picked]
+  }
+  return renditions
+}
+
+/**
+ * Video filter sizing the picture for a rendition, last in the session's filter graph
+ */
+export function renditionScale(rendition: Rendition): string {
+  return `scale=-2:${rendition.height}`
+}
+
+/**
+ * Video and audio encode options for one rendition
+ * Keyframes are forced on every segment boundary so segments from separate ffmpeg runs line up, and players can switch between renditions
+ */
+export function buildRenditionArgs(rendition: Rendition, hasAudio: boolean, segmentSeconds: number): string[] {
+  return [
+    // Video settings
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-profile:v', 'main',
+    '-pix_fmt', 'yuv420p',
+    '-b:v', `${rendition.videoBitrate}k`,
+    '-maxrate', `${Math.round(rendition.videoBitrate * 1.07)}k`,
+    '-bufsize', `${rendition.videoBitrate * 2}k`,
+    '-force_key_frames', `expr:gte(t,n_forced*${segmentSeconds})`,
+    '-sc_threshold', '0',
+
+    // Audio settings
+    ...(hasAudio ? ['-c:a', 'aac', '-b:a', `${rendition.audioBitrate}k`, '-ac', '2', '-ar', '44100'] : ['-an'])
+  ]
+}
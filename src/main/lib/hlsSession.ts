@@ -0,0 +1,399 @@
+/**
+ * HLS Sessions
+ * Transcoded streams get full-length VOD playlists with segments encoded on demand around the position being watched,
+ * remuxed streams (codecs browsers already play) are repackaged front to back, which runs far faster than playback
+ * Several viewers can share a session, every viewer gets its own encoders so a seek doesn't stop anyone else's
+ */
+
+import { spawn, ChildProcess } from 'child_process'
+import { existsSync, mkdirSync, promises as fsp } from 'fs'
+import { join } from 'path'
+import { getFfmpegPath } from './ffmpeg'
+import { buildRenditionArgs, renditionScale, type Rendition } from './hlsLadder'
+import { textBurnInFilter, type BurnInSubtitle } from './subtitleTracks'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface HlsSource {
+  path: string
+  duration: number // Seconds
+  width: number | null
+  height: number | null
+  bitrate: number | null // bit/s, for the remux variant's BANDWIDTH
+  hasAudio: boolean
+  audioStream: number | null // ff-index of the audio track to send, null for the file's first
+  subtitle: BurnInSubtitle | null // Burned into the picture (transcodes only)
+}
+
+/**
+ * What the /hls routes serve from, levels are the variants of the master playlist
+ */
+export interface HlsSession {
+  readonly source: HlsSource
+  masterPlaylist(base?: string): string // `base` is put in front of the variant URIs
+  mediaPlaylist(level: number): Promise<string>
+  file(level: number, name: string, viewer: string): Promise<string> // Path of a finished segment / init file
+  destroy(): Promise<void>
+}
+
+interface FfmpegRun {
+  proc: ChildProcess
+  error: string | null
+}
+
+// One ffmpeg run writing segments [start, end) of a rendition for a viewer
+interface Encoder extends FfmpegRun {
+  level: number
+  start: number
+  end: number
+  lastFetch: number // Date.now() of the last segment request it served
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SEGMENT_SECONDS = 4
+
+// A run stops after this many segments (4 min), playback that keeps going starts the next one
+const MAX_RUN_SEGMENTS = 60
+
+// Wait for a running encoder this close to the requested segment rather than restarting it there
+const REUSE_WINDOW_SEGMENTS = 3
+
+// Encoders nobody fetched from for this long are stopped (the player switched levels or left)
+const ENCODER_IDLE_MS = 15000
+
+// ffmpeg runs across all sessions, more viewers than this have to wait for a slot
+const MAX_CONCURRENT_ENCODES = 4
+
+const SEGMENT_TIMEOUT_MS = 30000
+const POLL_MS = 100
+
+const REMUX_FILE = /^(init\.mp4|segment_\d+\.m4s)$/
+const TRANSCODE_FILE = /^segment_(\d+)\.ts$/
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+// Running ffmpeg processes, counted against MAX_CONCURRENT_ENCODES
+const activeRuns = new Set<ChildProcess>()
+
+// Sessions that can give up idle encoders when the limit is reached
+const transcodeSessions = new Set<TranscodeSession>()
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Start ffmpeg, fails when every encode slot is taken
+ */
+function spawnFfmpeg(args: string[], onClose: (run: FfmpegRun) => void): FfmpegRun {
+  if (activeRuns.size >= MAX_CONCURRENT_ENCODES) {
+    // Free the slots of viewers that have gone quiet before turning anyone away
+    transcodeSessions.forEach(session => session.stopIdleEncoders())
+    if (activeRuns.size >= MAX_CONCURRENT_ENCODES) throw new Error('Too many streams encoding, try again shortly')
+  }
+
+  const proc = spawn(getFfmpegPath(), ['-hide_banner', '-y', ...args])
+  const run: FfmpegRun = { proc, error: null }
+  activeRuns.add(proc)
+  let stderr = ''
+
+  proc.stderr?.on('data', (data) => {
+    // Keep only the tail, ffmpeg can be very chatty
+    stderr = (stderr + data.toString()).slice(-2000)
+  })
+  proc.on('error', (e) => {
+    run.error = e.message
+  })
+  proc.on('close', (code, signal) => {
+    activeRuns.delete(proc)
+    if (code !== 0 && !signal) {
+      run.error = stderr.trim().split('\n').pop() || `FFmpeg exited with code ${code}`
+      console.error('[HLS] FFmpeg failed:', run.error)
+    }
+    onClose(run)
+  })
+  return run
+}
+
+function audioMap(source: HlsSource): string {
+  return source.audioStream !== null ? `0:${source.audioStream}` : '0:a:0'
+}
+
+// Kill a run, its slot is free right away
+// SIGKILL on purpose: on SIGTERM ffmpeg finishes the muxer, which renames the half-written .tmp to a segment that looks complete
+function stopRun(run: FfmpegRun): void {
+  activeRuns.delete(run.proc)
+  run.proc.kill('SIGKILL')
+}
+
+function hasStopped(run: FfmpegRun): boolean {
+  return !!run.error || run.proc.exitCode !== null || run.proc.signalCode !== null
+}
+
+/**
+ * Wait until ffmpeg has written `path`, fails once `isActive` says the run that would write it is gone
+ */
+async function waitForFile(path: string, run: FfmpegRun, isActive: () => boolean): Promise<string> {
+  const deadline = Date.now() + SEGMENT_TIMEOUT_MS
+  while (Date.now() < deadline) {
+    if (existsSync(path)) return path
+    if (hasStopped(run) || !isActive()) {
+      if (existsSync(path)) return path
+      throw new Error(run.error || 'Encoder stopped')
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_MS))
+  }
+  throw new Error('Segment timeout')
+}
+
+// ============================================================================
+// TRANSCODE
+// ============================================================================
+
+export class TranscodeSession implements HlsSession {
+  private encoders = new Map<string, Encoder>() // By `${viewer}/${level}`, a viewer encodes where it is watching
+  private destroyed = false
+
+  constructor(readonly source: HlsSource, readonly renditions: Rendition[], readonly dir: string) {
+    transcodeSessions.add(this)
+  }
+
+  get segmentCount(): number {
+    return Math.max(1, Math.ceil(this.source.duration / SEGMENT_SECONDS))
+  }
+
+  masterPlaylist(base = ''): string {
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3', '#EXT-X-INDEPENDENT-SEGMENTS']
+    this.renditions.forEach((r, i) => {
+      lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${(r.videoBitrate + r.audioBitrate) * 1000},RESOLUTION=${this.widthFor(r)}x${r.height}`)
+      lines.push(`${base}${i}/playlist.m3u8`)
+    })
+    return lines.join('\n') + '\n'
+  }
+
+  /**
+   * Every segment of the file is listed up front, players can seek anywhere right away
+   */
+  async mediaPlaylist(level: number): Promise<string> {
+    if (!this.renditions[level]) throw new Error('Unknown rendition')
+    const lines = [
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      '#EXT-X-PLAYLIST-TYPE:VOD',
+      `#EXT-X-TARGETDURATION:${SEGMENT_SECONDS}`,
+      '#EXT-X-MEDIA-SEQUENCE:0'
+    ]
+    for (let i = 0; i < this.segmentCount; i++) {
+      const length = Math.min(SEGMENT_SECONDS, this.source.duration - i * SEGMENT_SECONDS)
+      lines.push(`#EXTINF:${Math.max(length, 0.1).toFixed(3)},`, `segment_${i}.ts`)
+    }
+    lines.push('#EXT-X-ENDLIST')
+    return lines.join('\n') + '\n'
+  }
+
+  file(level: number, name: string, viewer: string): Promise<string> {
+    const match = name.match(TRANSCODE_FILE)
+    if (!match) return Promise.reject(new Error('Unknown segment'))
+    return this.segment(level, Number(match[1]), viewer)
+  }
+
+  /**
+   * Path of a finished segment, encoding it (and the ones after it) first when needed
+   */
+  private async segment(level: number, index: number, viewer: string): Promise<string> {
+    if (!this.renditions[level] || index < 0 || index >= this.segmentCount) throw new Error('Unknown segment')
+
+    const key = `${viewer}/${level}`
+    const own = this.encoders.get(key)
+    if (own) own.lastFetch = Date.now()
+    this.stopIdleEncoders()
+
+    const path = this.segmentPath(level, index)
+    if (existsSync(path)) return path
+
+    // Any encoder about to get there will do (another viewer's too), anything else starts this viewer's over at the requested segment
+    const nearby = [own, ...this.encoders.values()].find(encoder => !!encoder && encoder.level === level &&
+      index >= encoder.start && index < encoder.end && index <= this.frontier(encoder) + REUSE_WINDOW_SEGMENTS)
+    const running = nearby || this.startEncoder(key, level, index)
+    running.lastFetch = Date.now()
+
+    // Gone when its viewer seeked somewhere else
+    return waitForFile(path, running, () => !this.destroyed && [...this.encoders.values()].includes(running))
+  }
+
+  /**
+   * Stop every encoder and remove the segments
+   */
+  async destroy(): Promise<void> {
+    this.destroyed = true
+    transcodeSessions.delete(this)
+    this.encoders.forEach(stopRun)
+    this.encoders.clear()
+    // Windows keeps files busy for a moment after the process is gone
+    await fsp.rm(this.dir, { recursive: true, force: true, maxRetries: 5 }).catch((e: any) => {
+      console.warn('[HLS] Could not remove', this.dir, e.code)
+    })
+  }
+
+  private widthFor(rendition: Rendition): number {
+    const { width, height } = this.source
+    if (!width || !height) return Math.round(rendition.height * 16 / 9 / 2) * 2
+    return Math.round(rendition.height * width / height / 2) * 2
+  }
+
+  // Picture of a run starting at `offset`: burned-in subtitles, then the rendition size
+  private videoGraph(level: number, offset: number): string {
+    const { subtitle } = this.source
+    const filters = [renditionScale(this.renditions[level])]
+    if (subtitle && 'file' in subtitle) filters.unshift(textBurnInFilter(subtitle.file, offset))
+    const input = subtitle && 'stream' in subtitle ? `[0:v:0][0:${subtitle.stream}]overlay,` : '[0:v:0]'
+    return input + filters.join(',')
+  }
+
+  private segmentPath(level: number, index: number): string {
+    return join(this.dir, String(level), `segment_${index}.ts`)
+  }
+
+  // First segment from the encoder's start that isn't written yet
+  private frontier(encoder: Encoder): number {
+    let index = encoder.start
+    while (index < encoder.end && existsSync(this.segmentPath(encoder.level, index))) index++
+    return index
+  }
+
+  stopIdleEncoders(): void {
+    const now = Date.now()
+    this.encoders.forEach((encoder, key) => {
+      if (now - encoder.lastFetch > ENCODER_IDLE_MS) {
+        stopRun(encoder)
+        this.encoders.delete(key)
+      }
+    })
+  }
+
+  private startEncoder(key: string, level: number, start: number): Encoder {
+    const previous = this.encoders.get(key)
+    if (previous) stopRun(previous)
+    this.encoders.delete(key)
+
+    // Stop before segments that already exist, they are reused as they are
+    let end = start + 1
+    const limit = Math.min(this.segmentCount, start + MAX_RUN_SEGMENTS)
+    while (end < limit && !existsSync(this.segmentPath(level, end))) end++
+
+    const outDir = join(this.dir, String(level))
+    mkdirSync(outDir, { recursive: true })
+
+    const offset = start * SEGMENT_SECONDS
+    const args = [
+      '-ss', offset.toString(),
+      '-i', this.source.path,
+      '-t', ((end - start) * SEGMENT_SECONDS).toString(),
+      '-filter_complex', `${this.videoGraph(level, offset)}[v]`,
+      '-map', '[v]',
+      ...(this.source.hasAudio ? ['-map', audioMap(this.source)] : []),
+      ...buildRenditionArgs(this.renditions[level], this.source.hasAudio, SEGMENT_SECONDS),
+      // Timestamps continue from the segment's place in the file, so runs stitch together
+      '-output_ts_offset', offset.toString(),
+      '-f', 'hls',
+      '-hls_time', SEGMENT_SECONDS.toString(),
+      '-hls_list_size', '0',
+      '-hls_flags', 'temp_file', // A segment only gets its name once it's complete
+      '-start_number', start.toString(),
+      '-hls_segment_filename', join(outDir, 'segment_%d.ts'),
+      join(outDir, `run_${start}.m3u8`)
+    ]
+
+    console.log(`[HLS] Encoding ${this.renditions[level].label} segments ${start}-${end - 1}`)
+    const encoder: Encoder = {
+      ...spawnFfmpeg(args, () => {
+        if (this.encoders.get(key) === encoder) this.encoders.delete(key)
+      }),
+      level,
+      start,
+      end,
+      lastFetch: Date.now()
+    }
+    this.encoders.set(key, encoder)
+    return encoder
+  }
+}
+
+// ============================================================================
+// REMUX
+// ============================================================================
+
+/**
+ * Video copied as is into fragmented MP4 HLS, audio copied too or re-encoded to AAC
+ * ffmpeg writes an EVENT playlist that grows until the whole file is done
+ */
+export class RemuxSession implements HlsSession {
+  private run: FfmpegRun
+  private destroyed = false
+
+  constructor(readonly source: HlsSource, copyAudio: boolean, readonly dir: string) {
+    const outDir = join(dir, '0')
+    mkdirSync(outDir, { recursive: true })
+
+    const audio = copyAudio ? ['-c:a', 'copy'] : ['-c:a', 'aac', '-b:a', '160k', '-ac', '2']
+    const args = [
+      '-i', source.path,
+      '-map', '0:v:0',
+      ...(source.hasAudio ? ['-map', audioMap(source), ...audio] : []),
+      '-c:v', 'copy',
+      '-f', 'hls',
+      '-hls_time', SEGMENT_SECONDS.toString(),
+      '-hls_list_size', '0',
+      '-hls_playlist_type', 'event',
+      '-hls_segment_type', 'fmp4',
+      '-hls_fmp4_init_filename', 'init.mp4',
+      '-hls_flags', 'temp_file+independent_segments',
+      '-hls_segment_filename', join(outDir, 'segment_%d.m4s'),
+      join(outDir, 'playlist.m3u8')
+    ]
+
+    console.log(`[HLS] Remuxing ${source.path} (${copyAudio ? 'copy' : 'AAC'} audio)`)
+    this.run = spawnFfmpeg(args, () => {})
+  }
+
+  masterPlaylist(base = ''): string {
+    const { width, height, bitrate } = this.source
+    const resolution = width && height ? `,RESOLUTION=${width}x${height}` : ''
+    return [
+      '#EXTM3U',
+      '#EXT-X-VERSION:7',
+      '#EXT-X-INDEPENDENT-SEGMENTS',
+      `#EXT-X-STREAM-INF:BANDWIDTH=${bitrate || 8000000}${resolution}`,
+      `${base}0/playlist.m3u8`
+    ].join('\n') + '\n'
+  }
+
+  async mediaPlaylist(level: number): Promise<string> {
+    if (level !== 0) throw new Error('Unknown rendition')
+    return fsp.readFile(await this.wait('playlist.m3u8'), 'utf-8')
+  }
+
+  file(level: number, name: string): Promise<string> {
+    if (level !== 0 || !REMUX_FILE.test(name)) return Promise.reject(new Error('Unknown segment'))
+    return this.wait(name)
+  }
+
+  async destroy(): Promise<void> {
+    this.destroyed = true
+    stopRun(this.run)
+    await fsp.rm(this.dir, { recursive: true, force: true, maxRetries: 5 }).catch((e: any) => {
+      console.warn('[HLS] Could not remove', this.dir, e.code)
+    })
+  }
+
+  private wait(name: string): Promise<string> {
+    return waitForFile(join(this.dir, '0', name), this.run, () => !this.destroyed)
+  }
+}
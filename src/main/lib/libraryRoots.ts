@@ -0,0 +1,52 @@
+/**
+ * Library Roots
+ * Folders the remote file browser may list and play from, everything else is off limits
+ */
+
+import { app } from 'electron'
+import { promises as fsp } from 'fs'
+import { relative, isAbsolute, resolve } from 'path'
+import { getPreference, savePreference } from './preferences'
+
+const ROOTS_KEY = 'libraryRoots'
+
+/**
+ * Configured roots, Downloads/Documents/Home until the user picks their own
+ */
+export function getLibraryRoots(): string[] {
+  const saved = getPreference<string[]>(ROOTS_KEY)
+  if (saved) return saved
+
+  const defaults = ['downloads', 'documents', 'home'] as const
+  return [...new Set(defaults.map(name => app.getPath(name)))]
+}
+
+export function setLibraryRoots(roots: string[]): string[] {
+  const unique = [...new Set(roots.map(root => resolve(root)))]
+  savePreference(ROOTS_KEY, unique)
+  return unique
+}
+
+function isWithin(root: string, target: string): boolean {
+  const rel = process.platform === 'win32'
+    ? relative(root.toLowerCase(), target.toLowerCase())
+    : relative(root, target)
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel))
+}
+
+/**
+ * Real path of `target` if it lies inside a library root, null otherwise
+ * realpath resolves `..`, symlinks and junctions, so a link can't point the browser outside
+ */
+export async function resolveLibraryPath(target: string): Promise<{ path: string; root: string } | null> {
+  if (typeof target !== 'string' || !target) return null
+
+  const real = await fsp.realpath(resolve(target)).catch(() => null)
+  if (!real) return null
+
+  for (const root of getLibraryRoots()) {
+    const realRoot = await fsp.realpath(root).catch(() => null)
+    if (realRoot && isWithin(realRoot, real)) return { path: real, root: realRoot }
+  }
+  return null
+}
@@ -0,0 +1,101 @@
+'use strict';
+import { promises as fsp } from 'fs';
+import { join, dirname, basename, extname } from 'path';
+import { fuzzy } from 'fast-fuzzy';
+import { MovieList, SubtitleList, DownloadedFile, DownloadedFileSubtitles, toLanguageId, type LanguageID, type SubtitleInfo } from './subdl-utils';
+import { getPreference, savePreference } from './preferences';
+import type { SubtitleProvider } from './subtitleProviders';
+import { decodeSubtitleBuffer, detectEncoding } from './subtitleFormat';
+
+const FOLDERS_PREF = 'subtitleFolders';
+const SUBTITLE_EXTENSIONS = ['.srt', '.ass', '.ssa', '.vtt', '.sub'];
+
+// Files in the configured folders must resemble the query at least this much
+const MATCH_THRESHOLD = 0.6;
+
+export function getSubtitleFolders(): string[] {
+  return getPreference<string[]>(FOLDERS_PREF, []) || [];
+}
+
+export function addSubtitleFolder(folder: string): string[] {
+  const folders = getSubtitleFolders();
+  if (!folders.includes(folder)) folders.push(folder);
+  savePreference(FOLDERS_PREF, folders);
+  return folders;
+}
+
+export function removeSubtitleFolder(folder: string): string[] {
+  const folders = getSubtitleFolders().filter(f => f !== folder);
+  savePreference(FOLDERS_PREF, folders);
+  return folders;
+}
+
+// "Movie.2020.en.srt" / "Movie.2020.eng.srt" -> 'en'
+function guessLanguage(filename: string): LanguageID | undefined {
+  const parts = basename(filename, extname(filename)).split('.');
+  return parts.length > 1 ? toLanguageId(parts[parts.length - 1]) : undefined;
+}
+
+// "Movie.2020.mkv" + "Movie.2020.en.srt" -> true
+function isSameRelease(videoPath: string, subtitlePath: string): boolean {
+  const video = basename(videoPath, extname(videoPath)).toLowerCase();
+  const sub = basename(subtitlePath, extname(subtitlePath)).toLowerCase();
+  return sub === video || (sub.startsWith(video + '.') && guessLanguage(subtitlePath) !== undefined);
+}
+
+export class LocalSubtitleLink extends SubtitleList {
+  constructor(page: MovieList, _link: string, info: SubtitleInfo) {
+    super(page, _link, info);
+  }
+
+  async downloadLink(): Promise<string> {
+    return this._link;
+  }
+
+  // Nothing to fetch, the "link" is a path on disk
+  async download(): Promise<DownloadedFile> {
+    const buffer = await fsp.readFile(this._link);
+    const text = decodeSubtitleBuffer(buffer, detectEncoding(buffer, guessLanguage(this._link)));
+    return new DownloadedFile([new DownloadedFileSubtitles(text, this.info.filename)], this);
+  }
+}
+
+async function listSubtitleFiles(folder: string): Promise<string[]> {
+  try {
+    const entries = await fsp.readdir(folder, { withFileTypes: true });
+    return entries
+      .filter(e => e.isFile() && SUBTITLE_EXTENSIONS.includes(extname(e.name).toLowerCase()))
+      .map(e => join(folder, e.name));
+  } catch {
+    return [];
+  }
+}
+
+export const localSubtitlesProvider: SubtitleProvider = {
+  id: 'local',
+  name: 'Local Folders',
+  exactMatches: true,
+  async search({ query, filePath }) {
+    // Everything next to the video is a candidate, configured folders are filtered by name
+    const videoFolder = filePath ? dirname(filePath) : null;
+    const folders = [...new Set([...(videoFolder ? [videoFolder] : []), ...getSubtitleFolders()])];
+
+    const perFolder = await Promise.all(folders.map(async folder => {
+      const page = new MovieList(basename(folder), folder, {});
+      const files = await listSubtitleFiles(folder);
+      return files
+        .filter(file => folder === videoFolder || fuzzy(query, basename(file), { ignoreCase: true, ignoreSymbols: true }) >= MATCH_THRESHOLD)
+        .map(file => {
+          const language = guessLanguage(file);
+          return {
+            provider: 'local',
+            subtitle: new LocalSubtitleLink(page, file, { filename: basename(file), language }),
+            language,
+            exact: !!filePath && isSameRelease(filePath, file),
+          };
+        });
+    }));
+
+    return perFolder.flat();
+  },
+};
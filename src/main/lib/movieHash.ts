@@ -0,0 +1,41 @@
+/**
+ * OpenSubtitles Movie Hash
+ * File size + 64-bit little-endian sum of the first and last 64 KiB
+ * See: https://trac.opensubtitles.org/projects/opensubtitles/wiki/HashSourceCodes
+ */
+
+import { promises as fsp } from 'fs'
+
+const CHUNK_SIZE = 64 * 1024
+const MASK_64 = (1n << 64n) - 1n
+
+export interface MovieHash {
+  hash: string // 16 hex chars
+  size: number
+}
+
+function sumChunk(buffer: Buffer, bytes: number): bigint {
+  let sum = 0n
+  for (let offset = 0; offset + 8 <= bytes; offset += 8) {
+    sum = (sum + buffer.readBigUInt64LE(offset)) & MASK_64
+  }
+  return sum
+}
+
+export async function computeMovieHash(filePath: string): Promise<MovieHash> {
+  const handle = await fsp.open(filePath, 'r')
+  try {
+    const { size } = await handle.stat()
+    if (size < CHUNK_SIZE) throw new Error('File too small to hash')
+
+    const head = Buffer.alloc(CHUNK_SIZE)
+    const tail = Buffer.alloc(CHUNK_SIZE)
+    await handle.read(head, 0, CHUNK_SIZE, 0)
+    await handle.read(tail, 0, CHUNK_SIZE, size - CHUNK_SIZE)
+
+    const hash = (BigInt(size) + sumChunk(head, CHUNK_SIZE) + sumChunk(tail, CHUNK_SIZE)) & MASK_64
+    return { hash: hash.toString(16).padStart(16, '0'), size }
+  } finally {
+    await handle.close()
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * mpv JSON IPC client
+ * Line-framed request/response over the mpv socket: every command gets a request_id and a promise
+ */
+
+import { EventEmitter } from 'events'
+import type { Socket } from 'net'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Asynchronous message from mpv (property-change, end-file, file-loaded, ...) */
+export interface MpvEvent {
+  event: string
+  id?: number // observer id for property-change
+  name?: string
+  data?: any
+  [key: string]: any
+}
+
+interface MpvReply {
+  request_id: number
+  error: string // 'success' or mpv's error text
+  data?: any
+}
+
+interface PendingRequest {
+  command: any[]
+  resolve: (data: any) => void
+  reject: (err: Error) => void
+  timer: NodeJS.Timeout
+}
+
+/**
+ * A command mpv answered with an error (or never answered)
+ */
+export class MpvCommandError extends Error {
+  constructor(public command: any[], public reason: string) {
+    super(`mpv ${command[0]} failed: ${reason}`)
+    this.name = 'MpvCommandError'
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_TIMEOUT_MS = 5000
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+/**
+ * Emits 'event' for every mpv event and 'close' when the socket goes away
+ */
+export class MpvIpcClient extends EventEmitter {
+  private buffer = ''
+  private nextRequestId = 1
+  private nextObserverId = 1
+  private pending = new Map<number, PendingRequest>()
+
+  constructor(private socket: Socket, private timeoutMs: number = DEFAULT_TIMEOUT_MS) {
+    super()
+    socket.setEncoding('utf8')
+    socket.on('data', (chunk: string) => this.onData(chunk))
+    socket.on('close', () => {
+      this.rejectAll('mpv connection closed')
+      this.emit('close')
+    })
+  }
+
+  get connected(): boolean {
+    return !this.socket.destroyed && !this.socket.connecting
+  }
+
+  /**
+   * Run a command, resolves with its data or rejects with MpvCommandError
+   */
+  command<T = any>(...command: any[]): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (!this.connected) {
+        return reject(new MpvCommandError(command, 'not connected'))
+      }
+
+      const requestId = this.nextRequestId++
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId)
+        reject(new MpvCommandError(command, `no reply after ${this.timeoutMs}ms`))
+      }, this.timeoutMs)
+
+      this.pending.set(requestId, { command, resolve, reject, timer })
+      this.write({ command, request_id: requestId })
+    })
+  }
+
+  get<T = any>(property: string): Promise<T> {
+    return this.command<T>('get_property', property)
+  }
+
+  set(property: string, value: any): Promise<void> {
+    return this.command('set_property', property, value)
+  }
+
+  /**
+   * Observe a property, changes arrive as 'property-change' events carrying the returned id
+   */
+  observe(property: string): number {
+    const id = this.nextObserverId++
+    this.command('observe_property', id, property).catch(err => {
+      console.error('[MPV-IPC] Observe failed:', property, err.message)
+    })
+    return id
+  }
+
+  /**
+   * Resolve with the next event of this name (e.g. 'playback-restart' once a seek finished)
+   */
+  waitForEvent(name: string, timeoutMs: number = this.timeoutMs): Promise<MpvEvent> {
+    return new Promise((resolve, reject) => {
+      const onEvent = (msg: MpvEvent) => {
+        if (msg.event !== name) return
+        cleanup()
+        resolve(msg)
+      }
+      const onClose = () => {
+        cleanup()
+        reject(new Error('mpv connection closed'))
+      }
+      const timer = setTimeout(() => {
+        cleanup()
+        reject(new Error(`No ${name} event after ${timeoutMs}ms`))
+      }, timeoutMs)
+      const cleanup = () => {
+        clearTimeout(timer)
+        this.off('event', onEvent)
+        this.off('close', onClose)
+      }
+      this.on('event', onEvent)
+      this.on('close', onClose)
+    })
+  }
+
+  unobserve(id: number): Promise<void> {
+    return this.command('unobserve_property', id)
+  }
+
+  destroy(): void {
+    this.rejectAll('mpv connection closed')
+    this.socket.destroy()
+  }
+
+  private write(message: Record<string, any>): void {
+    const json = JSON.stringify(message)
+    this.socket.write(json + '\n')
+  }
+
+  // mpv sends one JSON object per line, chunks can end mid-line
+  private onData(chunk: string): void {
+    this.buffer += chunk
+    let newline: number
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).trim()
+      this.buffer = this.buffer.slice(newline + 1)
+      if (line) this.onLine(line)
+    }
+  }
+
+  private onLine(line: string): void {
+    let msg: MpvEvent | MpvReply
+    try {
+      msg = JSON.parse(line)
+    } catch {
+      console.error('[MPV-IPC] Unparseable line:', line)
+      return
+    }
+
+    if ('event' in msg) {
+      this.emit('event', msg)
+      return
+    }
+
+    const request = this.pending.get(msg.request_id)
+    if (!request) return
+    this.pending.delete(msg.request_id)
+    clearTimeout(request.timer)
+
+    if (msg.error === 'success') request.resolve(msg.data)
+    else request.reject(new MpvCommandError(request.command, msg.error))
+  }
+
+  private rejectAll(reason: string): void {
+    this.pending.forEach(request => {
+      clearTimeout(request.timer)
+      request.reject(new MpvCommandError(request.command, reason))
+    })
+    this.pending.clear()
+  }
+}
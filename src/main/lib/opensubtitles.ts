@@ -0,0 +1,76 @@
+'use strict';
+import { app } from 'electron';
+import { basename } from 'path';
+import OS from 'opensubtitles-api';
+import { MovieList, SubtitleList, LanguageISO6392Map, toLanguageId, type SubtitleInfo } from './subdl-utils';
+import type { SubtitleProvider, SubtitleQuery } from './subtitleProviders';
+
+let client: OS | null = null;
+
+function getClient(): OS {
+  if (!client) {
+    client = new OS({ useragent: `NauticPlayer v${app.getVersion()}`, ssl: true });
+  }
+  return client;
+}
+
+interface OpenSubtitlesResult {
+  id: string;
+  url: string;
+  utf8: string;
+  filename: string;
+  langcode: string;
+  score: number;
+}
+
+export class OpenSubtitlesSubtitleLink extends SubtitleList {
+  constructor(page: MovieList, _link: string, info: SubtitleInfo) {
+    super(page, _link, info);
+  }
+
+  async downloadLink(): Promise<string> {
+    return this._link;
+  }
+}
+
+// opensubtitles-api scores hash/size matches 9+ (tag matches top out at 7 + rank bonus)
+const HASH_MATCH_SCORE = 9;
+
+// Builds the search info understood by opensubtitles-api (hash > filename > query)
+function toSearchInfo(query: SubtitleQuery): Record<string, any> {
+  const languages = (query.languages || []).map(l => LanguageISO6392Map[l]).filter(Boolean);
+  const info: Record<string, any> = {
+    sublanguageid: languages.length > 0 ? languages.join(',') : 'all',
+    query: query.query,
+    extensions: ['srt', 'ass', 'ssa', 'vtt', 'sub'],
+    limit: '5',
+  };
+
+  if (query.hash && query.filePath) {
+    // The library drops 16 char hashes passed as `hash`, but recomputes the same one from `path`
+    info.path = query.filePath;
+    info.filename = basename(query.filePath);
+  }
+  return info;
+}
+
+export const openSubtitlesProvider: SubtitleProvider = {
+  id: 'opensubtitles',
+  name: 'OpenSubtitles',
+  exactMatches: true,
+  async search(query) {
+    const page = new MovieList(query.query, '', {});
+    const byLanguage = await getClient().search(toSearchInfo(query));
+
+    return Object.values(byLanguage).flat().map((sub: OpenSubtitlesResult) => ({
+      provider: 'opensubtitles',
+      // utf8 link asks the server to re-encode, so we never deal with legacy code pages
+      subtitle: new OpenSubtitlesSubtitleLink(page, sub.utf8 || sub.url, {
+        filename: sub.filename,
+        language: sub.langcode,
+      }),
+      language: toLanguageId(sub.langcode),
+      exact: Boolean(query.hash) && sub.score >= HASH_MATCH_SCORE,
+    }));
+  },
+};
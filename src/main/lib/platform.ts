@@ -0,0 +1,129 @@
+/**
+ * Platform helpers for NauticPlayer
+ * Picks binaries (bundled first, system install as fallback), the mpv IPC transport and how mpv is embedded
+ */
+
+import { existsSync, statSync, unlinkSync } from 'fs'
+import { join, delimiter } from 'path'
+import { tmpdir } from 'os'
+import { is } from '@electron-toolkit/utils'
+import type { BrowserWindow } from 'electron'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * wid: mpv draws into our window (Windows HWND, X11 window id)
+ * window: mpv opens its own window (macOS, Wayland) - no native handle it can draw into
+ */
+export type EmbedStrategy = 'wid' | 'window'
+
+// ============================================================================
+// BINARIES
+// ============================================================================
+
+const EXE_SUFFIX = process.platform === 'win32' ? '.exe' : ''
+
+export function getResourcesPath(): string {
+  return is.dev ? join(process.cwd(), 'resources') : process.resourcesPath
+}
+
+// resources/mpv/mpv is mpv's config folder, not a Linux build of it
+function isFile(path: string): boolean {
+  return statSync(path, { throwIfNoEntry: false })?.isFile() ?? false
+}
+
+/**
+ * Look a program up on PATH, null if not installed
+ */
+export function findOnPath(name: string): string | null {
+  const dirs = (process.env.PATH || '').split(delimiter).filter(Boolean)
+  for (const dir of dirs) {
+    const candidate = join(dir, name + EXE_SUFFIX)
+    if (isFile(candidate)) return candidate
+  }
+  return null
+}
+
+/**
+ * Bundled binary in resources/<folder> if shipped for this platform, otherwise the system one
+ * Falls back to the bare name so spawn errors still say what was missing
+ */
+export function resolveBinary(folder: string, name: string): string {
+  const bundled = join(getResourcesPath(), folder, name + EXE_SUFFIX)
+  if (isFile(bundled)) return bundled
+  return findOnPath(name) || name
+}
+
+/**
+ * mpv binary, NAUTIC_MPV_PATH overrides it (e.g. a fake mpv speaking JSON IPC for tests)
+ */
+export function getMpvPath(): string {
+  return process.env.NAUTIC_MPV_PATH || resolveBinary('mpv', 'mpv')
+}
+
+export function getYtdlPath(): string {
+  return resolveBinary('bin', 'yt-dlp')
+}
+
+/**
+ * PATH for child processes with our bin folder first (mpv finds yt-dlp/ffmpeg there)
+ */
+export function getBinEnv(): NodeJS.ProcessEnv {
+  return {
+    ...process.env,
+    PATH: [join(getResourcesPath(), 'bin'), process.env.PATH].filter(Boolean).join(delimiter)
+  }
+}
+
+// ============================================================================
+// MPV IPC TRANSPORT
+// ============================================================================
+
+/**
+ * Named pipe on Windows, Unix domain socket elsewhere
+ * NAUTIC_MPV_SOCKET overrides it so a test harness can listen on a known path
+ */
+export function getMpvSocketPath(): string {
+  if (process.env.NAUTIC_MPV_SOCKET) return process.env.NAUTIC_MPV_SOCKET
+  return process.platform === 'win32'
+    ? `\\\\.\\pipe\\mpvsocket-${process.pid}`
+    : join(tmpdir(), `nautic-mpvsocket-${process.pid}.sock`)
+}
+
+/**
+ * Remove a stale Unix socket left by a crashed mpv (connecting to it gives ECONNREFUSED)
+ * Named pipes vanish with their process, nothing to do on Windows
+ */
+export function cleanupMpvSocket(socketPath: string): void {
+  if (process.platform === 'win32') return
+  try {
+    if (existsSync(socketPath)) unlinkSync(socketPath)
+  } catch (e) {
+    console.error('[Platform] Failed to remove stale mpv socket:', e)
+  }
+}
+
+// ============================================================================
+// EMBEDDING
+// ============================================================================
+
+export function getEmbedStrategy(): EmbedStrategy {
+  if (process.platform === 'win32') return 'wid'
+  // Electron on X11 (or XWayland) exposes an X window id, native Wayland has nothing mpv can use
+  if (process.platform === 'linux' && process.env.DISPLAY && !process.argv.includes('--ozone-platform=wayland')) return 'wid'
+  return 'window'
+}
+
+/**
+ * mpv arguments that attach it to the host window (or give it its own)
+ */
+export function getEmbedArgs(hostWindow: BrowserWindow): string[] {
+  if (getEmbedStrategy() === 'wid') {
+    // HWND on Windows, XID on X11 - both fit an unsigned 64-bit read
+    const wid = hostWindow.getNativeWindowHandle().readBigUInt64LE(0).toString()
+    return [`--wid=${wid}`, '--no-border', '--force-window=no']
+  }
+  return ['--force-window=yes', '--title=NauticPlayer']
+}
@@ -0,0 +1,189 @@
+/**
+ * Remote Pairing & Sessions
+ * One-time pairing tokens (shown as QR) are exchanged for a per-device session secret
+ */
+
+import { randomBytes, createHash, timingSafeEqual } from 'crypto'
+import { getPreference, savePreference } from './preferences'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface StoredDevice {
+  id: string
+  name: string
+  secretHash: string // sha256 of the secret, the secret itself only lives in the device cookie
+  createdAt: number
+  lastSeen: number
+}
+
+export interface RemoteDevice {
+  id: string
+  name: string
+  createdAt: number
+  lastSeen: number
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEVICES_KEY = 'remoteDevices'
+const PAIRING_TTL_MS = 5 * 60 * 1000
+const LAST_SEEN_SAVE_MS = 60 * 1000 // Don't rewrite preferences on every request
+
+export const SESSION_COOKIE = 'nautic_session'
+export const PARTY_COOKIE = 'nautic_party'
+export const SESSION_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+let pairingToken: { value: string; expires: number } | null = null
+
+// Lets the app's own renderer connect without pairing (never leaves this process tree)
+const hostKey = randomBytes(24).toString('hex')
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB)
+}
+
+function loadDevices(): StoredDevice[] {
+  return getPreference<StoredDevice[]>(DEVICES_KEY, []) || []
+}
+
+function saveDevices(devices: StoredDevice[]): void {
+  savePreference(DEVICES_KEY, devices)
+}
+
+/**
+ * Readable device name from a User-Agent header
+ */
+function describeUserAgent(userAgent: string = ''): string {
+  const os = /iPhone/.test(userAgent) ? 'iPhone'
+    : /iPad/.test(userAgent) ? 'iPad'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'Mac'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Device'
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /(Chrome|CriOS)\//.test(userAgent) ? 'Chrome'
+    : /(Firefox|FxiOS)\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null
+  return browser ? `${os} · ${browser}` : os
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Current pairing token, a new one is issued once the old one is used or expired
+ */
+export function getPairingToken(): { token: string; expires: number } {
+  if (!pairingToken || pairingToken.expires <= Date.now()) {
+    pairingToken = { value: randomBytes(16).toString('hex'), expires: Date.now() + PAIRING_TTL_MS }
+  }
+  return { token: pairingToken.value, expires: pairingToken.expires }
+}
+
+/**
+ * Exchange a pairing token for a device session
+ * Returns the cookie value (<id>.<secret>) or null if the token is wrong or expired
+ */
+export function pairDevice(token: string, userAgent?: string): { device: RemoteDevice; session: string } | null {
+  if (!pairingToken || pairingToken.expires <= Date.now() || !safeEqual(token, pairingToken.value)) {
+    return null
+  }
+  pairingToken = null // One-time use
+
+  const id = randomBytes(8).toString('hex')
+  const secret = randomBytes(32).toString('hex')
+  const now = Date.now()
+  const stored: StoredDevice = { id, name: describeUserAgent(userAgent), secretHash: hash(secret), createdAt: now, lastSeen: now }
+
+  saveDevices([...loadDevices(), stored])
+  console.log('[RemoteAuth] Paired device:', stored.name)
+
+  const { secretHash: _, ...device } = stored
+  return { device, session: `${id}.${secret}` }
+}
+
+/**
+ * Resolve a session cookie value to its device, null if unknown or revoked
+ */
+export function verifySession(session: string | undefined): RemoteDevice | null {
+  if (!session) return null
+  const [id, secret] = session.split('.')
+  if (!id || !secret) return null
+
+  const devices = loadDevices()
+  const stored = devices.find(d => d.id === id)
+  if (!stored || !safeEqual(hash(secret), stored.secretHash)) return null
+
+  const now = Date.now()
+  if (now - stored.lastSeen > LAST_SEEN_SAVE_MS) {
+    stored.lastSeen = now
+    saveDevices(devices)
+  }
+
+  const { secretHash: _, ...device } = stored
+  return device
+}
+
+export function verifyHostKey(key: unknown): boolean {
+  return typeof key === 'string' && safeEqual(key, hostKey)
+}
+
+export function getHostKey(): string {
+  return hostKey
+}
+
+export function listDevices(): RemoteDevice[] {
+  return loadDevices()
+    .map(({ secretHash: _, ...device }) => device)
+    .sort((a, b) => b.lastSeen - a.lastSeen)
+}
+
+/**
+ * Forget a paired device, its cookie stops working immediately
+ */
+export function revokeDevice(id: string): boolean {
+  const devices = loadDevices()
+  const remaining = devices.filter(d => d.id !== id)
+  if (remaining.length === devices.length) return false
+  saveDevices(remaining)
+  return true
+}
+
+/**
+ * Read one cookie from a Cookie header
+ */
+export function readCookie(header: string | undefined, name: string): string | undefined {
+  if (!header) return undefined
+  for (const part of header.split(';')) {
+    const eq = part.indexOf('=')
+    if (eq !== -1 && part.slice(0, eq).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(eq + 1).trim())
+      } catch {
+        return undefined
+      }
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,142 @@
+/**
+ * Screenshots
+ * Capture settings, file naming from a template and the per-file gallery index
+ */
+
+import { app } from 'electron'
+import { existsSync } from 'fs'
+import { join } from 'path'
+import { getPreference, savePreference } from './preferences'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ScreenshotFormat = 'jpg' | 'png' | 'webp'
+
+export interface ScreenshotSettings {
+  folder: string
+  template: string // Tokens: {title} {timestamp} {frame} {date}
+  format: ScreenshotFormat
+  quality: number // 1-100, PNG is lossless and ignores it
+  subtitles: boolean // Burn the visible subtitles into the image
+  burstCount: number
+  burstInterval: number // Seconds between burst shots, 0 = consecutive frames
+}
+
+export interface ScreenshotRecord {
+  path: string
+  source: string // Video path or URL the capture was taken from
+  time: number // Playback position in seconds
+  frame: number | null
+  createdAt: number
+}
+
+export interface TemplateContext {
+  title: string
+  time: number
+  frame: number | null
+  date: Date
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SETTINGS_KEY = 'screenshotSettings'
+const INDEX_KEY = 'screenshotIndex'
+const MAX_RECORDS = 1000
+const MAX_BURST = 50
+
+function defaultSettings(): ScreenshotSettings {
+  return {
+    folder: join(app.getPath('pictures'), 'NauticPlayer'),
+    template: '{title} - {timestamp}',
+    format: 'jpg',
+    quality: 90,
+    subtitles: true,
+    burstCount: 10,
+    burstInterval: 0
+  }
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export function getScreenshotSettings(): ScreenshotSettings {
+  return { ...defaultSettings(), ...getPreference<Partial<ScreenshotSettings>>(SETTINGS_KEY, {}) }
+}
+
+export function saveScreenshotSettings(changes: Partial<ScreenshotSettings>): ScreenshotSettings {
+  const next = { ...getScreenshotSettings(), ...changes }
+
+  // Keep saved values usable whatever the renderer sends
+  if (!['jpg', 'png', 'webp'].includes(next.format)) next.format = 'jpg'
+  next.quality = Math.min(100, Math.max(1, Math.round(Number(next.quality) || 90)))
+  next.burstCount = Math.min(MAX_BURST, Math.max(2, Math.round(Number(next.burstCount) || 10)))
+  next.burstInterval = Math.max(0, Number(next.burstInterval) || 0)
+  if (!next.template.trim()) next.template = defaultSettings().template
+
+  savePreference(SETTINGS_KEY, next)
+  return next
+}
+
+// ============================================================================
+// NAMING
+// ============================================================================
+
+function pad(value: number, length: number = 2): string {
+  return value.toString().padStart(length, '0')
+}
+
+/**
+ * File name (without extension) for a capture, characters Windows rejects are replaced
+ */
+export function expandTemplate(template: string, { title, time, frame, date }: TemplateContext): string {
+  const timestamp = `${pad(Math.floor(time / 3600))}-${pad(Math.floor((time % 3600) / 60))}-${pad(Math.floor(time % 60))}.${pad(Math.floor((time % 1) * 1000), 3)}`
+  const dateStamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`
+
+  const name = template
+    .replace(/\{title\}/g, title)
+    .replace(/\{timestamp\}/g, timestamp)
+    .replace(/\{frame\}/g, frame !== null ? pad(frame, 6) : '')
+    .replace(/\{date\}/g, dateStamp)
+
+  return name.replace(/[<>:"/\\|?*\x00-\x1f]/g, '_').replace(/[. ]+$/, '').trim() || 'screenshot'
+}
+
+/**
+ * `folder/name.ext`, numbered when the name is taken (bursts often land on the same timestamp)
+ */
+export function uniquePath(folder: string, name: string, format: ScreenshotFormat): string {
+  let candidate = join(folder, `${name}.${format}`)
+  for (let i = 2; existsSync(candidate); i++) {
+    candidate = join(folder, `${name} (${i}).${format}`)
+  }
+  return candidate
+}
+
+// ============================================================================
+// GALLERY INDEX
+// ============================================================================
+
+function loadIndex(): ScreenshotRecord[] {
+  return getPreference<ScreenshotRecord[]>(INDEX_KEY, []) || []
+}
+
+export function addScreenshotRecord(record: ScreenshotRecord): void {
+  savePreference(INDEX_KEY, [record, ...loadIndex()].slice(0, MAX_RECORDS))
+}
+
+/**
+ * Captures of one video that still exist on disk, oldest position first
+ * Files deleted outside the app are dropped from the index
+ */
+export function listScreenshots(source: string): ScreenshotRecord[] {
+  const index = loadIndex()
+  const existing = index.filter(r => existsSync(r.path))
+  if (existing.length !== index.length) savePreference(INDEX_KEY, existing)
+
+  return existing.filter(r => r.source === source).sort((a, b) => a.time - b.time || a.createdAt - b.createdAt)
+}
@@ -0,0 +1,231 @@
+/**
+ * Shader Presets
+ * Built-in chains from resources/shaders, user chains over imported .glsl files and JSON import/export
+ */
+
+import { app } from 'electron'
+import { randomUUID } from 'crypto'
+import { existsSync, promises as fsp } from 'fs'
+import { join, basename, extname } from 'path'
+import { getPreference, savePreference } from './preferences'
+import { getResourcesPath } from './platform'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ShaderSource = 'builtin' | 'user'
+
+export interface ShaderRef {
+  file: string // File name inside the built-in or user shader folder
+  source: ShaderSource
+  opts?: Record<string, string> // glsl-shader-opts for this shader's parameters
+}
+
+export interface ShaderPreset {
+  id: string
+  name: string
+  shaders: ShaderRef[]
+  builtIn: boolean
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PRESETS_PREF = 'shaderPresets'
+const EXPORT_VERSION = 1
+
+const builtin = (...files: string[]): ShaderRef[] => files.map(file => ({ file, source: 'builtin' }))
+
+// Ids are what the Video tab and the crash restore send, keep them stable
+const BUILT_IN_PRESETS: ShaderPreset[] = [
+  // === UNIVERSAL PRESETS ===
+  { id: 'denoise', name: '🌐 Denoise', builtIn: true, shaders: builtin('Anime4K_Denoise_Bilateral_Mode.glsl', 'Anime4K_Deblur_DoG.glsl') },
+  { id: 'sharpen', name: '🌐 Sharpen', builtIn: true, shaders: builtin('Anime4K_Darken_HQ.glsl', 'Anime4K_Thin_HQ.glsl', 'Anime4K_Deblur_Original.glsl') },
+  { id: 'enhance', name: '🌐 Enhance', builtIn: true, shaders: builtin('Anime4K_Clamp_Highlights.glsl', 'Anime4K_Darken_HQ.glsl', 'Anime4K_Deblur_DoG.glsl') },
+
+  // === ANIME PRESETS ===
+  {
+    id: 'anime-quality', name: '🎌 Anime Quality', builtIn: true,
+    shaders: builtin(
+      'Anime4K_Clamp_Highlights.glsl',
+      'Anime4K_Restore_CNN_VL.glsl',
+      'Anime4K_Upscale_CNN_x2_VL.glsl',
+      'Anime4K_AutoDownscalePre_x2.glsl',
+      'Anime4K_AutoDownscalePre_x4.glsl',
+      'Anime4K_Upscale_CNN_x2_M.glsl'
+    )
+  },
+  { id: 'anime-fast', name: '🎌 Anime Balanced', builtIn: true, shaders: builtin('Anime4K_Clamp_Highlights.glsl', 'Anime4K_Restore_CNN_M.glsl', 'Anime4K_Upscale_CNN_x2_M.glsl') },
+  { id: 'anime-perf', name: '🎌 Anime Lite', builtIn: true, shaders: builtin('Anime4K_Clamp_Highlights.glsl', 'Anime4K_Restore_CNN_S.glsl', 'Anime4K_Upscale_CNN_x2_S.glsl') },
+
+  // === MOVIE / LIVE-ACTION PRESETS ===
+  { id: 'movie-lite', name: '🎬 Movie Lite', builtIn: true, shaders: builtin('Anime4K_Denoise_Bilateral_Mean.glsl') },
+  { id: 'movie-balanced', name: '🎬 Movie Balanced', builtIn: true, shaders: builtin('Anime4K_Denoise_Bilateral_Mode.glsl', 'Anime4K_Deblur_DoG.glsl', 'Anime4K_Darken_Fast.glsl') },
+  {
+    id: 'movie-quality', name: '🎬 Movie Quality', builtIn: true,
+    shaders: builtin(
+      'Anime4K_Clamp_Highlights.glsl',
+      'Anime4K_Denoise_Bilateral_Mode.glsl',
+      'Anime4K_Deblur_Original.glsl',
+      'Anime4K_Darken_HQ.glsl',
+      'Anime4K_Restore_CNN_M.glsl'
+    )
+  }
+]
+
+// ============================================================================
+// SHADER FILES
+// ============================================================================
+
+export function getBuiltInShaderDir(): string {
+  return join(getResourcesPath(), 'shaders')
+}
+
+/**
+ * Imported shaders are copied here so presets keep working when the originals move
+ */
+export function getUserShaderDir(): string {
+  return join(app.getPath('userData'), 'shaders')
+}
+
+export function resolveShader(ref: ShaderRef): string {
+  return join(ref.source === 'user' ? getUserShaderDir() : getBuiltInShaderDir(), ref.file)
+}
+
+async function listGlsl(dir: string): Promise<string[]> {
+  try {
+    return (await fsp.readdir(dir)).filter(f => extname(f).toLowerCase() === '.glsl').sort()
+  } catch {
+    return []
+  }
+}
+
+export async function listShaders(): Promise<{ builtIn: string[], user: string[] }> {
+  const [builtIn, user] = await Promise.all([listGlsl(getBuiltInShaderDir()), listGlsl(getUserShaderDir())])
+  return { builtIn, user }
+}
+
+/**
+ * Copy .glsl files into the user shader folder, returns the names they were stored under
+ */
+export async function importShaderFiles(paths: string[]): Promise<string[]> {
+  await fsp.mkdir(getUserShaderDir(), { recursive: true })
+  const imported: string[] = []
+  for (const path of paths) {
+    if (extname(path).toLowerCase() !== '.glsl') continue
+    // mpv user shaders are plain text made of //!HOOK (or //!TEXTURE, //!BUFFER...) blocks
+    const content = await fsp.readFile(path, 'utf-8')
+    if (!content.includes('//!')) throw new Error(`${basename(path)} is not an mpv user shader`)
+    await fsp.writeFile(join(getUserShaderDir(), basename(path)), content)
+    imported.push(basename(path))
+  }
+  return imported
+}
+
+/**
+ * Shaders of a chain that aren't on disk (deleted user files, incomplete installs)
+ */
+export function findMissingShaders(preset: ShaderPreset): string[] {
+  return preset.shaders.filter(ref => !existsSync(resolveShader(ref))).map(ref => ref.file)
+}
+
+/**
+ * All options of a chain as one glsl-shader-opts list (mpv matches them by parameter name)
+ */
+export function formatShaderOpts(preset: ShaderPreset): string {
+  return preset.shaders
+    .flatMap(ref => Object.entries(ref.opts || {}))
+    .map(([key, value]) => `${key}=${value}`)
+    .join(',')
+}
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
+function sanitizeShaders(shaders: any): ShaderRef[] {
+  if (!Array.isArray(shaders)) return []
+  return shaders
+    .filter(s => s && typeof s.file === 'string' && s.file)
+    .map(s => {
+      const ref: ShaderRef = { file: basename(s.file), source: s.source === 'user' ? 'user' : 'builtin' }
+      const opts = Object.entries(s.opts || {}).filter(([k, v]) => /^\w+$/.test(k) && /^[^,=]+$/.test(String(v)))
+      if (opts.length > 0) ref.opts = Object.fromEntries(opts.map(([k, v]) => [k, String(v)]))
+      return ref
+    })
+}
+
+function getUserPresets(): ShaderPreset[] {
+  return (getPreference<ShaderPreset[]>(PRESETS_PREF, []) || []).map(p => ({ ...p, builtIn: false }))
+}
+
+export function getShaderPresets(): ShaderPreset[] {
+  return [...BUILT_IN_PRESETS, ...getUserPresets()]
+}
+
+export function getShaderPreset(id: string): ShaderPreset | undefined {
+  return getShaderPresets().find(p => p.id === id)
+}
+
+/**
+ * Create (no id) or update a user preset
+ */
+export function saveShaderPreset(preset: { id?: string, name: string, shaders: ShaderRef[] }): ShaderPreset {
+  const name = preset.name.trim()
+  if (!name) throw new Error('Give the preset a name')
+  const shaders = sanitizeShaders(preset.shaders)
+  if (shaders.length === 0) throw new Error('Add at least one shader')
+  if (preset.id && BUILT_IN_PRESETS.some(p => p.id === preset.id)) throw new Error('Built-in presets can\'t be changed')
+
+  const saved: ShaderPreset = { id: preset.id || randomUUID(), name, shaders, builtIn: false }
+  const others = getUserPresets().filter(p => p.id !== saved.id)
+  savePreference(PRESETS_PREF, [...others, saved])
+  return saved
+}
+
+export function deleteShaderPreset(id: string): void {
+  savePreference(PRESETS_PREF, getUserPresets().filter(p => p.id !== id))
+}
+
+// ============================================================================
+// IMPORT / EXPORT
+// ============================================================================
+
+export function exportShaderPresets(ids?: string[]): string {
+  const presets = getUserPresets()
+    .filter(p => !ids || ids.includes(p.id))
+    .map(({ name, shaders }) => ({ name, shaders }))
+  return JSON.stringify({ version: EXPORT_VERSION, presets }, null, 2)
+}
+
+/**
+ * Add the presets from an export, a preset with the same name is replaced
+ * Returns the imported presets, shader files they need must be imported separately
+ */
+export function importShaderPresets(json: string): ShaderPreset[] {
+  let data: any
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('Not a shader preset file')
+  }
+  const list = Array.isArray(data?.presets) ? data.presets : []
+  if (list.length === 0) throw new Error('No presets in this file')
+
+  const existing = getUserPresets()
+  const imported = new Map<string, ShaderPreset>() // By name, the last one wins
+  for (const item of list) {
+    if (typeof item?.name !== 'string' || !item.name.trim()) continue
+    const name = item.name.trim()
+    const shaders = sanitizeShaders(item.shaders)
+    if (shaders.length === 0) continue
+    const id = existing.find(p => p.name === name)?.id || imported.get(name)?.id || randomUUID()
+    imported.set(name, { id, name, shaders, builtIn: false })
+  }
+
+  const importedIds = new Set([...imported.values()].map(p => p.id))
+  savePreference(PRESETS_PREF, [...existing.filter(p => !importedIds.has(p.id)), ...imported.values()])
+  return [...imported.values()]
+}
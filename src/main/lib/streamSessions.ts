@@ -0,0 +1,162 @@
+/**
+ * Stream Sessions
+ * HLS sessions of the remote clients, one per file, strategy and rendition choice, each in its own directory
+ * Clients asking for the same stream share it, a session is closed once all of its viewers have gone quiet
+ * Viewers opened for a connected socket stay while it does (a paused player fetches nothing for a long time)
+ */
+
+import { app } from 'electron'
+import { randomBytes } from 'crypto'
+import { rmSync } from 'fs'
+import { join } from 'path'
+import type { HlsSession } from './hlsSession'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface StreamSession {
+  id: string
+  key: string // What clients share it by
+  path: string // The file being streamed
+  ready: Promise<HlsSession>
+  viewers: Map<string, Viewer> // By viewer id
+}
+
+interface Viewer {
+  seen: number // Date.now() of its last request
+  socket: string | null // Socket.io id keeping it alive while connected
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Viewers without a socket that haven't fetched anything for this long have left (players buffer ~30s ahead at most)
+const VIEWER_IDLE_MS = 90000
+const SWEEP_MS = 15000
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const sessions = new Map<string, StreamSession>() // By id
+let sweepTimer: NodeJS.Timeout | null = null
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+/**
+ * Where every session writes, below userData so leftovers can be found again
+ */
+export function getStreamRoot(): string {
+  return join(app.getPath('userData'), 'hls-stream')
+}
+
+/**
+ * Join the session for `key` as a new viewer, starting the session with `create` when there is none
+ * `socket`: connected socket of the client, the viewer is kept until releaseStreamViewers is called for it
+ */
+export function openStreamSession(
+  key: string,
+  path: string,
+  create: (dir: string) => Promise<HlsSession>,
+  socket: string | null = null
+): { session: StreamSession, viewer: string } {
+  let session = [...sessions.values()].find(s => s.key === key)
+
+  if (!session) {
+    const id = randomBytes(6).toString('hex')
+    const created: StreamSession = { id, key, path, ready: create(join(getStreamRoot(), id)), viewers: new Map() }
+    sessions.set(id, created)
+    // A failed start (e.g. duration not known yet) is retried by the next request
+    created.ready.catch(() => sessions.delete(id))
+    session = created
+  }
+
+  // A client watches one stream at a time, what it opened before may time out now
+  if (socket) releaseStreamViewers(socket)
+
+  const viewer = randomBytes(4).toString('hex')
+  session.viewers.set(viewer, { seen: Date.now(), socket })
+  startSweep()
+  return { session, viewer }
+}
+
+/**
+ * Session a request belongs to, marks its viewer as still watching
+ */
+export function getStreamSession(id: string, viewer: string): StreamSession | null {
+  const session = sessions.get(id)
+  const entry = session?.viewers.get(viewer)
+  if (!session || !entry) return null
+  entry.seen = Date.now()
+  return session
+}
+
+/**
+ * A client's socket disconnected, its viewers time out like any other from now on
+ */
+export function releaseStreamViewers(socket: string): void {
+  sessions.forEach(session => {
+    session.viewers.forEach(viewer => {
+      if (viewer.socket !== socket) return
+      viewer.socket = null
+      viewer.seen = Date.now()
+    })
+  })
+}
+
+/**
+ * Close the sessions `filter` picks (all of them without one)
+ */
+export function closeStreamSessions(filter?: (session: StreamSession) => boolean): void {
+  sessions.forEach(session => {
+    if (!filter || filter(session)) closeSession(session)
+  })
+}
+
+/**
+ * Remove everything below the stream root, left behind by a crash or a session still closing at quit
+ */
+export function clearStreamRoot(): void {
+  try {
+    rmSync(getStreamRoot(), { recursive: true, force: true, maxRetries: 3 })
+  } catch (e: any) {
+    console.warn('[HLS] Could not clear stream output:', e.code)
+  }
+}
+
+function closeSession(session: StreamSession): void {
+  sessions.delete(session.id)
+  session.ready.then(hls => hls.destroy(), () => {})
+  if (sessions.size === 0) stopSweep()
+}
+
+// ============================================================================
+// IDLE SWEEP
+// ============================================================================
+
+function startSweep(): void {
+  if (sweepTimer) return
+  sweepTimer = setInterval(() => {
+    const now = Date.now()
+    sessions.forEach(session => {
+      session.viewers.forEach((viewer, id) => {
+        if (!viewer.socket && now - viewer.seen > VIEWER_IDLE_MS) session.viewers.delete(id)
+      })
+      if (session.viewers.size === 0) {
+        console.log('[HLS] Closing idle stream session', session.id)
+        closeSession(session)
+      }
+    })
+  }, SWEEP_MS)
+}
+
+function stopSweep(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer)
+    sweepTimer = null
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Stream Strategy
+ * Decides from the probed codecs how a file reaches a browser: as is, remuxed, with new audio or fully transcoded
+ */
+
+import { extname } from 'path'
+import type { MediaProbe } from './ffmpeg'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// direct:    the file itself over /stream (range requests)
+// remux:     both streams copied into fragmented MP4 HLS
+// audio:     video copied, audio re-encoded to AAC
+// transcode: the adaptive H.264 ladder
+export type StreamStrategy = 'direct' | 'remux' | 'audio' | 'transcode'
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Containers browsers open in a <video> element
+const DIRECT_EXTENSIONS = ['.mp4', '.webm', '.ogg', '.mov', '.m4v']
+
+// What every browser we care about decodes (mobile Safari included), 10-bit H.264 is not among it
+const BROWSER_VIDEO_CODECS = ['h264']
+const BROWSER_AUDIO_CODECS = ['aac', 'mp3']
+const BROWSER_PIXEL_FORMATS = ['yuv420p', 'yuvj420p']
+
+// WebM is only played as is, VP9 and Opus inside HLS are too patchy across browsers
+const WEBM_VIDEO_CODECS = ['vp8', 'vp9', 'av1']
+const WEBM_AUDIO_CODECS = ['vorbis', 'opus']
+
+// ============================================================================
+// STRATEGY
+// ============================================================================
+
+/**
+ * Pick the cheapest way to stream a file, without a probe only the extension is known
+ * `audioCodec` is set when another audio track than the file's first is sent, browsers only play the first from the file itself
+ */
+export function chooseStreamStrategy(path: string, probe: MediaProbe | null, audioCodec: string | null = null): StreamStrategy {
+  const ext = extname(path).toLowerCase()
+  const direct = !audioCodec && DIRECT_EXTENSIONS.includes(ext)
+  // Nothing to go on (ffprobe missing, audio-only file), the extension decides as before
+  if (!probe || !probe.video) return direct ? 'direct' : 'transcode'
+
+  const videoOk = BROWSER_VIDEO_CODECS.includes(probe.video.codec) && BROWSER_PIXEL_FORMATS.includes(probe.video.pixFmt || '')
+  const audioOk = audioCodec ? BROWSER_AUDIO_CODECS.includes(audioCodec) : !probe.audio || BROWSER_AUDIO_CODECS.includes(probe.audio.codec)
+
+  if (direct) {
+    if (videoOk && audioOk) return 'direct'
+    const webm = WEBM_VIDEO_CODECS.includes(probe.video.codec) && (!probe.audio || WEBM_AUDIO_CODECS.includes(probe.audio.codec))
+    if (ext === '.webm' && webm) return 'direct'
+  }
+
+  if (videoOk) return audioOk ? 'remux' : 'audio'
+  return 'transcode'
+}
@@ -0,0 +1,55 @@
+'use strict';
+import { fetchJson, MovieList, SubtitleList, type SubtitleInfo } from './subdl-utils';
+import type { SubtitleProvider } from './subtitleProviders';
+
+const DOMAIN = 'subdivx.com';
+const SITE = 'https://www.' + DOMAIN;
+
+interface SubdivxRow {
+  id: number;
+  titulo: string;
+}
+
+export class SubdivxSubtitleLink extends SubtitleList {
+  // Subdivx serves zip or rar archives, rar falls back to plaintext and fails loudly
+  isZip(): boolean { return true; }
+  constructor(page: MovieList, _link: string, info: SubtitleInfo) {
+    super(page, _link, info);
+  }
+
+  async downloadLink(): Promise<string> {
+    return this._link;
+  }
+}
+
+// The search endpoint requires a short lived token issued by the site
+async function fetchToken(): Promise<string> {
+  const { json } = await fetchJson(`${SITE}/inc/gt.php?gt=1`);
+  if (!json?.token) throw new Error('Subdivx did not return a search token');
+  return json.token;
+}
+
+export default async function fetchSubdivx(query: string): Promise<SubdivxSubtitleLink[]> {
+  const token = await fetchToken();
+  const { json } = await fetchJson(`${SITE}/inc/ajax.php`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8' },
+    body: new URLSearchParams({ tabla: 'resultados', filtros: '', buscar: query, token }).toString(),
+  });
+
+  const rows: SubdivxRow[] = Array.isArray(json?.aaData) ? json.aaData : [];
+  const page = new MovieList(query, `${SITE}/`, {});
+  return rows.map(row => new SubdivxSubtitleLink(page, `${SITE}/descargar.php?id=${row.id}`, {
+    filename: row.titulo,
+    language: 'es',
+  }));
+}
+
+export const subdivxProvider: SubtitleProvider = {
+  id: 'subdivx',
+  name: 'Subdivx',
+  async search({ query }) {
+    const links = await fetchSubdivx(query);
+    return links.map(subtitle => ({ provider: 'subdivx', subtitle, language: 'es' as const }));
+  },
+};
@@ -1,5 +1,6 @@
 'use strict';
-import { fetchHtml, type SubtitleOptions, type SubtitleInfo, MovieList, SubtitleList } from './subdl-utils';
+import { fetchHtml, toLanguageId, type SubtitleOptions, type SubtitleInfo, MovieList, SubtitleList } from './subdl-utils';
+import type { SubtitleProvider } from './subtitleProviders';
 
 const DOMAIN = 'subdl.com';
 const SITE = 'https://' + DOMAIN;
@@ -49,9 +50,26 @@ interface SubdlSuggestion {
 }
 
 export default async function fetchSubdlCom(query: string, options: SubtitleOptions = {}): Promise<SubdlMovieLink[]> {
-  const response = await fetch(`https://api.${DOMAIN}/auto?query=${query}`);
+  const response = await fetch(`https://api.${DOMAIN}/auto?query=${encodeURIComponent(query)}`);
   if (!response.ok) throw new Error(`HTTP Error! status: ${response.status}\nBody: ${await response.text()}`);
 
   const json = await response.json() as {results: SubdlSuggestion[]};
   return Array.from(json.results).map(e => new SubdlMovieLink(e.name, e.link, options));
 }
+
+// Only scrape the best matching movie page (each page may pop up a CAPTCHA window)
+const MAX_MOVIE_PAGES = 1;
+
+export const subdlProvider: SubtitleProvider = {
+  id: 'subdl',
+  name: 'SubDL',
+  async search({ query }) {
+    const movies = await fetchSubdlCom(query);
+    const pages = await Promise.all(movies.slice(0, MAX_MOVIE_PAGES).map(movie => movie.toSubtitleLinks()));
+    return pages.flat().map(subtitle => ({
+      provider: 'subdl',
+      subtitle,
+      language: toLanguageId(subtitle.info.language),
+    }));
+  },
+};
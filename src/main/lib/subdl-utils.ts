@@ -5,6 +5,7 @@ process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
 import { parse, type HTMLElement } from "node-html-parser";
 import JSZip from 'jszip';
 import { search, sortKind, type FullOptions } from 'fast-fuzzy';
+import { decodeSubtitleBuffer } from './subtitleFormat';
 
 export interface SubtitleInfo {
   filename?: string;
@@ -45,7 +46,7 @@ export class SubtitleList {
     const allFiles = Object.values(zip.files).filter(v => !v.dir);
     let strFiles = allFiles.filter(v => v.name.endsWith('.srt'));
     if (strFiles.length === 0) strFiles = allFiles;
-    if (strFiles.length === 1) return [new DownloadedFileSubtitles(await strFiles[0].async('text'), strFiles[0].name)];
+    if (strFiles.length === 1) return [new DownloadedFileSubtitles(decodeSubtitleBuffer(await strFiles[0].async('nodebuffer')), strFiles[0].name)];
 
     const retval = search(this.info.filename!, strFiles, {
       ignoreCase: true,
@@ -54,7 +55,7 @@ export class SubtitleList {
       sortBy: sortKind.bestMatch,
       keySelector(item: JSZip.JSZipObject) {return item.name;},
       threshold: 0,
-    }).map(async(v) => new DownloadedFileSubtitles(await v.async('text'), v.name));
+    }).map(async(v) => new DownloadedFileSubtitles(decodeSubtitleBuffer(await v.async('nodebuffer')), v.name));
     return Promise.all(retval);
   }
 
@@ -91,7 +92,7 @@ export class SubtitleList {
         }
       }
     } else {
-      subtitles = await response.text();
+      subtitles = decodeSubtitleBuffer(Buffer.from(await response.arrayBuffer()));
     }
 
     return new DownloadedFile([new DownloadedFileSubtitles(subtitles, this.info.filename)], this);
@@ -216,6 +217,76 @@ export const LanguageNameMap: Record<LanguageID, string> = {
   'zh-tw': 'Traditional Chinese',
 }
 
+// ISO 639-2 (three letter) codes, used by OpenSubtitles and by mpv track languages
+export const LanguageISO6392Map: Record<LanguageID, string> = {
+  'an': 'arg',
+  'ar': 'ara',
+  'at': 'ast',
+  'bg': 'bul',
+  'br': 'bre',
+  'ca': 'cat',
+  'cs': 'cze',
+  'da': 'dan',
+  'de': 'ger',
+  'el': 'ell',
+  'en': 'eng',
+  'eo': 'epo',
+  'es': 'spa',
+  'et': 'est',
+  'eu': 'baq',
+  'fa': 'per',
+  'fi': 'fin',
+  'fr': 'fre',
+  'gl': 'glg',
+  'he': 'heb',
+  'hi': 'hin',
+  'hr': 'hrv',
+  'hu': 'hun',
+  'hy': 'arm',
+  'id': 'ind',
+  'is': 'ice',
+  'it': 'ita',
+  'ja': 'jpn',
+  'ka': 'geo',
+  'km': 'khm',
+  'ko': 'kor',
+  'mk': 'mac',
+  'ms': 'may',
+  'nl': 'dut',
+  'no': 'nor',
+  'oc': 'oci',
+  'pt-br': 'pob',
+  'pl': 'pol',
+  'pt': 'por',
+  'ro': 'rum',
+  'ru': 'rus',
+  'si': 'sin',
+  'sk': 'slo',
+  'sl': 'slv',
+  'sq': 'alb',
+  'sr': 'scc',
+  'sv': 'swe',
+  'th': 'tha',
+  'tl': 'tgl',
+  'tr': 'tur',
+  'tt': 'tat',
+  'uk': 'ukr',
+  'uz': 'uzb',
+  'vi': 'vie',
+  'zh': 'chi',
+  'zh-tw': 'zht',
+}
+
+// Resolves a two letter code, three letter code or language name ("English") to a LanguageID
+export function toLanguageId(value?: string): LanguageID | undefined {
+  if (!value) return undefined;
+  const needle = value.trim().toLowerCase();
+  const ids = Object.keys(LanguageNameMap) as LanguageID[];
+  return ids.find(id => id === needle)
+    ?? ids.find(id => LanguageISO6392Map[id] === needle)
+    ?? ids.find(id => LanguageNameMap[id].toLowerCase() === needle);
+}
+
 interface FetchResponse {
   bodyUsed: true,
   headers: Headers;
@@ -0,0 +1,396 @@
+/**
+ * Subtitle Format Model
+ * Parses SRT, WebVTT and ASS into a common cue list, serializes back to any of them
+ * and detects the text encoding of subtitle files
+ */
+
+import type { LanguageID } from './subdl-utils'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass'
+
+export interface SubtitleCue {
+  start: number // Seconds
+  end: number   // Seconds
+  text: string  // Plain lines separated by \n (ASS override tags are kept)
+  assFields?: string[] // ASS only: the Dialogue fields, Start/End/Text are rewritten on save
+  assBefore?: string[] // ASS only: Comment (and other non-Dialogue) event lines right before this cue, kept as they are
+}
+
+export interface SubtitleDocument {
+  format: SubtitleFormat
+  cues: SubtitleCue[]
+  assHeader?: string   // ASS only: everything up to and including the [Events] Format line
+  assFormat?: string[] // ASS only: column names from the Format line
+  assEventsTail?: string[] // ASS only: event lines after the last cue
+  assFooter?: string   // ASS only: sections after [Events] ([Fonts], [Graphics], [Aegisub Extradata]...)
+}
+
+// ============================================================================
+// TIME HELPERS
+// ============================================================================
+
+function pad(value: number, length: number = 2): string {
+  return Math.floor(value).toString().padStart(length, '0')
+}
+
+// 01:02:03,456
+function formatSrtTime(seconds: number): string {
+  const ms = Math.max(0, Math.round(seconds * 1000))
+  return `${pad(ms / 3600000)}:${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)},${pad(ms % 1000, 3)}`
+}
+
+// 01:02:03.456
+function formatVttTime(seconds: number): string {
+  return formatSrtTime(seconds).replace(',', '.')
+}
+
+// 1:02:03.45
+function formatAssTime(seconds: number): string {
+  const cs = Math.max(0, Math.round(seconds * 100))
+  return `${Math.floor(cs / 360000)}:${pad((cs / 6000) % 60)}:${pad((cs / 100) % 60)}.${pad(cs % 100)}`
+}
+
+// Accepts "01:02:03,456", "01:02:03.456", "1:02:03.45" and "02:03.456"
+export function parseTimestamp(value: string): number {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/)
+  if (!match) return NaN
+  const [, h, m, s, frac] = match
+  return (Number(h || 0) * 3600) + (Number(m) * 60) + Number(s) + Number(frac.padEnd(3, '0')) / 1000
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+export function detectFormat(text: string, filename?: string): SubtitleFormat {
+  const ext = filename?.split('.').pop()?.toLowerCase()
+  if (ext === 'ass' || ext === 'ssa') return 'ass'
+  if (ext === 'vtt') return 'vtt'
+  if (/^\s*\[Script Info\]/i.test(text)) return 'ass'
+  if (/^\s*WEBVTT/.test(text)) return 'vtt'
+  return 'srt'
+}
+
+// ============================================================================
+// SRT
+// ============================================================================
+
+const SRT_TIMING = /^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)/
+
+function parseSrt(text: string): SubtitleDocument {
+  const cues: SubtitleCue[] = []
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n{2,}/)
+
+  blocks.forEach(block => {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex(l => SRT_TIMING.test(l))
+    if (timingIndex === -1) return
+
+    const [, start, end] = lines[timingIndex].match(SRT_TIMING)!
+    const cue = { start: parseTimestamp(start), end: parseTimestamp(end), text: lines.slice(timingIndex + 1).join('\n').trim() }
+    if (!isNaN(cue.start) && !isNaN(cue.end)) cues.push(cue)
+  })
+
+  return { format: 'srt', cues }
+}
+
+function serializeSrt(doc: SubtitleDocument): string {
+  return doc.cues
+    .map((cue, i) => `${i + 1}\n${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}\n${cue.text}\n`)
+    .join('\n')
+}
+
+// ============================================================================
+// WEBVTT
+// NOTE, STYLE and REGION blocks are skipped, cue settings are dropped
+// ============================================================================
+
+function parseVtt(text: string): SubtitleDocument {
+  const cues: SubtitleCue[] = []
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n{2,}/)
+
+  blocks.forEach(block => {
+    const lines = block.split('\n')
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) return
+
+    // Optional cue identifier line before the timing
+    const timingIndex = lines.findIndex(l => SRT_TIMING.test(l))
+    if (timingIndex === -1 || timingIndex > 1) return
+
+    const [, start, end] = lines[timingIndex].match(SRT_TIMING)!
+    const cue = { start: parseTimestamp(start), end: parseTimestamp(end), text: lines.slice(timingIndex + 1).join('\n').trim() }
+    if (!isNaN(cue.start) && !isNaN(cue.end)) cues.push(cue)
+  })
+
+  return { format: 'vtt', cues }
+}
+
+function serializeVtt(doc: SubtitleDocument): string {
+  const cues = doc.cues.map(cue => `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}\n${cue.text}\n`)
+  return `WEBVTT\n\n${cues.join('\n')}`
+}
+
+// ============================================================================
+// ASS / SSA
+// Dialogue events become cues; Comment and other events, and sections after [Events], are written back in place
+// ============================================================================
+
+const DEFAULT_ASS_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text']
+
+// Used when converting from a format without styling
+const DEFAULT_ASS_HEADER = [
+  '[Script Info]',
+  'ScriptType: v4.00+',
+  'PlayResX: 1920',
+  'PlayResY: 1080',
+  '',
+  '[V4+ Styles]',
+  'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+  'Style: Default,Arial,64,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,60,60,50,1',
+  '',
+  '[Events]',
+  `Format: ${DEFAULT_ASS_FORMAT.join(', ')}`
+].join('\n')
+
+function parseAss(text: string): SubtitleDocument {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const cues: SubtitleCue[] = []
+  const header: string[] = []
+  const footer: string[] = []
+  let pending: string[] = [] // Event lines waiting for the next cue
+  let format = DEFAULT_ASS_FORMAT
+  let section: 'header' | 'events' | 'footer' = 'header'
+
+  lines.forEach(line => {
+    const trimmed = line.trim()
+    if (/^\[.*\]$/.test(trimmed)) {
+      if (trimmed.toLowerCase() === '[events]') section = 'events'
+      else if (section === 'events') section = 'footer'
+    }
+    const inEvents = section === 'events'
+
+    if (section === 'footer') {
+      footer.push(line)
+      return
+    }
+
+    if (inEvents && /^Format:/i.test(trimmed)) {
+      format = trimmed.slice(7).split(',').map(f => f.trim())
+      header.push(line)
+      return
+    }
+
+    if (inEvents && /^Dialogue:/i.test(trimmed)) {
+      // Text is the last column and may itself contain commas
+      const raw = trimmed.slice(9).trim()
+      const fields: string[] = []
+      let rest = raw
+      for (let i = 0; i < format.length - 1; i++) {
+        const comma = rest.indexOf(',')
+        fields.push(comma === -1 ? rest : rest.slice(0, comma))
+        rest = comma === -1 ? '' : rest.slice(comma + 1)
+      }
+      fields.push(rest)
+
+      const get = (name: string): string => fields[format.indexOf(name)] || ''
+      cues.push({
+        start: parseTimestamp(get('Start')),
+        end: parseTimestamp(get('End')),
+        text: get('Text').replace(/\\N/g, '\n'),
+        assFields: fields,
+        ...(pending.length > 0 ? { assBefore: pending } : {})
+      })
+      pending = []
+      return
+    }
+
+    // Comment, Picture, Sound... lines stay in their place between the cues
+    if (inEvents && /^[A-Za-z]+:/.test(trimmed)) {
+      pending.push(line)
+      return
+    }
+    if (inEvents && !trimmed) return
+    header.push(line)
+  })
+
+  // Lines of unreadable cues move on to the next good one
+  const kept: SubtitleCue[] = []
+  let carried: string[] = []
+  cues.forEach(cue => {
+    const before = [...carried, ...(cue.assBefore || [])]
+    if (isNaN(cue.start) || isNaN(cue.end)) {
+      carried = before
+      return
+    }
+    carried = []
+    if (before.length > 0) cue.assBefore = before
+    kept.push(cue)
+  })
+  const tail = [...carried, ...pending]
+
+  return {
+    format: 'ass',
+    cues: kept,
+    assHeader: header.join('\n').trimEnd(),
+    assFormat: format,
+    ...(tail.length > 0 ? { assEventsTail: tail } : {}),
+    ...(footer.length > 0 ? { assFooter: footer.join('\n').trim() } : {})
+  }
+}
+
+function serializeAss(doc: SubtitleDocument): string {
+  const format = doc.assFormat || DEFAULT_ASS_FORMAT
+  const header = doc.assHeader || DEFAULT_ASS_HEADER
+
+  const events = doc.cues.flatMap(cue => {
+    const fields = cue.assFields ? [...cue.assFields] : format.map(f => f === 'Layer' ? '0' : f === 'Style' ? 'Default' : f.startsWith('Margin') ? '0' : '')
+    fields[format.indexOf('Start')] = formatAssTime(cue.start)
+    fields[format.indexOf('End')] = formatAssTime(cue.end)
+    fields[format.indexOf('Text')] = cue.text.replace(/\n/g, '\\N')
+    return [...(cue.assBefore || []), `Dialogue: ${fields.join(',')}`]
+  })
+  events.push(...(doc.assEventsTail || []))
+
+  // [Events] stays where it was: header sections before it, attachments and extradata after
+  const footer = doc.assFooter ? `\n${doc.assFooter}\n` : ''
+  return `${header}\n${events.join('\n')}\n${footer}`
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function parseSubtitle(text: string, format?: SubtitleFormat): SubtitleDocument {
+  // Strip the BOM so the first cue/section is recognized
+  const clean = text.replace(/^\uFEFF/, '')
+  switch (format || detectFormat(clean)) {
+    case 'ass': return parseAss(clean)
+    case 'vtt': return parseVtt(clean)
+    default: return parseSrt(clean)
+  }
+}
+
+export function serializeSubtitle(doc: SubtitleDocument): string {
+  switch (doc.format) {
+    case 'ass': return serializeAss(doc)
+    case 'vtt': return serializeVtt(doc)
+    default: return serializeSrt(doc)
+  }
+}
+
+/**
+ * Change the output format of a document
+ * ASS override tags ({\i1} etc.) are stripped when leaving ASS
+ */
+export function convertSubtitle(doc: SubtitleDocument, format: SubtitleFormat): SubtitleDocument {
+  if (doc.format === format) return doc
+
+  const cues = doc.cues.map(({ start, end, text }) => ({
+    start,
+    end,
+    text: doc.format === 'ass' ? text.replace(/\{[^}]*\}/g, '').replace(/\\h/g, ' ').trim() : text
+  }))
+
+  // Styling of the source is lost, ASS output gets a default header
+  return { format, cues: cues.filter(c => c.text) }
+}
+
+/**
+ * Convert any supported subtitle text to WebVTT (for browser clients)
+ */
+export function toWebVtt(text: string, filename?: string): string {
+  const clean = text.replace(/^\uFEFF/, '')
+  return serializeSubtitle(convertSubtitle(parseSubtitle(clean, detectFormat(clean, filename)), 'vtt'))
+}
+
+/**
+ * Retime every cue: t' = t * scale + offset
+ */
+export function retimeCues(doc: SubtitleDocument, offset: number, scale: number = 1): SubtitleDocument {
+  return {
+    ...doc,
+    cues: doc.cues.map(cue => ({
+      ...cue,
+      start: Math.max(0, cue.start * scale + offset),
+      end: Math.max(0, cue.end * scale + offset)
+    }))
+  }
+}
+
+// ============================================================================
+// ENCODING DETECTION
+// ============================================================================
+
+// Legacy single-byte code page most subtitles in a language were written in
+const LEGACY_ENCODINGS: Partial<Record<LanguageID, string>> = {
+  ru: 'windows-1251', uk: 'windows-1251', bg: 'windows-1251', mk: 'windows-1251', sr: 'windows-1251',
+  pl: 'windows-1250', cs: 'windows-1250', sk: 'windows-1250', hu: 'windows-1250', ro: 'windows-1250', hr: 'windows-1250', sl: 'windows-1250',
+  el: 'windows-1253',
+  tr: 'windows-1254',
+  he: 'windows-1255',
+  ar: 'windows-1256', fa: 'windows-1256',
+  et: 'windows-1257',
+  vi: 'windows-1258',
+  th: 'windows-874'
+}
+
+export const SUBTITLE_ENCODINGS = [
+  'utf-8', 'utf-16le', 'utf-16be',
+  'windows-1252', 'windows-1250', 'windows-1251', 'windows-1253', 'windows-1254',
+  'windows-1255', 'windows-1256', 'windows-1257', 'windows-1258', 'windows-874'
+]
+
+/**
+ * Guess the encoding of a subtitle file
+ * BOMs win, then UTF-16 without BOM (NUL byte pattern), then strict UTF-8,
+ * then a legacy code page picked from the language hint or the share of non-ASCII letters
+ */
+export function detectEncoding(buffer: Buffer, language?: LanguageID): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 'utf-8'
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return 'utf-16le'
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return 'utf-16be'
+
+  // ASCII text in UTF-16 has a NUL in every other byte
+  const sample = buffer.subarray(0, 4096)
+  let evenNuls = 0
+  let oddNuls = 0
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) i % 2 === 0 ? evenNuls++ : oddNuls++
+  }
+  if (oddNuls > sample.length / 4 && evenNuls < oddNuls / 10) return 'utf-16le'
+  if (evenNuls > sample.length / 4 && oddNuls < evenNuls / 10) return 'utf-16be'
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+    return 'utf-8'
+  } catch {
+    // Not UTF-8, fall through to legacy code pages
+  }
+
+  if (language && LEGACY_ENCODINGS[language]) return LEGACY_ENCODINGS[language]!
+
+  // Latin text only has the odd accented letter, Cyrillic text is mostly high bytes
+  let high = 0
+  let ascii = 0
+  for (let i = 0; i < buffer.length; i++) {
+    const byte = buffer[i]
+    if (byte >= 0xc0) high++
+    else if ((byte >= 0x41 && byte <= 0x5a) || (byte >= 0x61 && byte <= 0x7a)) ascii++
+  }
+  return high / ((high + ascii) || 1) > 0.4 ? 'windows-1251' : 'windows-1252'
+}
+
+/**
+ * Decode a subtitle file to a string (BOM removed)
+ */
+export function decodeSubtitleBuffer(buffer: Buffer, encoding: string = detectEncoding(buffer)): string {
+  try {
+    return new TextDecoder(encoding).decode(buffer).replace(/^\uFEFF/, '')
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer)
+  }
+}
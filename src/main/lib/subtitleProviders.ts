@@ -0,0 +1,141 @@
+/**
+ * Subtitle Provider Registry
+ * Queries every enabled subtitle backend in parallel and merges the results
+ */
+
+import { search, fuzzy, sortKind } from 'fast-fuzzy'
+import type { LanguageID, SubtitleList } from './subdl-utils'
+import { getPreference, savePreference } from './preferences'
+import { logger } from './logger'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SubtitleQuery {
+  query: string
+  languages?: LanguageID[]
+  filePath?: string // Local video being played (used by the folder provider)
+  hash?: string     // OpenSubtitles movie hash of filePath, asks providers for exact release matches
+  fileSize?: number
+}
+
+export interface SubtitleMatch {
+  provider: string
+  subtitle: SubtitleList
+  language?: LanguageID
+  exact?: boolean // Made for this exact release (hash or filename match)
+}
+
+export interface SubtitleProvider {
+  id: string
+  name: string
+  exactMatches?: boolean // Can return exact release matches (movie hash, filename next to the video)
+  search(query: SubtitleQuery): Promise<SubtitleMatch[]>
+}
+
+export interface SubtitleProviderInfo {
+  id: string
+  name: string
+  enabled: boolean
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DISABLED_PREF = 'disabledSubtitleProviders'
+
+// Two results with the same language and a filename this similar are the same subtitle
+const DUPLICATE_SCORE = 0.97
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+// Registration order is priority order (breaks ranking ties between providers)
+const providers: SubtitleProvider[] = []
+
+export function registerProvider(provider: SubtitleProvider): void {
+  if (providers.some(p => p.id === provider.id)) return
+  providers.push(provider)
+}
+
+export function getProviders(): SubtitleProviderInfo[] {
+  const disabled = getPreference<string[]>(DISABLED_PREF, []) || []
+  return providers.map(p => ({ id: p.id, name: p.name, enabled: !disabled.includes(p.id) }))
+}
+
+export function setProviderEnabled(id: string, enabled: boolean): void {
+  const disabled = new Set(getPreference<string[]>(DISABLED_PREF, []) || [])
+  if (enabled) disabled.delete(id)
+  else disabled.add(id)
+  savePreference(DISABLED_PREF, [...disabled])
+}
+
+function getEnabledProviders(): SubtitleProvider[] {
+  const disabled = getPreference<string[]>(DISABLED_PREF, []) || []
+  return providers.filter(p => !disabled.includes(p.id))
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+function matchName(match: SubtitleMatch): string {
+  return match.subtitle.info.filename || match.subtitle.page.title
+}
+
+/**
+ * Search all enabled providers in parallel
+ * A failing provider is logged and skipped, it never fails the whole search
+ * exactOnly: skip providers that can't tell an exact release match (automatic matching on file open)
+ */
+export async function searchProviders(query: SubtitleQuery, exactOnly = false): Promise<SubtitleMatch[]> {
+  const enabled = getEnabledProviders().filter(p => !exactOnly || p.exactMatches)
+  const settled = await Promise.allSettled(enabled.map(p => p.search(query)))
+
+  const matches: SubtitleMatch[] = []
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      logger.log(`[SUBS] ${enabled[i].name}: ${result.value.length} results`)
+      matches.push(...result.value)
+    } else {
+      logger.error(`[SUBS] ${enabled[i].name} failed:`, result.reason?.message || result.reason)
+    }
+  })
+
+  // Unknown language is kept (local files rarely carry a language tag, findAutoSubtitle relies on seeing them)
+  const wanted = query.languages && query.languages.length > 0 ? query.languages : null
+  const filtered = wanted ? matches.filter(m => !m.language || wanted.includes(m.language)) : matches
+
+  // Exact release matches always come first (and win over their duplicates), fuzzy ranking orders the rest
+  const ranked = rank(query.query, filtered)
+  return dedupe([...ranked.filter(m => m.exact), ...ranked.filter(m => !m.exact)])
+}
+
+function rank(term: string, matches: SubtitleMatch[]): SubtitleMatch[] {
+  if (!term.trim()) return matches
+
+  return search(term, matches, {
+    keySelector: matchName,
+    ignoreCase: true,
+    ignoreSymbols: true,
+    normalizeWhitespace: true,
+    sortBy: sortKind.bestMatch,
+    threshold: 0
+  })
+}
+
+function dedupe(ranked: SubtitleMatch[]): SubtitleMatch[] {
+  const kept: SubtitleMatch[] = []
+  ranked.forEach(match => {
+    const name = matchName(match)
+    const duplicate = kept.some(k =>
+      k.language === match.language &&
+      fuzzy(matchName(k), name, { ignoreCase: true, ignoreSymbols: true }) >= DUPLICATE_SCORE
+    )
+    if (!duplicate) kept.push(match)
+  })
+  return kept
+}
@@ -0,0 +1,227 @@
+/**
+ * Subtitle Service for NauticPlayer
+ * Searches every enabled subtitle provider, downloads/unpacks the chosen subtitle and caches it on disk
+ */
+
+import { app } from 'electron'
+import { join, extname, basename } from 'path'
+import { promises as fsp } from 'fs'
+import { createHash } from 'crypto'
+import { computeMovieHash } from './movieHash'
+import { getPreference, savePreference } from './preferences'
+import { subdlProvider } from './subdl-api'
+import { subdivxProvider } from './subdivx-api'
+import { openSubtitlesProvider } from './opensubtitles'
+import { localSubtitlesProvider } from './local-subtitles'
+import { registerProvider, searchProviders, getProviders } from './subtitleProviders'
+import { LanguageNameMap, toLanguageId, type LanguageID, type SubtitleList } from './subdl-utils'
+import { logger } from './logger'
+
+export interface SubtitleSearchResult {
+  id: string
+  url: string
+  filename: string
+  language: string
+  title: string
+  provider: string
+}
+
+export interface SubtitlePreferences {
+  autoDownload: boolean
+  languages: LanguageID[]
+}
+
+export interface AutoSubtitle {
+  path: string
+  language: LanguageID
+  provider: string
+}
+
+const AUTO_PREF = 'subtitleAutoDownload'
+const LANGUAGES_PREF = 'subtitleLanguages'
+
+// Local files first: they are instant and usually the right release
+registerProvider(localSubtitlesProvider)
+registerProvider(openSubtitlesProvider)
+registerProvider(subdlProvider)
+registerProvider(subdivxProvider)
+
+// Subtitle links from the last searches, keyed by result id (needed to download later)
+const resultCache = new Map<string, SubtitleList>()
+
+/**
+ * Directory where downloaded subtitles are stored
+ */
+export function getSubtitleCacheDir(): string {
+  return join(app.getPath('userData'), 'subtitles')
+}
+
+/**
+ * Cache file made from `source` ("<name>.<path hash><suffix>")
+ * The hash of the full path keeps same-named files from different folders apart
+ */
+export function getSubtitleCachePath(source: string, suffix: string): string {
+  const hash = createHash('sha1').update(source).digest('hex').slice(0, 10)
+  return join(getSubtitleCacheDir(), `${basename(source, extname(source))}.${hash}${suffix}`)
+}
+
+/**
+ * Search all enabled providers for subtitles matching a free text query
+ * lang: a LanguageID ('en', 'es', ...) or 'all'
+ * filePath: the local video being played, lets the folder provider look next to it
+ */
+export async function searchSubtitles(query: string, lang: string = 'all', filePath?: string | null): Promise<SubtitleSearchResult[]> {
+  const trimmed = query.trim()
+  if (!trimmed) return []
+
+  logger.log('[SUBS] Searching providers for:', { query: trimmed, lang })
+
+  const language = lang !== 'all' ? toLanguageId(lang) : undefined
+  const matches = await searchProviders({
+    query: trimmed,
+    languages: language ? [language] : undefined,
+    filePath: filePath || undefined
+  })
+
+  const providerNames = new Map(getProviders().map(p => [p.id, p.name]))
+  const results = matches.map(({ provider, subtitle, language: matchLanguage }) => {
+    const id = `${provider}:${subtitle._link}`
+    resultCache.set(id, subtitle)
+    return {
+      id,
+      url: id,
+      filename: subtitle.info.filename || subtitle.page.title,
+      language: matchLanguage ? LanguageNameMap[matchLanguage] : (subtitle.info.language || ''),
+      title: subtitle.page.title,
+      provider: providerNames.get(provider) || provider
+    }
+  })
+
+  logger.log(`[SUBS] Found ${results.length} subtitles`)
+  return results
+}
+
+/**
+ * Download a subtitle from a previous search and write it to the cache directory
+ * Returns the absolute path of the saved file
+ */
+export async function downloadSubtitle(id: string, name?: string): Promise<string> {
+  const link = resultCache.get(id)
+  if (!link) throw new Error('Subtitle not found, search again')
+
+  logger.log('[SUBS] Downloading subtitle:', id)
+
+  const downloaded = await link.download()
+  const best = downloaded.subtitles[0]
+  if (!best) throw new Error('Downloaded archive contains no subtitles')
+
+  const cacheDir = getSubtitleCacheDir()
+  await fsp.mkdir(cacheDir, { recursive: true })
+
+  const filePath = join(cacheDir, toCacheFilename(best.filename || name || link.info.filename || 'subtitle'))
+  await fsp.writeFile(filePath, best.subtitles, 'utf-8')
+
+  logger.log('[SUBS] Saved subtitle to:', filePath)
+  return filePath
+}
+
+// Strip folders and characters Windows does not allow, and make sure there's an extension
+function toCacheFilename(name: string): string {
+  const base = name.split(/[/\\]/).pop() || 'subtitle'
+  const safe = base.replace(/[<>:"|?*\x00-\x1f]/g, '_').trim() || 'subtitle'
+  return extname(safe) ? safe : `${safe}.srt`
+}
+
+// ============================================================================
+// AUTOMATIC MATCHING
+// ============================================================================
+
+export function getSubtitlePreferences(): SubtitlePreferences {
+  return {
+    autoDownload: getPreference<boolean>(AUTO_PREF, true)!,
+    languages: getPreference<LanguageID[]>(LANGUAGES_PREF, ['en'])!
+  }
+}
+
+export function saveSubtitlePreferences(prefs: Partial<SubtitlePreferences>): SubtitlePreferences {
+  if (prefs.autoDownload !== undefined) savePreference(AUTO_PREF, prefs.autoDownload)
+  if (prefs.languages) savePreference(LANGUAGES_PREF, prefs.languages.filter(l => l in LanguageNameMap))
+  return getSubtitlePreferences()
+}
+
+// Cached auto matches are named "<hash>.<lang>.<ext>" so reopening a file needs no network
+async function findCachedMatch(hash: string, languages: LanguageID[]): Promise<AutoSubtitle | null> {
+  let files: string[]
+  try {
+    files = await fsp.readdir(getSubtitleCacheDir())
+  } catch {
+    return null
+  }
+
+  for (const language of languages) {
+    const cached = files.find(f => f.startsWith(`${hash}.${language}.`))
+    if (cached) return { path: join(getSubtitleCacheDir(), cached), language, provider: 'cache' }
+  }
+  return null
+}
+
+/**
+ * Find a subtitle made for this exact release in the user's preferred languages
+ * Preferred language order wins over provider order
+ * Returns null when auto download is off, nothing matches, or a matching file already sits
+ * next to the video (mpv loads those by itself)
+ */
+export async function findAutoSubtitle(filePath: string): Promise<AutoSubtitle | null> {
+  const { autoDownload, languages } = getSubtitlePreferences()
+  if (!autoDownload || languages.length === 0) return null
+
+  const { hash, size } = await computeMovieHash(filePath)
+  logger.log('[SUBS] Movie hash:', { file: filePath, hash, size })
+
+  const cached = await findCachedMatch(hash, languages)
+  if (cached) return cached
+
+  // Scraping providers (subdl, Subdivx) never match a release exactly, only ask the ones that can
+  const matches = await searchProviders({
+    query: basename(filePath, extname(filePath)),
+    languages,
+    filePath,
+    hash,
+    fileSize: size
+  }, true)
+
+  // Checked before the language filter: mpv also auto-loads an untagged "Movie.srt" next to "Movie.mkv"
+  if (matches.some(m => m.exact && m.provider === 'local')) {
+    logger.log('[SUBS] Matching subtitle already next to the video')
+    return null
+  }
+
+  const exact = matches.filter(m => m.exact && m.language)
+
+  for (const language of languages) {
+    const best = exact.find(m => m.language === language)
+    if (!best) continue
+
+    const downloaded = await best.subtitle.download()
+    const first = downloaded.subtitles[0]
+    if (!first) continue
+
+    const ext = extname(first.filename || '') || '.srt'
+    const target = join(getSubtitleCacheDir(), `${hash}.${language}${ext}`)
+    await fsp.mkdir(getSubtitleCacheDir(), { recursive: true })
+    await fsp.writeFile(target, first.subtitles, 'utf-8')
+
+    logger.log('[SUBS] Auto matched subtitle:', { provider: best.provider, language, target })
+    return { path: target, language, provider: best.provider }
+  }
+
+  logger.log('[SUBS] No exact release match found')
+  return null
+}
+
+/**
+ * Languages the user can pick from in the Subtitles tab
+ */
+export function getAvailableLanguages(): { id: LanguageID, name: string }[] {
+  return (Object.keys(LanguageNameMap) as LanguageID[]).map(id => ({ id, name: LanguageNameMap[id] }))
+}
@@ -0,0 +1,324 @@
+/**
+ * Subtitle Sync for NauticPlayer
+ * Aligns subtitle cues to the speech in the audio track (global offset + optional linear drift)
+ * and retimes subtitles from two user-marked lines
+ */
+
+import { spawn, ChildProcess } from 'child_process'
+import { promises as fsp } from 'fs'
+import { join, basename, dirname, extname } from 'path'
+import { getFfmpegPath, isFfmpegAvailable } from './ffmpeg'
+import { parseSubtitle, serializeSubtitle, retimeCues, detectFormat, decodeSubtitleBuffer, type SubtitleCue } from './subtitleFormat'
+import { getSubtitleCacheDir, getSubtitleCachePath } from './subtitleService'
+import { logger } from './logger'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// Corrected time = original time * scale + offset
+export interface SyncResult {
+  offset: number
+  scale: number
+  confidence: number // Share of subtitle time landing on speech rather than silence (-1..1)
+}
+
+export interface SyncPoint {
+  cue: number    // Start of the line in the subtitle file (seconds)
+  actual: number // Playback time the line is actually spoken (seconds)
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SAMPLE_RATE = 8000
+const FRAME_RATE = 50 // Analysis frames per second (20ms each)
+const SAMPLES_PER_FRAME = SAMPLE_RATE / FRAME_RATE
+const MAX_OFFSET = 120 // Seconds searched in each direction
+const MIN_DRIFT = 0.0002 // Smaller scale changes are measurement noise
+const MAX_DRIFT = 0.1 // Well past any real framerate mismatch (25 / 23.976 = 1.043)
+const MIN_CONFIDENCE = 0.05
+const MIN_DRIFT_CUES = 20
+
+// ffmpeg job of the sync in progress (only one at a time)
+let activeJob: ChildProcess | null = null
+
+export function cancelSync(): void {
+  if (activeJob) {
+    activeJob.kill()
+    activeJob = null
+  }
+}
+
+// ============================================================================
+// SUBTITLE FILES
+// ============================================================================
+
+export async function loadSubtitleCues(filePath: string): Promise<SubtitleCue[]> {
+  const text = decodeSubtitleBuffer(await fsp.readFile(filePath))
+  return parseSubtitle(text, detectFormat(text, filePath)).cues
+}
+
+/**
+ * Retime a subtitle file and save it as "<name>.<path hash>.synced.<ext>" in the cache
+ * Syncing a synced file again replaces it
+ */
+export async function writeSyncedSubtitle(filePath: string, offset: number, scale: number): Promise<string> {
+  const text = decodeSubtitleBuffer(await fsp.readFile(filePath))
+  const doc = parseSubtitle(text, detectFormat(text, filePath))
+  if (doc.cues.length === 0) throw new Error('No subtitle lines found')
+
+  const ext = doc.format === 'ass' ? extname(filePath) || '.ass' : '.srt'
+  const resynced = dirname(filePath) === getSubtitleCacheDir() && /\.synced$/.test(basename(filePath, extname(filePath)))
+  const target = resynced
+    ? join(getSubtitleCacheDir(), basename(filePath, extname(filePath)) + ext)
+    : getSubtitleCachePath(filePath, `.synced${ext}`)
+
+  await fsp.mkdir(getSubtitleCacheDir(), { recursive: true })
+  await fsp.writeFile(target, serializeSubtitle(retimeCues(doc, offset, scale)), 'utf-8')
+
+  logger.log('[SYNC] Saved synced subtitle:', { target, offset, scale })
+  return target
+}
+
+// ============================================================================
+// VOICE ACTIVITY
+// ============================================================================
+
+/**
+ * Decode an audio stream with ffmpeg and mark every 20ms frame as speech (+1) or silence (-1)
+ * audioIndex: ffmpeg stream index (mpv "ff-index"), defaults to the first audio stream
+ */
+export function extractSpeechActivity(videoPath: string, audioIndex?: number): Promise<Float64Array> {
+  return new Promise((resolve, reject) => {
+    if (!isFfmpegAvailable()) return reject(new Error('FFmpeg not available'))
+    cancelSync()
+
+    const proc = spawn(getFfmpegPath(), [
+      '-hide_banner', '-v', 'error', '-nostdin',
+      '-i', videoPath,
+      '-map', audioIndex !== undefined ? `0:${audioIndex}` : '0:a:0',
+      '-vn', '-sn', '-dn',
+      '-af', 'highpass=f=200,lowpass=f=3000', // Voice band only, drops rumble and hiss
+      '-ac', '1',
+      '-ar', String(SAMPLE_RATE),
+      '-f', 's16le',
+      '-'
+    ])
+    activeJob = proc
+
+    // Stream the PCM, a full movie would not fit in memory as raw samples
+    const energies: number[] = []
+    let frameSum = 0
+    let frameSamples = 0
+    let leftover: Buffer | null = null
+    let stderr = ''
+
+    proc.stdout?.on('data', (chunk: Buffer) => {
+      const data = leftover ? Buffer.concat([leftover, chunk]) : chunk
+      const usable = data.length - (data.length % 2)
+
+      for (let i = 0; i < usable; i += 2) {
+        const sample = data.readInt16LE(i)
+        frameSum += sample * sample
+        if (++frameSamples === SAMPLES_PER_FRAME) {
+          energies.push(frameSum / SAMPLES_PER_FRAME)
+          frameSum = 0
+          frameSamples = 0
+        }
+      }
+
+      leftover = usable < data.length ? data.subarray(usable) : null
+    })
+
+    proc.stderr?.on('data', (data) => {
+      stderr = (stderr + data.toString()).slice(-2000)
+    })
+
+    proc.on('error', reject)
+    proc.on('close', (code, signal) => {
+      if (activeJob === proc) activeJob = null
+      if (signal) return reject(new Error('Sync cancelled'))
+      if (code !== 0 || energies.length === 0) {
+        return reject(new Error(stderr.trim().split('\n').pop() || 'Could not read the audio track'))
+      }
+      resolve(classifySpeech(energies))
+    })
+  })
+}
+
+// Frames clearly above the noise floor count as speech
+function classifySpeech(energies: number[]): Float64Array {
+  const levels = energies.map(e => 10 * Math.log10(e + 1))
+  const sorted = [...levels].sort((a, b) => a - b)
+  const noise = sorted[Math.floor(sorted.length * 0.1)]
+  const loud = sorted[Math.floor(sorted.length * 0.95)]
+  const threshold = noise + (loud - noise) * 0.4
+
+  return Float64Array.from(levels, level => level > threshold ? 1 : -1)
+}
+
+// ============================================================================
+// ALIGNMENT
+// ============================================================================
+
+function cueSignal(cues: SubtitleCue[], length: number): Float64Array {
+  const signal = new Float64Array(length)
+  cues.forEach(cue => {
+    const from = Math.max(0, Math.floor(cue.start * FRAME_RATE))
+    const to = Math.min(length, Math.ceil(cue.end * FRAME_RATE))
+    signal.fill(1, from, Math.max(from, to))
+  })
+  return signal
+}
+
+// In-place iterative radix-2 FFT (length must be a power of two)
+function fft(re: Float64Array, im: Float64Array, inverse: boolean = false): void {
+  const n = re.length
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]]
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (inverse ? 2 : -2) * Math.PI / len
+    const wRe = Math.cos(angle)
+    const wIm = Math.sin(angle)
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1
+      let curIm = 0
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k], aIm = im[i + k]
+        const b = i + k + len / 2
+        const bRe = re[b] * curRe - im[b] * curIm
+        const bIm = re[b] * curIm + im[b] * curRe
+        re[i + k] = aRe + bRe
+        im[i + k] = aIm + bIm
+        re[b] = aRe - bRe
+        im[b] = aIm - bIm
+        const nextRe = curRe * wRe - curIm * wIm
+        curIm = curRe * wIm + curIm * wRe
+        curRe = nextRe
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n
+      im[i] /= n
+    }
+  }
+}
+
+/**
+ * Shift (in frames) of the subtitle signal that lands most subtitle time on speech
+ * score(d) = sum over t of subs[t] * speech[t + d], computed for every d at once with FFTs
+ */
+function bestLag(speech: Float64Array, subs: Float64Array, maxLag: number): { lag: number, score: number } {
+  let size = 1
+  while (size < speech.length + subs.length) size <<= 1
+
+  const aRe = new Float64Array(size), aIm = new Float64Array(size)
+  const bRe = new Float64Array(size), bIm = new Float64Array(size)
+  aRe.set(speech)
+  bRe.set(subs)
+  fft(aRe, aIm)
+  fft(bRe, bIm)
+
+  // a * conj(b)
+  for (let i = 0; i < size; i++) {
+    const re = aRe[i] * bRe[i] + aIm[i] * bIm[i]
+    const im = aIm[i] * bRe[i] - aRe[i] * bIm[i]
+    aRe[i] = re
+    aIm[i] = im
+  }
+  fft(aRe, aIm, true)
+
+  let best = { lag: 0, score: -Infinity }
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const score = aRe[lag < 0 ? size + lag : lag]
+    if (score > best.score) best = { lag, score }
+  }
+  return best
+}
+
+function activeFrames(signal: Float64Array): number {
+  let count = 0
+  for (let i = 0; i < signal.length; i++) count += signal[i]
+  return count || 1
+}
+
+function overlapScore(speech: Float64Array, subs: Float64Array): number {
+  let score = 0
+  for (let i = 0; i < Math.min(speech.length, subs.length); i++) score += speech[i] * subs[i]
+  return score / activeFrames(subs)
+}
+
+/**
+ * Find the offset (and with drift, the scale) that best lines the cues up with the speech
+ * Drift is measured by aligning each half of the subtitles separately and fitting a line
+ */
+export function findAlignment(cues: SubtitleCue[], speech: Float64Array, drift: boolean = true): SyncResult {
+  const sorted = [...cues].sort((a, b) => a.start - b.start)
+  if (sorted.length === 0) throw new Error('No subtitle lines found')
+
+  const length = Math.max(speech.length, Math.ceil(sorted[sorted.length - 1].end * FRAME_RATE) + 1)
+  const maxLag = MAX_OFFSET * FRAME_RATE
+
+  const whole = cueSignal(sorted, length)
+  const global = bestLag(speech, whole, maxLag)
+  let result: SyncResult = { offset: global.lag / FRAME_RATE, scale: 1, confidence: global.score / activeFrames(whole) }
+
+  if (drift && sorted.length >= MIN_DRIFT_CUES) {
+    const half = Math.floor(sorted.length / 2)
+    const first = sorted.slice(0, half)
+    const second = sorted.slice(half)
+    const center = (list: SubtitleCue[]): number => list.reduce((sum, c) => sum + (c.start + c.end) / 2, 0) / list.length
+
+    const t1 = center(first)
+    const t2 = center(second)
+    const o1 = bestLag(speech, cueSignal(first, length), maxLag).lag / FRAME_RATE
+    const o2 = bestLag(speech, cueSignal(second, length), maxLag).lag / FRAME_RATE
+    const scale = 1 + (o2 - o1) / (t2 - t1)
+
+    if (Math.abs(scale - 1) > MIN_DRIFT && Math.abs(scale - 1) < MAX_DRIFT) {
+      // Line through (t1, t1 + o1) and (t2, t2 + o2)
+      const offset = o1 - t1 * (scale - 1)
+      const retimed = sorted.map(c => ({ ...c, start: c.start * scale + offset, end: c.end * scale + offset }))
+      const confidence = overlapScore(speech, cueSignal(retimed, length))
+
+      // Only keep the drift fit when it beats the plain offset
+      if (confidence > result.confidence) result = { offset, scale, confidence }
+    }
+  }
+
+  logger.log('[SYNC] Alignment:', result)
+
+  if (result.confidence < MIN_CONFIDENCE) throw new Error('Could not match the subtitles to the speech')
+  return result
+}
+
+/**
+ * Offset and scale from user-marked lines
+ * One point only shifts, two points also correct drift
+ */
+export function computeTwoPointSync(points: SyncPoint[]): { offset: number, scale: number } {
+  if (points.length === 0) throw new Error('Mark at least one line')
+  if (points.length === 1) return { offset: points[0].actual - points[0].cue, scale: 1 }
+
+  const [p1, p2] = points
+  if (Math.abs(p2.cue - p1.cue) < 1) throw new Error('Pick two lines further apart')
+
+  const scale = (p2.actual - p1.actual) / (p2.cue - p1.cue)
+  if (!(Math.abs(scale - 1) < MAX_DRIFT)) throw new Error('The marked lines do not line up, try again')
+
+  return { offset: p1.actual - p1.cue * scale, scale }
+}
@@ -0,0 +1,125 @@
+/**
+ * Subtitle Tracks
+ * Turns mpv sub tracks (external files or streams embedded in the video) into readable subtitle files
+ */
+
+import { promises as fsp } from 'fs'
+import { runFfmpeg } from './ffmpeg'
+import { parseSubtitle, serializeSubtitle, convertSubtitle, retimeCues, detectFormat, decodeSubtitleBuffer, toWebVtt } from './subtitleFormat'
+import { getSubtitleCacheDir, getSubtitleCachePath } from './subtitleService'
+
+// mpv codec name -> format ffmpeg can extract as text (bitmap formats like PGS are missing on purpose)
+const TEXT_SUBTITLE_CODECS: Record<string, string> = {
+  subrip: 'srt',
+  srt: 'srt',
+  text: 'srt',
+  mov_text: 'srt',
+  webvtt: 'srt',
+  ass: 'ass',
+  ssa: 'ass'
+}
+
+// Image-based formats, burned in by overlaying the video's own stream
+const BITMAP_SUBTITLE_CODECS = ['hdmv_pgs_subtitle', 'pgssub', 'dvd_subtitle', 'dvdsub', 'dvb_subtitle', 'dvbsub']
+
+// Extractions in progress, so parallel requests for the same track share one ffmpeg run
+const pendingExtractions = new Map<string, Promise<string>>()
+
+// What burning a sub track in takes: a text file for libass, or the bitmap stream (ff-index) to overlay
+export type BurnInSubtitle = { file: string } | { stream: number }
+
+/**
+ * True when the track can be read as text (external file or embedded text stream)
+ */
+export function isTextSubtitleTrack(track: any): boolean {
+  if (track.type !== 'sub') return false
+  if (track.external) return !!track['external-filename'] && !/^[a-z]+:\/\//i.test(track['external-filename'])
+  return track.codec in TEXT_SUBTITLE_CODECS && track['ff-index'] !== undefined
+}
+
+function isBitmapSubtitleTrack(track: any): boolean {
+  return track.type === 'sub' && !track.external && BITMAP_SUBTITLE_CODECS.includes(track.codec) && track['ff-index'] !== undefined
+}
+
+/**
+ * True when the track can be burned into the picture (text tracks, and bitmap streams of the video itself)
+ */
+export function isBurnableSubtitleTrack(track: any): boolean {
+  return isTextSubtitleTrack(track) || isBitmapSubtitleTrack(track)
+}
+
+/**
+ * Get a text subtitle file for an mpv sub track
+ * External tracks are used directly, embedded text tracks are extracted into the cache once
+ */
+export async function resolveSubtitleFile(track: any, videoPath: string): Promise<string> {
+  if (track.external && track['external-filename']) return track['external-filename']
+
+  const format = TEXT_SUBTITLE_CODECS[track.codec]
+  if (!format) throw new Error('Image-based subtitles cannot be read as text')
+  if (track['ff-index'] === undefined) throw new Error('Subtitle track is not readable')
+
+  const target = getSubtitleCachePath(videoPath, `.track${track.id}.${format}`)
+
+  const pending = pendingExtractions.get(target)
+  if (pending) return pending
+
+  const extraction = (async () => {
+    // Reuse an earlier extraction unless the video changed since
+    const [cached, video] = await Promise.all([fsp.stat(target).catch(() => null), fsp.stat(videoPath)])
+    if (cached && cached.mtimeMs >= video.mtimeMs) return target
+
+    await fsp.mkdir(getSubtitleCacheDir(), { recursive: true })
+    await runFfmpeg(['-v', 'error', '-i', videoPath, '-map', `0:${track['ff-index']}`, target])
+    return target
+  })()
+
+  pendingExtractions.set(target, extraction)
+  try {
+    return await extraction
+  } finally {
+    pendingExtractions.delete(target)
+  }
+}
+
+/**
+ * Read a sub track as WebVTT
+ * shift: seconds removed from every cue (for streams that start mid-file)
+ */
+export async function readTrackAsWebVtt(track: any, videoPath: string, shift: number = 0): Promise<string> {
+  const filePath = await resolveSubtitleFile(track, videoPath)
+  const text = decodeSubtitleBuffer(await fsp.readFile(filePath))
+  if (!shift) return toWebVtt(text, filePath)
+
+  const doc = convertSubtitle(parseSubtitle(text, detectFormat(text, filePath)), 'vtt')
+
+  // Cues that ended before the stream start are dropped
+  const shifted = retimeCues(doc, -shift)
+  return serializeSubtitle({ ...shifted, cues: shifted.cues.filter(c => c.end > 0) })
+}
+
+/**
+ * Get what burning an mpv sub track in needs, text tracks are extracted like for resolveSubtitleFile
+ */
+export async function resolveBurnInSubtitle(track: any, videoPath: string): Promise<BurnInSubtitle> {
+  if (isBitmapSubtitleTrack(track)) return { stream: track['ff-index'] }
+  return { file: await resolveSubtitleFile(track, videoPath) }
+}
+
+/**
+ * Quote a path for a filter option inside a filtergraph
+ * Two escaping levels: the graph strips the quotes, the filter then unescapes `\:` (Windows drive colons)
+ * An apostrophe closes the quote and is escaped for both levels
+ */
+function escapeFilterPath(path: string): string {
+  const escaped = path.replace(/\\/g, '/').replace(/:/g, '\\:').replace(/'/g, `'\\\\\\''`)
+  return `'${escaped}'`
+}
+
+/**
+ * Video filter burning a text subtitle file in, for an input seeked to `start`
+ */
+export function textBurnInFilter(file: string, start: number): string {
+  // Input seeking restarts timestamps at 0, the subtitle file still counts from the start of the video
+  return `setpts=PTS+${start}/TB,subtitles=${escapeFilterPath(file)},setpts=PTS-STARTPTS`
+}
@@ -0,0 +1,171 @@
+/**
+ * Seek Bar Thumbnails
+ * Background ffmpeg job that renders sprite sheets of the current file, cached on disk by movie hash
+ */
+
+import { app } from 'electron'
+import { promises as fsp } from 'fs'
+import { join } from 'path'
+import os from 'os'
+import type { ChildProcess } from 'child_process'
+import { runFfmpeg } from './ffmpeg'
+import { computeMovieHash } from './movieHash'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ThumbnailManifest {
+  interval: number // Seconds between two thumbnails
+  width: number // Tile size in px
+  height: number
+  columns: number // Tiles per sheet
+  rows: number
+  count: number // Thumbnails over all sheets
+  sheets: string[] // Sheet file names, in order
+}
+
+export interface ThumbnailSet {
+  path: string // Video the thumbnails belong to
+  dir: string // Folder holding the sheets
+  manifest: ThumbnailManifest
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const THUMB_WIDTH = 160
+const THUMB_HEIGHT = 90
+const COLUMNS = 10
+const ROWS = 10
+const MAX_THUMBNAILS = 400
+const MIN_INTERVAL = 2 // Short clips don't need a frame every second
+const MAX_CACHED_VIDEOS = 50
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+let activeJob: { path: string; proc: ChildProcess | null; cancelled: boolean } | null = null
+let current: ThumbnailSet | null = null
+
+export function getThumbnailCacheDir(): string {
+  return join(app.getPath('userData'), 'thumbnails')
+}
+
+/**
+ * Thumbnails of the current file, null while generating or for streams
+ */
+export function getCurrentThumbnails(): ThumbnailSet | null {
+  return current
+}
+
+/**
+ * Stop a running job and forget the current set (the file changed)
+ */
+export function cancelThumbnails(): void {
+  if (activeJob) {
+    activeJob.cancelled = true
+    activeJob.proc?.kill()
+    activeJob = null
+  }
+  current = null
+}
+
+// Drop the least recently used cache folders beyond MAX_CACHED_VIDEOS
+async function pruneCache(): Promise<void> {
+  const root = getThumbnailCacheDir()
+  const entries = await fsp.readdir(root).catch(() => [] as string[])
+  if (entries.length <= MAX_CACHED_VIDEOS) return
+
+  const stats = await Promise.all(entries.map(async name => ({
+    name,
+    mtime: (await fsp.stat(join(root, name)).catch(() => null))?.mtimeMs ?? 0
+  })))
+  stats.sort((a, b) => b.mtime - a.mtime)
+  await Promise.all(stats.slice(MAX_CACHED_VIDEOS).map(s => fsp.rm(join(root, s.name), { recursive: true, force: true })))
+}
+
+/**
+ * Build (or load from cache) the sprite sheets for a local video
+ * Resolves null when cancelled or when a job for this file is already running
+ */
+export async function generateThumbnails(videoPath: string, duration: number): Promise<ThumbnailSet | null> {
+  if (current?.path === videoPath) return current
+  if (activeJob?.path === videoPath) return null
+
+  cancelThumbnails()
+  const job: { path: string; proc: ChildProcess | null; cancelled: boolean } = { path: videoPath, proc: null, cancelled: false }
+  activeJob = job
+
+  try {
+    const { hash } = await computeMovieHash(videoPath)
+    const dir = join(getThumbnailCacheDir(), hash)
+    const manifestPath = join(dir, 'manifest.json')
+
+    let manifest: ThumbnailManifest | null = await fsp.readFile(manifestPath, 'utf-8').then(JSON.parse).catch(() => null)
+    if (manifest) {
+      // Touch so pruning keeps recently watched files
+      const now = new Date()
+      await fsp.utimes(dir, now, now).catch(() => {})
+    } else {
+      if (job.cancelled) return null
+
+      const interval = Math.max(MIN_INTERVAL, duration / MAX_THUMBNAILS)
+      await fsp.rm(dir, { recursive: true, force: true })
+      await fsp.mkdir(dir, { recursive: true })
+
+      // Keyframes only and a single thread: previews are approximate, playback keeps the CPU
+      await runFfmpeg([
+        '-v', 'error',
+        '-threads', '1',
+        '-skip_frame', 'nokey',
+        '-i', videoPath,
+        '-map', '0:v:0',
+        '-vf', [
+          `fps=1/${interval}`,
+          `scale=${THUMB_WIDTH}:${THUMB_HEIGHT}:force_original_aspect_ratio=decrease`,
+          `pad=${THUMB_WIDTH}:${THUMB_HEIGHT}:(ow-iw)/2:(oh-ih)/2`,
+          `tile=${COLUMNS}x${ROWS}`
+        ].join(','),
+        '-vsync', 'vfr',
+        '-q:v', '5',
+        '-threads', '1',
+        join(dir, 'sheet_%03d.jpg')
+      ], proc => {
+        job.proc = proc
+        if (job.cancelled) proc.kill()
+        try {
+          os.setPriority(proc.pid!, os.constants.priority.PRIORITY_LOW)
+        } catch (e) {
+          console.warn('[THUMBS] Could not lower ffmpeg priority:', e)
+        }
+      })
+
+      const sheets = (await fsp.readdir(dir)).filter(f => f.startsWith('sheet_')).sort()
+      if (sheets.length === 0) throw new Error('No video frames')
+
+      manifest = {
+        interval,
+        width: THUMB_WIDTH,
+        height: THUMB_HEIGHT,
+        columns: COLUMNS,
+        rows: ROWS,
+        count: Math.min(Math.ceil(duration / interval), sheets.length * COLUMNS * ROWS),
+        sheets
+      }
+      await fsp.writeFile(manifestPath, JSON.stringify(manifest))
+      pruneCache().catch(err => console.error('[THUMBS] Cache prune failed:', err))
+    }
+
+    if (job.cancelled) return null
+    current = { path: videoPath, dir, manifest }
+    return current
+  } catch (err) {
+    if (job.cancelled) return null
+    throw err
+  } finally {
+    if (activeJob === job) activeJob = null
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Video Adjustments
+ * Color, crop, rotation, flip, deinterlacing, zoom and pan, remembered per file or per folder
+ */
+
+import { dirname } from 'path'
+import { getPreference, savePreference } from './preferences'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// Black bars to cut, in percent of the source width/height (independent of resolution)
+export interface CropInsets {
+  top: number
+  bottom: number
+  left: number
+  right: number
+}
+
+export interface VideoAdjustments {
+  brightness: number // -100..100, like the mpv properties
+  contrast: number
+  saturation: number
+  gamma: number
+  hue: number
+  crop: CropInsets | null
+  rotate: number // 0, 90, 180 or 270
+  flipH: boolean
+  flipV: boolean
+  deinterlace: boolean
+  zoom: number // log2 scale, 0 = fit
+  panX: number // Fraction of the video size
+  panY: number
+}
+
+// Where the adjustments of a file come from
+export type AdjustmentScope = 'file' | 'folder'
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ADJUSTMENTS_PREF = 'videoAdjustments'
+const FOLDER_PREFIX = 'folder:'
+const MAX_ENTRIES = 500
+const MAX_CROP = 40 // Percent per side, leaves at least a fifth of the picture
+
+export const DEFAULT_ADJUSTMENTS: VideoAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  gamma: 0,
+  hue: 0,
+  crop: null,
+  rotate: 0,
+  flipH: false,
+  flipV: false,
+  deinterlace: false,
+  zoom: 0,
+  panX: 0,
+  panY: 0
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function clamp(value: any, min: number, max: number, fallback: number = 0): number {
+  const n = Number(value)
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback
+}
+
+function sanitize(adjustments: Partial<VideoAdjustments>): VideoAdjustments {
+  const a = { ...DEFAULT_ADJUSTMENTS, ...adjustments }
+  const crop = a.crop
+    ? {
+        top: clamp(a.crop.top, 0, MAX_CROP),
+        bottom: clamp(a.crop.bottom, 0, MAX_CROP),
+        left: clamp(a.crop.left, 0, MAX_CROP),
+        right: clamp(a.crop.right, 0, MAX_CROP)
+      }
+    : null
+
+  return {
+    brightness: clamp(a.brightness, -100, 100),
+    contrast: clamp(a.contrast, -100, 100),
+    saturation: clamp(a.saturation, -100, 100),
+    gamma: clamp(a.gamma, -100, 100),
+    hue: clamp(a.hue, -100, 100),
+    crop: crop && Object.values(crop).some(v => v > 0) ? crop : null,
+    rotate: [0, 90, 180, 270].includes(a.rotate) ? a.rotate : 0,
+    flipH: !!a.flipH,
+    flipV: !!a.flipV,
+    deinterlace: !!a.deinterlace,
+    zoom: clamp(a.zoom, -2, 3),
+    panX: clamp(a.panX, -1, 1),
+    panY: clamp(a.panY, -1, 1)
+  }
+}
+
+function getEntries(): Record<string, Partial<VideoAdjustments>> {
+  return getPreference<Record<string, Partial<VideoAdjustments>>>(ADJUSTMENTS_PREF, {}) || {}
+}
+
+function saveEntries(entries: Record<string, Partial<VideoAdjustments>>): void {
+  // Oldest entries go first once the map is full (object keys keep insertion order)
+  savePreference(ADJUSTMENTS_PREF, Object.fromEntries(Object.entries(entries).slice(-MAX_ENTRIES)))
+}
+
+// Streams have no folder to share settings with
+function folderKey(source: string): string | null {
+  return /^[a-z]+:\/\//i.test(source) ? null : FOLDER_PREFIX + dirname(source)
+}
+
+function keyFor(source: string, scope: AdjustmentScope): string | null {
+  return scope === 'file' ? source : folderKey(source)
+}
+
+/**
+ * Adjustments for a file: its own, else its folder's, else the defaults
+ */
+export function getVideoAdjustments(source: string | null): { adjustments: VideoAdjustments, scope: AdjustmentScope | null } {
+  if (!source) return { adjustments: DEFAULT_ADJUSTMENTS, scope: null }
+
+  const entries = getEntries()
+  if (entries[source]) return { adjustments: sanitize(entries[source]), scope: 'file' }
+
+  const folder = folderKey(source)
+  if (folder && entries[folder]) return { adjustments: sanitize(entries[folder]), scope: 'folder' }
+
+  return { adjustments: DEFAULT_ADJUSTMENTS, scope: null }
+}
+
+/**
+ * Save changes where the file's adjustments live, a file without any starts its own entry
+ */
+export function saveVideoAdjustments(source: string, changes: Partial<VideoAdjustments>): VideoAdjustments {
+  const { adjustments, scope } = getVideoAdjustments(source)
+  const next = sanitize({ ...adjustments, ...changes })
+  const key = keyFor(source, scope || 'file')!
+
+  const { [key]: _previous, ...others } = getEntries()
+  saveEntries({ ...others, [key]: next })
+  return next
+}
+
+/**
+ * Move the current adjustments to the file or to its whole folder
+ */
+export function setVideoAdjustmentScope(source: string, scope: AdjustmentScope): void {
+  const key = keyFor(source, scope)
+  if (!key) throw new Error('Streams can only keep their own adjustments')
+
+  const { adjustments } = getVideoAdjustments(source)
+  const entries = getEntries()
+  // The file's own entry would hide the folder's
+  if (scope === 'folder') delete entries[source]
+  const { [key]: _previous, ...others } = entries
+  saveEntries({ ...others, [key]: adjustments })
+}
+
+/**
+ * Drop the adjustments that apply to this file (its own or its folder's)
+ */
+export function resetVideoAdjustments(source: string): void {
+  const { scope } = getVideoAdjustments(source)
+  if (!scope) return
+  const entries = getEntries()
+  delete entries[keyFor(source, scope)!]
+  saveEntries(entries)
+}
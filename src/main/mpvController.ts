@@ -6,22 +6,69 @@
 import { spawn, ChildProcess } from 'child_process'
 import { ipcMain, BrowserWindow, app } from 'electron'
 import { join } from 'path'
-import { is } from '@electron-toolkit/utils'
+import { pathToFileURL } from 'url'
 import * as net from 'net'
 import { getIsFullScreen, setQuitting } from './index'
 import { isYouTubeUrl, extractYouTubeMetadata, isYouTubePlaylist, extractYouTubePlaylist } from './lib/historyService'
-import { updatePlayerState, getPlayerState, broadcastFullState, setCurrentFile } from './remoteServer'
+import { updatePlayerState, getPlayerState, broadcastFullState, setCurrentFile, getCurrentFile, announceThumbnails, type ChapterInfo, type AbLoop } from './remoteServer'
+import { findAutoSubtitle, type AutoSubtitle } from './lib/subtitleService'
+import { LanguageNameMap } from './lib/subdl-utils'
+import { MpvIpcClient, type MpvEvent } from './lib/mpvIpc'
+import { generateThumbnails, cancelThumbnails, type ThumbnailSet } from './lib/thumbnails'
+import { applyAudioFilters, handleAudioDeviceList, handleAudioDeviceChange } from './audioController'
+import { getAudioOutputArgs } from './lib/audioOutput'
+import { applyVideoAdjustments } from './videoController'
+import { getShaderPreset, findMissingShaders, resolveShader, formatShaderOpts } from './lib/shaderPresets'
+import { getMpvPath, getYtdlPath, getBinEnv, getResourcesPath, getMpvSocketPath, cleanupMpvSocket, getEmbedArgs, getEmbedStrategy } from './lib/platform'
 
 let mpvProcess: ChildProcess | null = null
 let ipcSocket: net.Socket | null = null
-const socketPath = `\\\\.\\pipe\\mpvsocket-${process.pid}`
+let mpvClient: MpvIpcClient | null = null // Request/response layer over ipcSocket
+const socketPath = getMpvSocketPath() // Named pipe on Windows, Unix socket elsewhere
 let mpvInitialized = false // Track if MPV has been initialized
 let commandQueue: Record<string, any>[] = [] // Queue for commands before socket is ready
+let loadedPath: string | null = null // Path MPV reports as actually loaded
+let abLoop: AbLoop = { a: null, b: null } // A-B repeat points, null when unset
+let pendingAutoSub: { filePath: string, match: AutoSubtitle } | null = null // Auto subtitle waiting for its file to load
 
 
 let globalUiSender: Electron.WebContents | null = null
 let globalHostWindow: BrowserWindow | null = null
 
+// ============================================================================
+// CRASH RECOVERY STATE
+// ============================================================================
+
+// What the user was watching, restored into a respawned mpv
+interface SessionSnapshot {
+  path: string | null
+  time: number
+  paused: boolean
+  aid: number | string | null
+  sid: number | string | null
+  volume: number | null
+  speed: number | null
+  audioDelay: number | null
+  subDelay: number | null
+  externalSubs: string[]
+  shaderPreset: string | null
+}
+
+const CRASH_WINDOW_MS = 60 * 1000 // Crashes closer together than this count as a loop
+const MAX_CRASHES = 5 // Give up after this many crashes in a loop
+const RESPAWN_DELAY_MS = 500 // Doubled for every crash in the loop
+
+const session: SessionSnapshot = {
+  path: null, time: 0, paused: false, aid: null, sid: null, volume: null, speed: null,
+  audioDelay: null, subDelay: null, externalSubs: [], shaderPreset: null
+}
+let recoverySnapshot: SessionSnapshot | null = null // Set from a crash until the restore finished
+let pendingRestore: SessionSnapshot | null = null // Waiting for 'file-loaded' to seek and pick tracks
+let respawnIdle = false // A respawned mpv is up but doesn't have the file back yet
+let crashCount = 0
+let lastCrashAt = 0
+let intentionalExit = false // quitMpv was called, don't respawn
+
 // Updated signature for BrowserView Architecture
 // hostWindow: The physical window where MPV is embedded (provides WID)
 // uiSender: The WebContents of the BrowserView (where React UI lives)
@@ -36,33 +83,22 @@ export function setupMpvController(hostWindow: BrowserWindow, uiSender: Electron
   mpvInitialized = true
   console.log('[MPV] Initializing for the first time...')
   
-  // Get the native window handle from the HOST window
-  const windowHandle = hostWindow.getNativeWindowHandle()
-  const wid = windowHandle.readBigInt64LE(0).toString()
-  
-  // Path to mpv.exe and bin folder
-  const resourcesPath = is.dev 
-    ? join(process.cwd(), 'resources')
-    : process.resourcesPath
-
-  const mpvPath = join(resourcesPath, 'mpv', 'mpv.exe')
-  const binPath = join(resourcesPath, 'bin')
-  const ytdlPath = join(binPath, 'yt-dlp.exe')
+  // Bundled mpv/yt-dlp when shipped for this platform, system installs otherwise
+  const mpvPath = getMpvPath()
+  const ytdlPath = getYtdlPath()
   
   console.log('MPV Path:', mpvPath)
-  console.log('Bin Path:', binPath)
-  console.log('Window ID:', wid)
+  console.log('IPC Socket:', socketPath)
+  console.log('Embedding:', getEmbedStrategy())
   
   // MPV arguments
   const args = [
     `--input-ipc-server=${socketPath}`,
-    `--wid=${wid}`,
+    ...getEmbedArgs(hostWindow), // --wid into the host window where the platform allows it
     '--idle=yes',
-    '--no-border',
     '--no-osc',
     '--osd-level=0',
     '--keep-open=yes',
-    '--force-window=no',
     '--input-default-bindings=no',
     '--input-vo-keyboard=no',
     '--vo=gpu',
@@ -71,19 +107,18 @@ export function setupMpvController(hostWindow: BrowserWindow, uiSender: Electron
     '--image-display-duration=inf',
     '--loop-file=no',
     `--script-opts=ytdl_hook-ytdl_path=${ytdlPath}`,
-    '--ytdl-raw-options=format=bestvideo+bestaudio/best'
+    '--ytdl-raw-options=format=bestvideo+bestaudio/best',
+    ...getAudioOutputArgs() // Passthrough / exclusive mode, the device is chosen from audio-device-list
   ]
   
-  const env = { 
-    ...process.env, 
-    PATH: `${binPath};${process.env.PATH}` 
-  }
+  // A crashed mpv leaves its Unix socket behind, which would refuse our connection
+  cleanupMpvSocket(socketPath)
 
   // Spawn MPV
   mpvProcess = spawn(mpvPath, args, {
     stdio: ['pipe', 'pipe', 'pipe'],
     windowsHide: true,
-    env
+    env: getBinEnv()
   })
   
   mpvProcess.on('error', (err) => {
@@ -91,11 +126,16 @@ export function setupMpvController(hostWindow: BrowserWindow, uiSender: Electron
     if (!uiSender.isDestroyed()) uiSender.send('mpv-error', err.message)
   })
   
-  mpvProcess.on('exit', (code) => {
-    console.log('MPV exited with code:', code)
+  mpvProcess.on('exit', (code, signal) => {
+    console.log('MPV exited with code:', code, signal || '')
     mpvInitialized = false
     mpvProcess = null
     ipcSocket = null
+    mpvClient = null
+    cleanupMpvSocket(socketPath)
+
+    if (!intentionalExit && (code !== 0 || signal)) handleMpvCrash(hostWindow, uiSender)
+    intentionalExit = false
   })
   
   mpvProcess.stdout?.on('data', (data) => {
@@ -108,36 +148,34 @@ export function setupMpvController(hostWindow: BrowserWindow, uiSender: Electron
   }, 1000)
 }
 
+// Properties forwarded to the UI / remote (see handleMpvMessage)
+const OBSERVED_PROPERTIES = [
+  'time-pos', 'duration', 'pause', 'volume', 'video-out-params', 'track-list', 'speed',
+  'audio-delay', 'sub-delay', 'filename', 'aid', 'sid', 'mute', 'path', 'chapter-list', 'chapter',
+  'ab-loop-a', 'ab-loop-b', 'audio-device-list', 'audio-device'
+]
+
 function connectToMpvSocket(uiSender: Electron.WebContents, hostWindow: BrowserWindow): void {
-  ipcSocket = net.createConnection(socketPath)
+  const socket = net.createConnection(socketPath)
+  const client = new MpvIpcClient(socket)
+  ipcSocket = socket
   
-  ipcSocket.on('connect', () => {
+  socket.on('connect', () => {
     console.log('Connected to MPV IPC socket')
+    mpvClient = client
     if (!uiSender.isDestroyed()) uiSender.send('mpv-ready')
     
-    // Observers
-    const props = ['time-pos', 'duration', 'pause', 'volume', 'track-list', 'video-out-params', 'speed', 'audio-delay', 'sub-delay', 'filename', 'aid', 'sid']
-    props.forEach((p, i) => {
-         // Use generic ID 0 for all observers or specific ones? MPV handles auto-ID if 0
-         // We'll stick to manual IDs if code relies on them?
-         // Actually current code uses 1, 2, ...
-    })
-    
-    sendCommand({ command: ['observe_property', 1, 'time-pos'] })
-    sendCommand({ command: ['observe_property', 2, 'duration'] })
-    sendCommand({ command: ['observe_property', 3, 'pause'] })
-    sendCommand({ command: ['observe_property', 4, 'volume'] })
-    sendCommand({ command: ['observe_property', 6, 'track-list'] })
-    sendCommand({ command: ['observe_property', 5, 'video-out-params'] })
-    sendCommand({ command: ['observe_property', 7, 'speed'] })
-    sendCommand({ command: ['observe_property', 8, 'audio-delay'] })
-    sendCommand({ command: ['observe_property', 9, 'sub-delay'] })
-    sendCommand({ command: ['observe_property', 10, 'filename'] })
-    sendCommand({ command: ['observe_property', 11, 'aid'] })
-    sendCommand({ command: ['observe_property', 12, 'sid'] })
-    sendCommand({ command: ['observe_property', 12, 'sid'] })
-    sendCommand({ command: ['observe_property', 13, 'mute'] })
-    sendCommand({ command: ['observe_property', 14, 'path'] })
+    // Observers get unique ids from the client
+    OBSERVED_PROPERTIES.forEach(name => client.observe(name))
+
+    // Commands sent while a crashed mpv was down targeted the old state, the restore replaces them
+    if (recoverySnapshot) {
+        if (commandQueue.length > 0) console.log(`[IPC-QUEUE] Dropping ${commandQueue.length} command(s) sent during the crash`)
+        commandQueue = []
+        respawnIdle = true
+        restoreSession(recoverySnapshot, uiSender)
+        return
+    }
 
     if (commandQueue.length > 0) {
         commandQueue.forEach(cmd => sendCommand(cmd))
@@ -145,30 +183,42 @@ function connectToMpvSocket(uiSender: Electron.WebContents, hostWindow: BrowserW
     }
   })
   
-  ipcSocket.on('data', (data) => {
-    const lines = data.toString().split('\n').filter(l => l.trim())
-    lines.forEach(line => {
-      try {
-        const msg = JSON.parse(line)
-        handleMpvMessage(msg, uiSender, hostWindow)
-      } catch (e) {
-      }
-    })
-  })
+  client.on('event', (msg: MpvEvent) => handleMpvMessage(msg, uiSender, hostWindow))
   
-  ipcSocket.on('error', (err) => {
+  socket.on('error', (err) => {
     console.error('MPV socket error:', err)
+    if (mpvClient === client) mpvClient = null
+    // Stop retrying once mpv is gone or a newer connection took over
+    if (!mpvProcess || ipcSocket !== socket) return
     setTimeout(() => connectToMpvSocket(uiSender, hostWindow), 2000)
   })
 }
 
-function handleMpvMessage(msg: any, uiSender: Electron.WebContents, hostWindow: BrowserWindow): void {
+function handleMpvMessage(msg: MpvEvent, uiSender: Electron.WebContents, hostWindow: BrowserWindow): void {
   if (uiSender.isDestroyed()) return
 
+  if (msg.event === 'file-loaded' && pendingRestore) {
+      finishRestore(pendingRestore, uiSender)
+      pendingRestore = null
+  }
+
+  // Color/crop/rotation/zoom of the new file (also after a respawn)
+  if (msg.event === 'file-loaded') applyVideoAdjustments()
+
+  // While restoring, the fresh mpv reports defaults that must not overwrite the snapshot
+  if (msg.event === 'property-change' && !recoverySnapshot) {
+      recordSessionProperty(msg.name!, msg.data)
+  }
+
   if (msg.event === 'end-file') {
       console.log('MPV End File:', msg)
       if (msg.reason === 'error') {
           uiSender.send('mpv-error', 'Failed to load file')
+          // The file we were restoring is gone, stop waiting for it
+          if (pendingRestore) {
+              pendingRestore = null
+              recoverySnapshot = null
+          }
       }
       // Emit file-ended for playlist auto-advance (eof = natural end)
       if (msg.reason === 'eof') {
@@ -176,6 +226,10 @@ function handleMpvMessage(msg: any, uiSender: Electron.WebContents, hostWindow:
       }
   }
 
+  // A respawned mpv reports its empty idle state (path null, no tracks...) before the file is reloaded,
+  // that must not reach the UI or the remote (a null path would close their streams)
+  if (msg.event === 'property-change' && respawnIdle) return
+
   if (msg.event === 'property-change') {
     switch (msg.name) {
       case 'time-pos':
@@ -188,6 +242,10 @@ function handleMpvMessage(msg: any, uiSender: Electron.WebContents, hostWindow:
         if (typeof msg.data === 'number') {
             uiSender.send('mpv-duration', msg.data)
             updatePlayerState({ duration: msg.data })
+            // Previews only for local files, ffmpeg would download a whole stream for them
+            if (msg.data > 0 && loadedPath && !/^[a-z]+:\/\//i.test(loadedPath) && getCurrentFile() === loadedPath) {
+              startThumbnails(loadedPath, msg.data, uiSender)
+            }
         }
         break
       case 'pause':
@@ -219,20 +277,70 @@ function handleMpvMessage(msg: any, uiSender: Electron.WebContents, hostWindow:
         break
       case 'aid':
       case 'sid':
-          // Refresh track list
-          sendCommand({ command: ['get_property', 'track-list'] })
+          // Refresh track list (selection flags changed)
+          getProperty<any[]>('track-list').then(tracks => {
+            if (Array.isArray(tracks)) {
+              handleTrackListChange(tracks, uiSender)
+              updatePlayerState({ tracks })
+            }
+          }).catch(err => console.error('[MPV] Track list refresh failed:', err.message))
           break
       case 'video-out-params':
         if (msg.data && msg.data.w && msg.data.h) {
           resizeWindowToVideo(hostWindow, msg.data.w, msg.data.h)
         }
         break
+      case 'chapter-list': {
+        // mpv gives untitled chapters an empty/missing title
+        const chapters: ChapterInfo[] = Array.isArray(msg.data)
+          ? msg.data.map((c: any, i: number) => ({ title: c.title || `Chapter ${i + 1}`, time: c.time }))
+          : []
+        uiSender.send('mpv-chapters', chapters)
+        updatePlayerState({ chapters })
+        break
+      }
+      case 'chapter': {
+        const chapter = typeof msg.data === 'number' ? msg.data : -1
+        uiSender.send('mpv-chapter', chapter)
+        updatePlayerState({ chapter })
+        break
+      }
+      case 'ab-loop-a':
+      case 'ab-loop-b':
+        // mpv reports "no" for an unset point
+        abLoop = { ...abLoop, [msg.name === 'ab-loop-a' ? 'a' : 'b']: typeof msg.data === 'number' ? msg.data : null }
+        uiSender.send('mpv-ab-loop', abLoop)
+        updatePlayerState({ abLoop })
+        break
+      case 'audio-device-list':
+        if (Array.isArray(msg.data)) handleAudioDeviceList(msg.data)
+        break
+      case 'audio-device':
+        handleAudioDeviceChange(msg.data)
+        break
       case 'filename':
         uiSender.send('mpv-filename', msg.data)
         updatePlayerState({ filename: msg.data })
         break
       case 'path':
+        if (msg.data !== loadedPath) {
+          cancelThumbnails()
+          uiSender.send('mpv-thumbnails', null)
+          // ab-loop-a/b are options in mpv and survive loadfile, a loop only makes sense for its own file
+          if (loadedPath && (abLoop.a !== null || abLoop.b !== null)) clearAbLoop()
+        }
         setCurrentFile(msg.data)
+        loadedPath = msg.data
+        // Per-file equalizer/effects (a respawned mpv also gets its chain back here)
+        if (msg.data) {
+          applyAudioFilters(msg.data, message => {
+            if (!uiSender.isDestroyed()) uiSender.send('mpv-msg', `❌ Audio filters: ${message}`)
+          })
+        }
+        if (pendingAutoSub && pendingAutoSub.filePath === msg.data) {
+          applyAutoSubtitle(pendingAutoSub.match, uiSender)
+          pendingAutoSub = null
+        }
         break
     }
   }
@@ -271,6 +379,44 @@ function resizeWindowToVideo(mainWindow: BrowserWindow, videoW: number, videoH:
   mainWindow.setSize(currentBounds.width, newHeight, true)
 }
 
+// Build seek bar previews in the background, cancelled by the 'path' observer when the file changes
+function startThumbnails(filePath: string, duration: number, uiSender: Electron.WebContents): void {
+  generateThumbnails(filePath, duration).then(set => {
+    if (!set || loadedPath !== filePath || uiSender.isDestroyed()) return
+    uiSender.send('mpv-thumbnails', toRendererThumbnails(set))
+    announceThumbnails()
+  }).catch(err => {
+    console.error('[THUMBS] Thumbnail generation failed:', err.message)
+  })
+}
+
+// Renderer loads the sheets straight from disk (webSecurity is off)
+function toRendererThumbnails(set: ThumbnailSet) {
+  const { sheets, ...layout } = set.manifest
+  return { ...layout, urls: sheets.map(sheet => pathToFileURL(join(set.dir, sheet)).href) }
+}
+
+// Look up an exact-release subtitle for a freshly opened local file (non-blocking)
+function autoLoadSubtitles(filePath: string, uiSender: Electron.WebContents): void {
+  pendingAutoSub = null
+  findAutoSubtitle(filePath).then(match => {
+    // User moved on to another file while we were searching
+    if (!match || getCurrentFile() !== filePath) return
+
+    // sub-add fails if the file is still loading, wait for the 'path' observer
+    if (loadedPath === filePath) applyAutoSubtitle(match, uiSender)
+    else pendingAutoSub = { filePath, match }
+  }).catch(err => {
+    console.error('[SUBS] Auto subtitle match failed:', err)
+  })
+}
+
+function applyAutoSubtitle(match: AutoSubtitle, uiSender: Electron.WebContents): void {
+  console.log('[SUBS] Loading auto matched subtitle:', match.path)
+  sendCommand({ command: ['sub-add', match.path, 'select'] })
+  if (!uiSender.isDestroyed()) uiSender.send('mpv-msg', `💬 Subtitles: ${LanguageNameMap[match.language]}`)
+}
+
 // Updated to take WebContents (uiSender)
 function handleTrackListChange(tracks: any[], uiSender: Electron.WebContents) {
   if (uiSender.isDestroyed()) return
@@ -283,8 +429,7 @@ function handleTrackListChange(tracks: any[], uiSender: Electron.WebContents) {
   
   if (!hasVideo) {
     console.log('Audio-only detected. Applying Custom Background...')
-    const resourcesPath = is.dev ? join(process.cwd(), 'resources') : process.resourcesPath
-    const bgPath = join(resourcesPath, 'images', 'FondoMusic-.png').replaceAll('\\', '/').replaceAll(':', '\\:')
+    const bgPath = join(getResourcesPath(), 'images', 'FondoMusic-.png').replaceAll('\\', '/').replaceAll(':', '\\:')
     
     const complexFilter = `movie='${bgPath}'[logo];[logo]scale=400:-1[small];color=c=black:s=1280x720[bg];[bg][small]overlay=(W-w)/2:(H-h)/2[vo]`
     
@@ -312,6 +457,9 @@ export function setupIpcHandlers(uiSender: Electron.WebContents, hostWindow: Bro
   ipcMain.on('mpv-load', async (_event, filePath: string) => {
     // Lazy: Init with hostWindow (WID) and uiSender (View)
     if (!mpvInitialized) {
+         // A manual load after giving up on a crash loop starts fresh
+         crashCount = 0
+         recoverySnapshot = null
          setupMpvController(hostWindow, uiSender)
     }
     
@@ -355,6 +503,7 @@ export function setupIpcHandlers(uiSender: Electron.WebContents, hostWindow: Bro
     } else {
       // Local file - set for streaming to phone
       setCurrentFile(filePath)
+      autoLoadSubtitles(filePath, uiSender)
     }
     
     sendCommand({ command: ['loadfile', filePath] })
@@ -454,6 +603,15 @@ ipcMain.on('remote-command', (_event, action: string, value: any) => {
               // Send full state using new API
               broadcastFullState()
               break;
+          case 'chapter-next': sendCommand({ command: ['add', 'chapter', 1] }); break;
+          case 'chapter-prev': sendCommand({ command: ['add', 'chapter', -1] }); break;
+          case 'chapter-goto': sendCommand({ command: ['set_property', 'chapter', value] }); break;
+          case 'ab-loop': sendCommand({ command: ['ab-loop'] }); break;
+          case 'ab-loop-clear': clearAbLoop(); break;
+          case 'bookmark-add':
+              // Bookmarks live in the renderer (per-file, like resume positions)
+              if (globalUiSender) globalUiSender.send('remote-action', { action: 'bookmark-add', value })
+              break;
           case 'loadfile':
               console.log('[MPV] Loading file from remote:', value)
               sendCommand({ command: ['loadfile', value, 'replace'] })
@@ -494,129 +652,184 @@ ipcMain.on('remote-command', (_event, action: string, value: any) => {
                   console.error('[MPV] [ERROR] globalHostWindow is NULL!')
               }
               break;
-          case 'command': sendCommand({ command: value }); break; 
+          // Track and loop buttons of the remote, ids are mpv's ('no' turns the track off)
+          case 'loop-file': sendCommand({ command: ['cycle', 'loop-file'] }); break;
+          case 'audio-track':
+              if (value === 'no' || Number.isInteger(value)) sendCommand({ command: ['set_property', 'aid', value] });
+              break;
+          case 'sub-track':
+              if (value === 'no' || Number.isInteger(value)) sendCommand({ command: ['set_property', 'sid', value] });
+              break;
+          case 'seek-percent':
+              if (typeof value === 'number' && value >= 0 && value <= 100) sendCommand({ command: ['seek', value, 'absolute-percent'] });
+              break;
           default: console.warn('[MPV] Unknown remote command:', action); break; 
       }
 })
 
-  // Shader Preset Handler
+  // Shader Preset Handler (built-in ids or user presets from the preset manager)
   ipcMain.removeAllListeners('mpv-set-shader-preset')
-  ipcMain.on('mpv-set-shader-preset', (_event, preset: string) => {
-    const resourcesPath = is.dev 
-      ? join(process.cwd(), 'resources')
-      : process.resourcesPath
-    const shadersPath = join(resourcesPath, 'shaders')
-
-    // Clear all existing shaders first
-    sendCommand({ command: ['change-list', 'glsl-shaders', 'clr', ''] })
-
-    if (preset === 'none') {
+  ipcMain.on('mpv-set-shader-preset', (_event, presetId: string) => {
+    if (presetId === 'none') {
+      session.shaderPreset = null
+      sendCommand({ command: ['change-list', 'glsl-shaders', 'clr', ''] })
+      sendCommand({ command: ['set_property', 'glsl-shader-opts', ''] })
       console.log('[SHADERS] Cleared all shaders')
       if (!uiSender.isDestroyed()) uiSender.send('mpv-msg', '🎨 Shaders: Off')
       return
     }
 
-    // Define shader chains for each preset
-    const shaderChains: Record<string, string[]> = {
-      // === ANIME PRESETS ===
-      'anime-quality': [
-        'Anime4K_Clamp_Highlights.glsl',
-        'Anime4K_Restore_CNN_VL.glsl',
-        'Anime4K_Upscale_CNN_x2_VL.glsl',
-        'Anime4K_AutoDownscalePre_x2.glsl',
-        'Anime4K_AutoDownscalePre_x4.glsl',
-        'Anime4K_Upscale_CNN_x2_M.glsl'
-      ],
-      'anime-fast': [
-        'Anime4K_Clamp_Highlights.glsl',
-        'Anime4K_Restore_CNN_M.glsl',
-        'Anime4K_Upscale_CNN_x2_M.glsl'
-      ],
-      'anime-perf': [
-        'Anime4K_Clamp_Highlights.glsl',
-        'Anime4K_Restore_CNN_S.glsl',
-        'Anime4K_Upscale_CNN_x2_S.glsl'
-      ],
-      
-      // === UNIVERSAL PRESETS ===
-      'denoise': [
-        'Anime4K_Denoise_Bilateral_Mode.glsl',
-        'Anime4K_Deblur_DoG.glsl'
-      ],
-      'sharpen': [
-        'Anime4K_Darken_HQ.glsl',
-        'Anime4K_Thin_HQ.glsl',
-        'Anime4K_Deblur_Original.glsl'
-      ],
-      'enhance': [
-        'Anime4K_Clamp_Highlights.glsl',
-        'Anime4K_Darken_HQ.glsl',
-        'Anime4K_Deblur_DoG.glsl'
-      ],
-      
-      // === MOVIE / LIVE-ACTION PRESETS ===
-      'movie-lite': [
-        'Anime4K_Denoise_Bilateral_Mean.glsl'
-      ],
-      'movie-balanced': [
-        'Anime4K_Denoise_Bilateral_Mode.glsl',
-        'Anime4K_Deblur_DoG.glsl',
-        'Anime4K_Darken_Fast.glsl'
-      ],
-      'movie-quality': [
-        'Anime4K_Clamp_Highlights.glsl',
-        'Anime4K_Denoise_Bilateral_Mode.glsl',
-        'Anime4K_Deblur_Original.glsl',
-        'Anime4K_Darken_HQ.glsl',
-        'Anime4K_Restore_CNN_M.glsl'
-      ]
-    }
-
-    const presetNames: Record<string, string> = {
-      // Universal
-      'denoise': '🌐 Denoise',
-      'sharpen': '🌐 Sharpen',
-      'enhance': '🌐 Enhance',
-      // Anime
-      'anime-quality': '🎌 Anime Quality',
-      'anime-fast': '🎌 Anime Balanced',
-      'anime-perf': '🎌 Anime Lite',
-      // Movies
-      'movie-lite': '🎬 Movie Lite',
-      'movie-balanced': '🎬 Movie Balanced',
-      'movie-quality': '🎬 Movie Quality'
+    const preset = getShaderPreset(presetId)
+    if (!preset) {
+      console.log('[SHADERS] Unknown preset:', presetId)
+      return
     }
 
-    const shaders = shaderChains[preset]
-    if (!shaders) {
-      console.log('[SHADERS] Unknown preset:', preset)
+    // Keep the current chain rather than loading half of this one
+    const missing = findMissingShaders(preset)
+    if (missing.length > 0) {
+      console.error('[SHADERS] Missing shader files:', missing)
+      if (!uiSender.isDestroyed()) uiSender.send('mpv-msg', `❌ ${preset.name}: missing ${missing.join(', ')}`)
       return
     }
 
-    // Load each shader in the chain
-    shaders.forEach(shader => {
-      const shaderPath = join(shadersPath, shader)
-      sendCommand({ command: ['change-list', 'glsl-shaders', 'append', shaderPath] })
+    session.shaderPreset = presetId
+    sendCommand({ command: ['change-list', 'glsl-shaders', 'clr', ''] })
+    preset.shaders.forEach(ref => {
+      sendCommand({ command: ['change-list', 'glsl-shaders', 'append', resolveShader(ref)] })
     })
+    sendCommand({ command: ['set_property', 'glsl-shader-opts', formatShaderOpts(preset)] })
 
-    console.log(`[SHADERS] Loaded preset: ${preset} (${shaders.length} shaders)`)
+    console.log(`[SHADERS] Loaded preset: ${preset.name} (${preset.shaders.length} shaders)`)
     if (!uiSender.isDestroyed()) {
-      uiSender.send('mpv-msg', `🎨 ${presetNames[preset] || preset}`)
+      uiSender.send('mpv-msg', `🎨 ${preset.name}`)
     }
   })
 }
 
+// ============================================================================
+// CRASH RECOVERY
+// ============================================================================
+
+function recordSessionProperty(name: string, data: any): void {
+  switch (name) {
+    case 'path': session.path = data ?? null; break
+    case 'time-pos': if (typeof data === 'number') session.time = data; break
+    case 'pause': session.paused = !!data; break
+    case 'aid': session.aid = data === false ? 'no' : data ?? null; break // mpv reports false for "no track"
+    case 'sid': session.sid = data === false ? 'no' : data ?? null; break
+    case 'volume': session.volume = data; break
+    case 'speed': session.speed = data; break
+    case 'audio-delay': session.audioDelay = data; break
+    case 'sub-delay': session.subDelay = data; break
+    case 'track-list':
+      if (Array.isArray(data)) {
+        session.externalSubs = data
+          .filter(t => t.type === 'sub' && t.external && t['external-filename'])
+          .map(t => t['external-filename'])
+      }
+      break
+  }
+}
+
+/**
+ * mpv died on its own: respawn into the same window, backing off while it keeps crashing
+ */
+function handleMpvCrash(hostWindow: BrowserWindow, uiSender: Electron.WebContents): void {
+  // Window closing takes mpv down with it, nothing to recover
+  if (hostWindow.isDestroyed() || uiSender.isDestroyed()) return
+
+  const now = Date.now()
+  crashCount = now - lastCrashAt < CRASH_WINDOW_MS ? crashCount + 1 : 1
+  lastCrashAt = now
+
+  if (crashCount > MAX_CRASHES) {
+    console.error(`[MPV] Crashed ${crashCount} times in a row, giving up`)
+    recoverySnapshot = null
+    pendingRestore = null
+    respawnIdle = false
+    uiSender.send('mpv-error', 'Player engine keeps crashing')
+    uiSender.send('mpv-msg', '❌ Player engine keeps crashing. Open the file again to retry')
+    return
+  }
+
+  // Keep the snapshot from the first crash of a loop, later ones never got to restore it
+  if (!recoverySnapshot) recoverySnapshot = { ...session, externalSubs: [...session.externalSubs] }
+
+  const delay = RESPAWN_DELAY_MS * 2 ** (crashCount - 1)
+  console.warn(`[MPV] Crash ${crashCount}/${MAX_CRASHES}, respawning in ${delay}ms`)
+  uiSender.send('mpv-msg', '⚠️ Player crashed, restoring...')
+
+  setTimeout(() => {
+    if (!hostWindow.isDestroyed() && !uiSender.isDestroyed()) setupMpvController(hostWindow, uiSender)
+  }, delay)
+}
+
+/**
+ * Re-apply global settings and reload the file, the rest happens on 'file-loaded'
+ */
+async function restoreSession(snapshot: SessionSnapshot, uiSender: Electron.WebContents): Promise<void> {
+  const globals: [string, any][] = [
+    ['volume', snapshot.volume],
+    ['speed', snapshot.speed],
+    ['audio-delay', snapshot.audioDelay],
+    ['sub-delay', snapshot.subDelay]
+  ]
+  for (const [name, value] of globals) {
+    if (value !== null) await setProperty(name, value).catch(err => console.error('[MPV] Restore failed:', name, err.message))
+  }
+  if (snapshot.shaderPreset) ipcMain.emit('mpv-set-shader-preset', null, snapshot.shaderPreset)
+
+  if (!snapshot.path) {
+    recoverySnapshot = null
+    respawnIdle = false
+    if (!uiSender.isDestroyed()) uiSender.send('mpv-msg', '♻️ Player restored')
+    return
+  }
+
+  try {
+    // Stay paused until we're back at the old position
+    await setProperty('pause', true)
+    pendingRestore = snapshot
+    respawnIdle = false
+    await mpvCommand('loadfile', snapshot.path, 'replace')
+  } catch (err: any) {
+    console.error('[MPV] Could not reload file after crash:', err.message)
+    pendingRestore = null
+    recoverySnapshot = null
+    respawnIdle = false
+  }
+}
+
+async function finishRestore(snapshot: SessionSnapshot, uiSender: Electron.WebContents): Promise<void> {
+  try {
+    if (snapshot.time > 0) await mpvCommand('seek', snapshot.time, 'absolute', 'exact')
+
+    // Subtitles added by hand (or synced/edited) aren't part of the file, add back the missing ones
+    const tracks = await getProperty<any[]>('track-list')
+    const loaded = new Set(tracks.filter(t => t.external).map(t => t['external-filename']))
+    for (const sub of snapshot.externalSubs) {
+      if (!loaded.has(sub)) await mpvCommand('sub-add', sub, 'auto')
+    }
+
+    if (snapshot.aid !== null) await setProperty('aid', snapshot.aid)
+    if (snapshot.sid !== null) await setProperty('sid', snapshot.sid)
+    await setProperty('pause', snapshot.paused)
+
+    console.log('[MPV] Session restored at', snapshot.time)
+    if (!uiSender.isDestroyed()) uiSender.send('mpv-msg', '♻️ Playback restored')
+  } catch (err: any) {
+    console.error('[MPV] Session restore incomplete:', err.message)
+  } finally {
+    recoverySnapshot = null
+  }
+}
+
 export function updateYtdl(uiSender: Electron.WebContents, silent: boolean) {
     console.log(`Checking for yt-dlp updates (Silent: ${silent})...`)
     if (!silent && !uiSender.isDestroyed()) uiSender.send('mpv-msg', '🔄 Updating engines...')
 
-    const resourcesPath = is.dev 
-      ? join(process.cwd(), 'resources')
-      : process.resourcesPath
-    const binPath = join(resourcesPath, 'bin')
-    const ytdlPath = join(binPath, 'yt-dlp.exe')
-
-    const updateProcess = spawn(ytdlPath, ['-U'])
+    const updateProcess = spawn(getYtdlPath(), ['-U'])
 
     let output = ''
 
@@ -643,9 +856,20 @@ export function updateYtdl(uiSender: Electron.WebContents, silent: boolean) {
     })
 }
 
+/**
+ * Drop both A-B points, mpv resumes normal playback
+ */
+function clearAbLoop(): void {
+  sendCommand({ command: ['set_property', 'ab-loop-a', 'no'] })
+  sendCommand({ command: ['set_property', 'ab-loop-b', 'no'] })
+}
+
 export function quitMpv(): void {
+  intentionalExit = true
   if (ipcSocket) {
     sendCommand({ command: ['quit'] })
+    mpvClient?.destroy()
+    mpvClient = null
     ipcSocket.destroy()
     ipcSocket = null
   }
@@ -655,18 +879,51 @@ export function quitMpv(): void {
   }
 }
 
+/**
+ * Fire-and-forget command, queued until mpv is connected
+ * Failures are only logged, use mpvCommand/getProperty/setProperty to act on the result
+ */
 export function sendCommand(data: Record<string, any>): void {
-  if (ipcSocket && !ipcSocket.destroyed && !ipcSocket.connecting) {
-    const json = JSON.stringify(data)
-    console.log('[IPC-SEND]', json) // Log all sent commands
-    try {
-        ipcSocket.write(json + '\n')
-    } catch(err) {
-        console.error('[IPC-FAIL] Write error:', err)
-    }
+  if (mpvClient?.connected) {
+    mpvClient.command(...data.command).catch(err => {
+      console.error('[IPC-FAIL]', err.message)
+    })
   } else {
     // Queue command if socket not ready
     console.log('[IPC-QUEUE] Socket not ready, queueing command:', data)
     commandQueue.push(data)
   }
 }
+
+/**
+ * Run an mpv command and wait for its result (rejects with MpvCommandError)
+ */
+export function mpvCommand<T = any>(...command: any[]): Promise<T> {
+  if (!mpvClient) return Promise.reject(new Error('MPV is not running'))
+  return mpvClient.command<T>(...command)
+}
+
+export function getProperty<T = any>(name: string): Promise<T> {
+  if (!mpvClient) return Promise.reject(new Error('MPV is not running'))
+  return mpvClient.get<T>(name)
+}
+
+export function setProperty(name: string, value: any): Promise<void> {
+  if (!mpvClient) return Promise.reject(new Error('MPV is not running'))
+  return mpvClient.set(name, value)
+}
+
+/**
+ * Run a command and wait for the event it triggers (start listening first, mpv can be quick)
+ */
+export async function mpvCommandAndWait(event: string, ...command: any[]): Promise<void> {
+  if (!mpvClient) throw new Error('MPV is not running')
+  const done = mpvClient.waitForEvent(event)
+  try {
+    await mpvClient.command(...command)
+  } catch (err) {
+    done.catch(() => {}) // Times out on its own, nobody waits for it anymore
+    throw err
+  }
+  await done
+}
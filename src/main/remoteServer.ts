@@ -8,12 +8,23 @@ import http from 'http'
 import { Server, Socket } from 'socket.io'
 import os from 'os'
 import dgram from 'dgram'
-import { join, extname } from 'path'
+import { join, extname, basename } from 'path'
 import { is } from '@electron-toolkit/utils'
 import { ipcMain, BrowserWindow, app as electronApp } from 'electron'
 import * as fs from 'fs'
-import { spawn, ChildProcess, exec } from 'child_process'
-import { initWatchParty, setupPartySocketHandlers } from './watchPartyServer'
+import { initWatchParty, setupPartySocketHandlers, getRoom } from './watchPartyServer'
+import { getFfmpegPath, probeMedia, type MediaProbe } from './lib/ffmpeg'
+import { isTextSubtitleTrack, isBurnableSubtitleTrack, resolveBurnInSubtitle, readTrackAsWebVtt } from './lib/subtitleTracks'
+import {
+  pairDevice, verifySession, verifyHostKey, readCookie,
+  SESSION_COOKIE, PARTY_COOKIE, SESSION_MAX_AGE_MS
+} from './lib/remoteAuth'
+import { getLibraryRoots, resolveLibraryPath } from './lib/libraryRoots'
+import { getCurrentThumbnails } from './lib/thumbnails'
+import { getRenditions } from './lib/hlsLadder'
+import { TranscodeSession, RemuxSession, type HlsSession, type HlsSource } from './lib/hlsSession'
+import { chooseStreamStrategy, type StreamStrategy } from './lib/streamStrategy'
+import { openStreamSession, getStreamSession, releaseStreamViewers, closeStreamSessions, clearStreamRoot, type StreamSession } from './lib/streamSessions'
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -27,6 +38,41 @@ export interface TrackInfo {
   selected: boolean
 }
 
+export interface ChapterInfo {
+  title: string
+  time: number // Start in seconds
+}
+
+export interface AbLoop {
+  a: number | null // Loop start in seconds
+  b: number | null // Loop end in seconds
+}
+
+export interface SubtitleTrackInfo {
+  id: number
+  title?: string
+  lang?: string
+  external: boolean
+  selected: boolean
+  url: string // WebVTT, append ?t=<seconds> when the stream starts mid-file
+}
+
+interface StreamOptions {
+  quality: number | null // Rendition height
+  audio: number | null // mpv audio track id
+  burn: number | null // mpv sub track id
+  socket: string | null // Connected socket of the client, keeps its stream open while it's paused
+}
+
+// An HLS stream decided on: how it's made and which tracks go in
+interface HlsPlan {
+  strategy: StreamStrategy
+  probe: MediaProbe | null
+  quality: number | null
+  audioTrack: any | null
+  subTrack: any | null
+}
+
 export interface PlayerState {
   // Playback
   time: number
@@ -40,6 +86,9 @@ export interface PlayerState {
   // Media Info
   filename: string
   tracks: TrackInfo[]
+  chapters: ChapterInfo[]
+  chapter: number // Index into chapters, -1 before the first one / no chapters
+  abLoop: AbLoop
   
   // Connection
   connected: boolean
@@ -59,6 +108,9 @@ const playerState: PlayerState = {
   muted: false,
   filename: 'No Media',
   tracks: [],
+  chapters: [],
+  chapter: -1,
+  abLoop: { a: null, b: null },
   connected: true,
   deviceName: 'NauticPlayer PC'
 }
@@ -74,6 +126,9 @@ let uiSenderRef: Electron.WebContents | null = null  // Reference to UI for send
 // Track Watch Party sockets (they don't count as Remote clients)
 const watchPartySocketIds = new Set<string>()
 
+// Paired devices and the app itself, the player state (file paths included) goes to these only
+const REMOTE_ROOM = 'remote'
+
 // Current file being played (for streaming)
 let currentFilePath: string | null = null
 
@@ -81,21 +136,37 @@ let currentFilePath: string | null = null
 let heartbeatInterval: NodeJS.Timeout | null = null
 const HEARTBEAT_MS = 3000 // Send state every 3 seconds
 
-// Supported video formats for browser playback (no transcoding needed)
-const BROWSER_PLAYABLE = ['.mp4', '.webm', '.ogg', '.mov']
-
 // All video formats we can transcode
 const ALL_VIDEO_FORMATS = ['.mp4', '.mkv', '.avi', '.wmv', '.flv', '.webm', '.mov', '.m4v', '.ts', '.m2ts', '.mpg', '.mpeg', '.3gp']
 
-// FFmpeg transcoding process
-let transcodeProcess: ChildProcess | null = null
+// Content types of the files an HLS session hands out
+const HLS_FILE_TYPES: Record<string, string> = {
+  '.ts': 'video/mp2t',
+  '.m4s': 'video/iso.segment',
+  '.mp4': 'video/mp4'
+}
+
+// ffprobe result for the current file, shared by the stream routes
+let currentProbe: { path: string, result: Promise<MediaProbe | null> } | null = null
+
+// Last subtitle list sent to clients (to only announce real changes)
+let lastSubtitleList = '[]'
+
+// Host's audio track id, HLS viewers following it restart their stream when it changes
+let lastHostAudio: number | null = null
+
+// Routes a Watch Party guest may use without pairing (the host's current stream only)
+const PARTY_ROUTES = /^\/(stream|stream-info|stream-transcode|subtitles)(\/|$)|^\/hls\//
+
+// Static files needed before pairing (PWA manifest, favicon)
+const PUBLIC_FILES = ['/manifest.json', '/icon.ico']
 
 // ============================================================================
 // STATE API (Used by mpvController)
 // ============================================================================
 
 /**
- * Update player state and broadcast to all connected clients
+ * Update player state and broadcast it to the remote clients (not to party guests)
  */
 export function updatePlayerState(updates: Partial<PlayerState>): void {
   // Merge updates into state
@@ -103,7 +174,48 @@ export function updatePlayerState(updates: Partial<PlayerState>): void {
   
   // Broadcast only the changed properties for efficiency
   if (io) {
-    io.emit('state-update', updates)
+    io.to(REMOTE_ROOM).emit('state-update', updates)
+  }
+
+  // Track list arrives after the file starts, tell clients when the subtitles change
+  if (updates.tracks) {
+    const subtitles = getSubtitleTracks()
+    const serialized = JSON.stringify(subtitles)
+    if (serialized !== lastSubtitleList) {
+      lastSubtitleList = serialized
+      if (io) io.emit('subtitles-available', { subtitles })
+    }
+
+    const hostAudio = pickAudioTrack(null)?.id ?? null
+    if (hostAudio !== lastHostAudio) {
+      lastHostAudio = hostAudio
+      if (io) io.emit('stream-audio-changed', { id: hostAudio })
+    }
+  }
+}
+
+/**
+ * Subtitle tracks of the current file that can be served as WebVTT
+ */
+export function getSubtitleTracks(): SubtitleTrackInfo[] {
+  return playerState.tracks
+    .filter(isTextSubtitleTrack)
+    .map((t: any) => ({
+      id: t.id,
+      title: t.title,
+      lang: t.lang,
+      external: !!t.external,
+      selected: !!t.selected,
+      url: `/subtitles/${t.id}.vtt`
+    }))
+}
+
+/**
+ * Tell remotes that seek previews for the current file can be fetched from /thumbnails
+ */
+export function announceThumbnails(): void {
+  if (io) {
+    io.to(REMOTE_ROOM).emit('thumbnails-available')
   }
 }
 
@@ -114,7 +226,7 @@ export function updatePlayerState(updates: Partial<PlayerState>): void {
 export function sendShutdownAck(): void {
   if (io) {
     console.log('[Remote] Sending shutdown ACKnowledgment to clients')
-    io.emit('shutdown-confirmed')
+    io.to(REMOTE_ROOM).emit('shutdown-confirmed')
   }
 }
 
@@ -126,11 +238,11 @@ export function getPlayerState(): PlayerState {
 }
 
 /**
- * Broadcast full state to all clients (used for sync)
+ * Broadcast full state to the remote clients (used for sync)
  */
 export function broadcastFullState(): void {
   if (io) {
-    io.emit('full-state', playerState)
+    io.to(REMOTE_ROOM).emit('full-state', playerState)
   }
 }
 
@@ -149,11 +261,8 @@ export function setCurrentFile(filePath: string | null): void {
   currentFilePath = filePath
   console.log('[Remote] Current file set to:', filePath)
   
-  // Kill any existing transcode process
-  if (transcodeProcess) {
-    transcodeProcess.kill()
-    transcodeProcess = null
-  }
+  // Stop encoding the previous file
+  closeStreamSessions(session => session.path !== filePath)
 
   // If clearing file, reset player state to empty/stopped
   if (filePath === null) {
@@ -166,25 +275,170 @@ export function setCurrentFile(filePath: string | null): void {
       })
   }
   
-  // Notify clients that streaming is available
+  // Notify clients that streaming is available (once the codecs are known)
   if (io) {
     if (filePath) {
-        const ext = extname(filePath).toLowerCase()
-        const isNativePlayable = BROWSER_PLAYABLE.includes(ext)
-        const canTranscode = ALL_VIDEO_FORMATS.includes(ext)
-        
-        io.emit('stream-available', { 
-        available: isNativePlayable || canTranscode,
-        native: isNativePlayable,
-        needsTranscode: !isNativePlayable && canTranscode,
-        filename: playerState.filename,
-        format: ext.replace('.', '').toUpperCase()
+        getStreamInfo(filePath).then(info => {
+          if (io && currentFilePath === filePath) io.to(REMOTE_ROOM).emit('stream-available', info)
         })
     } else {
         // Not available
-        io.emit('stream-available', { available: false, native: false, needsTranscode: false })
+        io.to(REMOTE_ROOM).emit('stream-available', { available: false, native: false, needsTranscode: false })
+    }
+  }
+}
+
+/**
+ * Codecs of a file, probed once (null when ffprobe isn't available or fails)
+ */
+function probeFile(path: string): Promise<MediaProbe | null> {
+  if (currentProbe?.path !== path) {
+    currentProbe = {
+      path,
+      result: probeMedia(path).catch((e: any) => {
+        console.warn('[Remote] ffprobe failed, choosing by extension:', e.message)
+        return null
+      })
     }
   }
+  return currentProbe.result
+}
+
+/**
+ * How a file is streamed with the given audio track (null for the file's first) and burned-in subtitles
+ */
+async function getStreamPlan(path: string, audioTrack: any = null, burn = false): Promise<{ strategy: StreamStrategy, probe: MediaProbe | null }> {
+  const probe = await probeFile(path)
+  const audioCodec = audioTrack && audioTrack !== getAudioTracks()[0] ? audioTrack.codec : null
+  // Subtitles can only be burned into a picture that is encoded anyway
+  const strategy = burn ? 'transcode' : chooseStreamStrategy(path, probe, audioCodec)
+  return { strategy, probe }
+}
+
+/**
+ * Audio tracks a stream can carry (external audio files aren't part of the input)
+ */
+function getAudioTracks(): any[] {
+  return playerState.tracks.filter((t: any) => t.type === 'audio' && !t.external && t['ff-index'] !== undefined)
+}
+
+/**
+ * Audio track `id`, or the host's current one
+ */
+function pickAudioTrack(id: number | null): any | null {
+  const tracks = getAudioTracks()
+  return tracks.find(t => t.id === id) || tracks.find(t => t.selected) || tracks[0] || null
+}
+
+/**
+ * What clients need to pick a player: the strategy, and the renditions of a transcode
+ */
+async function getStreamInfo(path: string) {
+  const ext = extname(path).toLowerCase()
+  const { strategy, probe } = await getStreamPlan(path, pickAudioTrack(null))
+  // Direct files are transcoded too when a client asks (its browser failed to play them)
+  const transcodes = strategy === 'transcode' || strategy === 'direct'
+
+  return {
+    available: strategy === 'direct' || ALL_VIDEO_FORMATS.includes(ext),
+    native: strategy === 'direct',
+    needsTranscode: strategy !== 'direct',
+    strategy,
+    codecs: probe ? { video: probe.video?.codec || null, audio: probe.audio?.codec || null } : null,
+    filename: playerState.filename,
+    format: ext.replace('.', '').toUpperCase(),
+    subtitles: getSubtitleTracks(),
+    // Renditions of a transcoded stream, lowest first (same order as the hls.js levels)
+    qualities: transcodes ? describeRenditions(probe) : [],
+    // Instead of following the host's audio, and for players that can't show WebVTT
+    audioTracks: getAudioTracks().map(t => ({ id: t.id, title: t.title, lang: t.lang, codec: t.codec, selected: !!t.selected })),
+    burnInSubtitles: playerState.tracks.filter(isBurnableSubtitleTrack).map((t: any) => ({ id: t.id, title: t.title, lang: t.lang }))
+  }
+}
+
+function describeRenditions(probe: MediaProbe | null) {
+  return getRenditions(probe?.video?.height || getSourceHeight())
+    .map(r => ({ height: r.height, label: r.label, bitrate: r.videoBitrate + r.audioBitrate }))
+}
+
+/**
+ * Height of the selected video track, null until mpv has reported it
+ */
+function getSourceHeight(): number | null {
+  const video = playerState.tracks.find((t: any) => t.type === 'video' && t.selected) as any
+  return video?.['demux-h'] || null
+}
+
+/**
+ * What a client asks for, track ids are mpv's (null: the host's audio track, no burned-in subtitles)
+ * `quality` keeps a single rendition of a transcode (players without level switching, e.g. Safari's native HLS)
+ */
+function readStreamOptions(query: any): StreamOptions {
+  return {
+    quality: parseInt(query.q as string) || null,
+    audio: parseInt(query.audio as string) || null,
+    burn: parseInt(query.burn as string) || null,
+    socket: typeof query.socket === 'string' && io?.sockets.sockets.has(query.socket) ? query.socket : null
+  }
+}
+
+/**
+ * Join (or start) the HLS stream of the current file, clients asking for the same rendition and tracks share one
+ */
+async function openHlsStream(options: StreamOptions): Promise<{ session: StreamSession, viewer: string, plan: HlsPlan }> {
+  if (!currentFilePath) throw new Error('No file loaded')
+  const path = currentFilePath
+
+  const audioTrack = pickAudioTrack(options.audio)
+  const subTrack = options.burn ? playerState.tracks.find((t: any) => t.type === 'sub' && t.id === options.burn) || null : null
+  if (options.burn && (!subTrack || !isBurnableSubtitleTrack(subTrack))) throw new Error('Subtitle track cannot be burned in')
+
+  const { strategy, probe } = await getStreamPlan(path, audioTrack, !!subTrack)
+  if (currentFilePath !== path) throw new Error('File changed')
+  const plan: HlsPlan = { strategy, probe, quality: options.quality, audioTrack, subTrack }
+
+  // Remuxes have a single rendition, only transcodes are told apart by quality
+  const remux = strategy === 'remux' || strategy === 'audio'
+  const key = [
+    remux ? strategy : `transcode:${options.quality || 'all'}`,
+    `audio:${audioTrack?.id ?? '-'}`,
+    `burn:${subTrack?.id ?? '-'}`,
+    path
+  ].join('|')
+  const opened = openStreamSession(key, path, dir => createHlsSession(path, plan, dir), options.socket)
+  await opened.session.ready
+  return { ...opened, plan }
+}
+
+/**
+ * HLS session behind a /hls/<session>/<viewer>/... request
+ */
+function findHlsSession(id: string, viewer: string): Promise<HlsSession> {
+  const session = getStreamSession(id, viewer)
+  if (!session) return Promise.reject(new Error('Stream session closed'))
+  return session.ready
+}
+
+async function createHlsSession(path: string, plan: HlsPlan, dir: string): Promise<HlsSession> {
+  const { strategy, probe, audioTrack, subTrack } = plan
+  const duration = probe?.duration || playerState.duration
+  if (!(duration > 0)) throw new Error('Duration not known yet')
+
+  const video = playerState.tracks.find((t: any) => t.type === 'video' && t.selected) as any
+  const source: HlsSource = {
+    path,
+    duration,
+    width: probe?.video?.width || video?.['demux-w'] || null,
+    height: probe?.video?.height || getSourceHeight(),
+    bitrate: probe?.bitrate || null,
+    hasAudio: probe ? !!probe.audio : playerState.tracks.some((t: any) => t.type === 'audio'),
+    audioStream: audioTrack ? audioTrack['ff-index'] : null,
+    subtitle: subTrack ? await resolveBurnInSubtitle(subTrack, path) : null
+  }
+
+  console.log('[Remote] Stream strategy for', basename(path) + ':', strategy, subTrack ? `(burning in subtitle ${subTrack.id})` : '')
+  if (strategy === 'remux' || strategy === 'audio') return new RemuxSession(source, strategy === 'remux', dir)
+  return new TranscodeSession(source, getRenditions(source.height, plan.quality), dir)
 }
 
 /**
@@ -264,6 +518,8 @@ function setupSocketHandlers(socket: Socket, uiSender: Electron.WebContents): vo
     uiSender.send('remote-client-connected', { count: connectedClients })
   }
   
+  socket.join(REMOTE_ROOM)
+
   // Send full state immediately on connection
   socket.emit('full-state', playerState)
   socket.emit('status', { connected: true, deviceName: playerState.deviceName })
@@ -278,9 +534,20 @@ function setupSocketHandlers(socket: Socket, uiSender: Electron.WebContents): vo
   })
   
   // Handle commands from mobile
-  socket.on('cmd', (data: { action: string; value?: any }) => {
+  socket.on('cmd', async (data: { action: string; value?: any }) => {
     console.log('[Remote] Command:', data)
     const { action, value } = data
+
+    // The remote may only start files from the library roots
+    if (action === 'loadfile') {
+      const resolved = await resolveLibraryPath(value)
+      if (!resolved) {
+        socket.emit('command-error', { action, error: 'File is outside the library' })
+        return
+      }
+      ipcMain.emit('remote-command', null, action, resolved.path)
+      return
+    }
     
     // Forward to MPV via internal IPC
     ipcMain.emit('remote-command', null, action, value)
@@ -344,6 +611,45 @@ function setupSocketHandlers(socket: Socket, uiSender: Electron.WebContents): vo
   })
 }
 
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+type RequestAccess = 'device' | 'party' | null
+
+/**
+ * What a request may reach: everything for paired devices, the stream for party guests
+ */
+function getRequestAccess(req: express.Request): RequestAccess {
+  if (verifySession(readCookie(req.headers.cookie, SESSION_COOKIE))) return 'device'
+  const partyRoom = readCookie(req.headers.cookie, PARTY_COOKIE)
+  if (partyRoom && getRoom(partyRoom)) return 'party'
+  return null
+}
+
+/**
+ * Minimal page for pairing results and unpaired visitors
+ */
+function renderNoticePage(title: string, message: string): string {
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Nautic Remote</title></head>
+<body style="margin:0;min-height:100vh;display:grid;place-items:center;background:#0f0f0f;color:#fff;font-family:system-ui,sans-serif;text-align:center">
+<div style="max-width:320px;padding:24px"><h2 style="margin:0 0 8px;font-size:18px">${title}</h2>
+<p style="margin:0;font-size:14px;color:rgba(255,255,255,0.6)">${message}</p></div></body></html>`
+}
+
+/**
+ * Disconnect every socket opened with a revoked device's session
+ */
+export function disconnectRemoteDevice(deviceId: string): void {
+  io?.sockets.sockets.forEach(socket => {
+    if (socket.data.deviceId === deviceId) {
+      socket.emit('device-revoked')
+      socket.disconnect(true)
+    }
+  })
+}
+
 // ============================================================================
 // SERVER LIFECYCLE
 // ============================================================================
@@ -356,6 +662,9 @@ export function startRemoteServer(uiSender: Electron.WebContents, _mpvWindow: Br
   // Store reference to uiSender for use in markSocketAsWatchParty
   uiSenderRef = uiSender
 
+  // HLS output a previous run didn't get to remove (crash, killed process)
+  clearStreamRoot()
+
   app = express()
   server = http.createServer(app)
   
@@ -382,7 +691,7 @@ export function startRemoteServer(uiSender: Electron.WebContents, _mpvWindow: Br
   ipcMain.on('sync-resume-state', (_event, state) => {
       // Broadcast to mobile clients
       if (io) {
-        io.emit('resume-prompt', state)
+        io.to(REMOTE_ROOM).emit('resume-prompt', state)
       }
   })
 
@@ -391,14 +700,55 @@ export function startRemoteServer(uiSender: Electron.WebContents, _mpvWindow: Br
     ? join(process.cwd(), 'resources', 'remote')
     : join(process.resourcesPath, 'remote')
   
-  app.use(express.static(resourcesPath))
+  // Pair a device - the RemoteModal QR points here with a one-time token
+  app.get('/pair', (req, res) => {
+    const result = pairDevice(String(req.query.token || ''), req.get('user-agent'))
+    if (!result) {
+      return res.status(403).send(renderNoticePage('Pairing code expired', 'Open Nautic Remote in NauticPlayer and scan the QR code again.'))
+    }
+
+    res.cookie(SESSION_COOKIE, result.session, { httpOnly: true, sameSite: 'lax', maxAge: SESSION_MAX_AGE_MS })
+    if (!uiSender.isDestroyed()) {
+      uiSender.send('remote-devices-changed')
+    }
+    res.redirect('/')
+  })
 
   // Handle Room IDs (e.g. /NP-ABCD-1234) - Serve dedicated Watch Party page
   // This is separate from the Remote Control page (index.html)
-  app.get(/^\/NP-[A-Z0-9-]+$/, (_req, res) => {
+  // Opening the page of a live party grants its stream (party cookie), nothing else
+  app.get(/^\/NP-[A-Z0-9-]+$/, (req, res) => {
+    const roomId = req.path.slice(1)
+    if (getRoom(roomId)) {
+      res.cookie(PARTY_COOKIE, roomId, { httpOnly: true, sameSite: 'lax' })
+    }
     res.sendFile(join(resourcesPath, 'party.html'))
   })
 
+  // Everything below requires a paired device or, for the stream routes, a live party
+  app.use((req, res, next) => {
+    // Desktop guests (MPV) can't keep cookies, they prefix stream URLs with /party/<roomId>
+    const partyPath = req.path.match(/^\/party\/(NP-[A-Z0-9-]+)(\/.*)$/)
+    if (partyPath) {
+      if (!getRoom(partyPath[1]) || !PARTY_ROUTES.test(partyPath[2])) {
+        return res.status(404).json({ error: 'Party not found' })
+      }
+      req.url = req.url.slice(`/party/${partyPath[1]}`.length)
+      return next()
+    }
+
+    const access = getRequestAccess(req)
+    if (access === 'device' || PUBLIC_FILES.includes(req.path)) return next()
+    if (access === 'party' && PARTY_ROUTES.test(req.path)) return next()
+
+    if (req.method === 'GET' && (req.path === '/' || req.path === '/index.html')) {
+      return res.status(401).send(renderNoticePage('Not paired', 'Open Nautic Remote in NauticPlayer and scan the QR code with this device.'))
+    }
+    res.status(401).json({ error: 'Device not paired' })
+  })
+
+  app.use(express.static(resourcesPath))
+
   // Root route
   app.get('/', (_req, res) => {
     res.sendFile(join(resourcesPath, 'index.html'))
@@ -409,37 +759,65 @@ export function startRemoteServer(uiSender: Electron.WebContents, _mpvWindow: Br
   // ============================================
   
   // Get stream info
-  app.get('/stream-info', (_req, res) => {
+  app.get('/stream-info', async (_req, res) => {
     if (!currentFilePath || !fs.existsSync(currentFilePath)) {
       return res.status(404).json({ error: 'No file loaded', available: false })
     }
     
-    const ext = extname(currentFilePath).toLowerCase()
-    const isNativePlayable = BROWSER_PLAYABLE.includes(ext)
-    const canTranscode = ALL_VIDEO_FORMATS.includes(ext)
     const stat = fs.statSync(currentFilePath)
+    const info = await getStreamInfo(currentFilePath)
     
     res.json({
-      available: isNativePlayable || canTranscode,
-      native: isNativePlayable,
-      needsTranscode: !isNativePlayable && canTranscode,
-      filename: playerState.filename,
-      format: ext.replace('.', '').toUpperCase(),
+      ...info,
       size: stat.size,
       duration: playerState.duration,
       currentTime: playerState.time,
       paused: playerState.paused
     })
   })
+
+  // List subtitle tracks of the current file
+  app.get('/subtitles', (_req, res) => {
+    res.set('Access-Control-Allow-Origin', '*')
+    res.json({ subtitles: currentFilePath ? getSubtitleTracks() : [] })
+  })
+
+  // Serve a subtitle track as WebVTT (embedded tracks are extracted with FFmpeg on first request)
+  // ?t=<seconds> shifts the cues for transcoded streams that start mid-file
+  app.get('/subtitles/:id.vtt', async (req, res) => {
+    if (!currentFilePath || !fs.existsSync(currentFilePath)) {
+      return res.status(404).send('No file loaded')
+    }
+
+    const track = playerState.tracks.find((t: any) => t.type === 'sub' && String(t.id) === req.params.id)
+    if (!track || !isTextSubtitleTrack(track)) {
+      return res.status(404).send('Subtitle track not found')
+    }
+
+    try {
+      const shift = parseFloat(req.query.t as string) || 0
+      const vtt = await readTrackAsWebVtt(track, currentFilePath, shift)
+      res.set({
+        'Content-Type': 'text/vtt; charset=utf-8',
+        'Access-Control-Allow-Origin': '*',
+        'Cache-Control': 'no-cache'
+      })
+      res.send(vtt)
+    } catch (e: any) {
+      console.error('[Remote] Subtitle extraction failed:', e.message)
+      res.status(500).send('Could not read subtitle track')
+    }
+  })
   
   // Stream video file with range request support
-  app.get('/stream', (req, res) => {
+  app.get('/stream', async (req, res) => {
     if (!currentFilePath || !fs.existsSync(currentFilePath)) {
       return res.status(404).send('No file loaded')
     }
     
     const ext = extname(currentFilePath).toLowerCase()
-    if (!BROWSER_PLAYABLE.includes(ext)) {
+    const { strategy } = await getStreamPlan(currentFilePath)
+    if (strategy !== 'direct' || !currentFilePath) {
       return res.status(415).send('Format not supported for browser playback')
     }
     
@@ -488,133 +866,110 @@ export function startRemoteServer(uiSender: Electron.WebContents, _mpvWindow: Br
   })
   
   // Stream video with FFmpeg transcoding for non-native formats
-  app.get('/stream-transcode', (req, res) => {
+  // The playlist covers the whole file right away, ?t=<seconds> is only echoed back as the position to start playing at
+  app.get('/stream-transcode', async (req, res) => {
     if (!currentFilePath || !fs.existsSync(currentFilePath)) {
       return res.status(404).send('No file loaded')
     }
-    
-    // Clean up any existing transcode process
-    if (transcodeProcess) {
-      transcodeProcess.kill()
-      transcodeProcess = null
-    }
-
-    // Ensure HLS directory exists and is empty
-    const hlsDir = join(electronApp.getPath('userData'), 'hls-stream')
-    if (fs.existsSync(hlsDir)) {
-      // Clean up old files, but skip files that are busy (in use)
-      fs.readdirSync(hlsDir).forEach(f => {
-        try {
-          fs.unlinkSync(join(hlsDir, f))
-        } catch (e: any) {
-          // Ignore EBUSY errors - file is still being used, will be cleaned up later
-          if (e.code !== 'EBUSY') {
-            console.warn('[Remote] Could not delete:', f, e.code)
-          }
-        }
-      })
-    } else {
-      fs.mkdirSync(hlsDir, { recursive: true })
-    }
 
     // Get FFmpeg path
-    const ffmpegPath = is.dev 
-      ? join(__dirname, '../../resources/bin/ffmpeg.exe')
-      : join(process.resourcesPath, 'bin/ffmpeg.exe')
-    
+    const ffmpegPath = getFfmpegPath()
+
     if (!fs.existsSync(ffmpegPath)) {
       console.error('[Remote] FFmpeg not found at:', ffmpegPath)
       return res.status(500).send('FFmpeg not available')
     }
 
-    // Get start time from query param (for seeking)
+    // ?q=<height> gets a session with that rendition only (players without level switching, e.g. Safari's native HLS)
+    // ?audio=<id> picks an audio track instead of the host's, ?burn=<id> burns a sub track into the picture
+    // ?socket=<id> keeps the stream while that socket is connected
+    let opened: { session: StreamSession, viewer: string, plan: HlsPlan }
+    try {
+      opened = await openHlsStream(readStreamOptions(req.query))
+    } catch (e: any) {
+      return res.status(503).json({ error: e.message })
+    }
+
     const startTime = parseFloat(req.query.t as string) || 0
-    
-    console.log('[Remote] Starting HLS transcode from', startTime, 'seconds')
-    console.log('[Remote] Output dir:', hlsDir)
-    
-    const playlistPath = join(hlsDir, 'playlist.m3u8')
-    const maxBitrate = 2000000 // 2Mbps cap for mobile
-    
-    // FFmpeg args for HLS streaming (Standard mobile streaming)
-    const ffmpegArgs = [
-      '-ss', startTime.toString(),       // Seek start
-      '-i', currentFilePath,             // Input
-      
-      // Video settings
-      '-c:v', 'libx264',                 // H.264
-      '-preset', 'veryfast',             // Balance speed/quality
-      '-tune', 'zerolatency',            // Low latency
-      '-profile:v', 'baseline',          // Max compatibility
-      '-level', '3.0',
-      '-pix_fmt', 'yuv420p',
-      '-vf', 'scale=-2:480',             // 480p
-      '-b:v', '1500k',
-      '-maxrate', '2000k',
-      '-bufsize', '4000k',
-      '-g', '30',                        // Keyframe every 1s
-      '-keyint_min', '30',
-      '-sc_threshold', '0',
-      
-      // Audio settings
-      '-c:a', 'aac',
-      '-b:a', '128k',
-      '-ac', '2',
-      '-ar', '44100',
-      
-      // HLS settings - optimized for Watch Party seeking
-      '-f', 'hls',
-      '-hls_time', '2',                  // 2 second segments for more precise seeking
-      '-hls_list_size', '0',             // Keep ALL segments in playlist (enables full seeking)
-      '-hls_flags', 'split_by_time+append_list', // Don't delete old segments, allow seeking back
-      '-hls_segment_filename', join(hlsDir, 'segment_%03d.ts'),
-      playlistPath
-    ]
-    
-    console.log('[Remote] FFmpeg args:', ffmpegArgs.join(' '))
-    
-    transcodeProcess = spawn(ffmpegPath, ffmpegArgs)
-    
-    transcodeProcess.stderr?.on('data', (data) => {
-      const msg = data.toString()
-      // console.log('[FFmpeg]', msg) // Optional: too verbose
-    })
-    
-    transcodeProcess.on('close', (code) => {
-      console.log('[Remote] FFmpeg process closed with code:', code)
-      transcodeProcess = null
+    const { strategy, probe, audioTrack, subTrack } = opened.plan
+    const remux = strategy === 'remux' || strategy === 'audio'
+
+    res.json({
+      url: `/hls/${opened.session.id}/${opened.viewer}/master.m3u8`,
+      start: startTime,
+      ready: true,
+      strategy: remux ? strategy : 'transcode',
+      // Renditions to pick from, lowest first (same order as the hls.js levels)
+      qualities: remux ? [] : describeRenditions(probe),
+      audio: audioTrack?.id ?? null,
+      burn: subTrack?.id ?? null
     })
+  })
 
-    // Wait for playlist to be created before responding
-    let checks = 0
-    const checkPlaylist = setInterval(() => {
-      if (fs.existsSync(playlistPath)) {
-        clearInterval(checkPlaylist)
-        res.json({ 
-          url: '/hls/playlist.m3u8',
-          ready: true 
-        })
-      } else {
-        checks++
-        if (checks > 20) { // Timeout after 10s
-          clearInterval(checkPlaylist)
-          if (transcodeProcess) transcodeProcess.kill()
-          res.status(500).json({ error: 'Transcoding timeout' })
-        }
-      }
-    }, 500)
-    
-    // Clean up on client disconnect is tricky with HLS because client polling
-    // We rely on "new file loaded" or "stop" command to kill process
+  // Fixed entry point for players that get a plain URL (MPV guests), the variants point into a new viewer's session
+  app.get('/hls/master.m3u8', async (req, res) => {
+    let playlist: string
+    try {
+      const { session, viewer } = await openHlsStream(readStreamOptions(req.query))
+      playlist = (await session.ready).masterPlaylist(`${session.id}/${viewer}/`)
+    } catch (e: any) {
+      return res.status(404).send(e.message)
+    }
+    res.set({ 'Content-Type': 'application/vnd.apple.mpegurl', 'Cache-Control': 'no-cache' })
+    res.send(playlist)
   })
 
+  // HLS playlists are generated, segments come from the encoders
+  app.get('/hls/:session/:viewer/master.m3u8', async (req, res) => {
+    try {
+      const playlist = (await findHlsSession(req.params.session, req.params.viewer)).masterPlaylist()
+      res.set({ 'Content-Type': 'application/vnd.apple.mpegurl', 'Cache-Control': 'no-cache' })
+      res.send(playlist)
+    } catch (e: any) {
+      res.status(404).send(e.message)
+    }
+  })
 
-  // Serve HLS files
-  app.use('/hls', (req, res, next) => {
-    const hlsDir = join(electronApp.getPath('userData'), 'hls-stream')
-    // Check if cleaning up? No, express static handles serving
-    next()
-  }, express.static(join(electronApp.getPath('userData'), 'hls-stream')))
+  app.get('/hls/:session/:viewer/:level/playlist.m3u8', async (req, res) => {
+    try {
+      const playlist = await (await findHlsSession(req.params.session, req.params.viewer)).mediaPlaylist(Number(req.params.level))
+      res.set({ 'Content-Type': 'application/vnd.apple.mpegurl', 'Cache-Control': 'no-cache' })
+      res.send(playlist)
+    } catch (e: any) {
+      res.status(404).send(e.message)
+    }
+  })
+
+  // Transcodes serve segment_<n>.ts, remuxes init.mp4 and segment_<n>.m4s
+  app.get('/hls/:session/:viewer/:level/:file', async (req, res) => {
+    try {
+      const path = await (await findHlsSession(req.params.session, req.params.viewer)).file(Number(req.params.level), req.params.file, req.params.viewer)
+      res.set('Content-Type', HLS_FILE_TYPES[extname(path)] || 'application/octet-stream')
+      res.sendFile(path)
+    } catch (e: any) {
+      console.warn('[Remote] HLS file', req.params.level, req.params.file, 'failed:', e.message)
+      if (!res.headersSent) res.status(503).send(e.message)
+    }
+  })
+
+  // Seek bar previews: sprite sheet layout, then the sheets themselves
+  app.get('/thumbnails', (_req, res) => {
+    const set = getCurrentThumbnails()
+    if (!set) {
+      return res.status(404).json({ error: 'No thumbnails' })
+    }
+    const { sheets, ...layout } = set.manifest
+    res.json({ ...layout, urls: sheets.map((_, i) => `/thumbnails/${i}.jpg`) })
+  })
+
+  app.get('/thumbnails/:index.jpg', (req, res) => {
+    const set = getCurrentThumbnails()
+    const sheet = set?.manifest.sheets[parseInt(req.params.index, 10)]
+    if (!set || !sheet) {
+      return res.status(404).end()
+    }
+    res.sendFile(join(set.dir, sheet))
+  })
 
   // API: Get Defaults (Platform Paths)
   app.get('/api/defaults', (req, res) => {
@@ -622,7 +977,8 @@ export function startRemoteServer(uiSender: Electron.WebContents, _mpvWindow: Br
         res.json({
             downloads: electronApp.getPath('downloads'),
             documents: electronApp.getPath('documents'),
-            home: electronApp.getPath('home')
+            home: electronApp.getPath('home'),
+            roots: getLibraryRoots()
         })
     } catch (e) {
         console.error('[Remote] Failed to get default paths:', e)
@@ -630,53 +986,39 @@ export function startRemoteServer(uiSender: Electron.WebContents, _mpvWindow: Br
     }
   })
 
-  // API: List Drives
-  app.get('/api/drives', (req, res) => {
-    // Use PowerShell for reliable JSON output, avoids locale parsing issues
-    const cmd = 'powershell "Get-PSDrive -PSProvider FileSystem | Select-Object Name, Description | ConvertTo-Json"'
-    exec(cmd, (error, stdout, stderr) => {
-      if (error) {
-        console.error('[Remote] Failed to list drives:', error)
-        // Fallback to basic drives if PS fails
-        return res.json([
-            { name: 'C:', description: 'System Drive' },
-            { name: 'D:', description: 'Local Disk' }
-        ])
-      }
-      
-      try {
-        let drives = JSON.parse(stdout)
-        // If only one drive, PS returns an object, not array
-        if (!Array.isArray(drives)) {
-            drives = [drives]
-        }
-        res.json(drives.map((d: { Name: string; Description: any }) => ({
-            name: d.Name + ':', // PS returns "C", we want "C:"
-            description: d.Description || 'Local Disk'
-        })))
-      } catch (e) {
-        console.error('[Remote] Failed to parse drive headers:', e)
-        res.status(500).json({ error: 'Failed to parse drives' })
-      }
-    })
+  // API: List Library Roots (the only folders the remote may browse)
+  app.get('/api/roots', (req, res) => {
+    res.json(getLibraryRoots()
+      .filter(root => fs.existsSync(root))
+      .map(root => ({
+        name: basename(root) || root,
+        description: root,
+        path: root
+      })))
   })
 
   // API: List Files
-  app.get('/api/files', (req, res) => {
-    const dirPath = req.query.path as string
+  app.get('/api/files', async (req, res) => {
+    const requested = req.query.path as string
     
-    if (!dirPath) {
+    if (!requested) {
       return res.status(400).json({ error: 'Path is required' })
     }
 
-    // Security check? For now, we allow full access as it's a remote admin tool
+    // Resolved through realpath, so '..', symlinks and junctions can't leave the library
+    const resolved = await resolveLibraryPath(requested)
+    if (!resolved) {
+      return res.status(403).json({ error: 'Path is outside the library' })
+    }
+    const dirPath = resolved.path
     
     try {
-      if (!fs.existsSync(dirPath)) {
-        return res.status(404).json({ error: 'Path not found' })
+      if (!fs.statSync(dirPath).isDirectory()) {
+        return res.status(400).json({ error: 'Not a folder' })
       }
 
-      const parent = join(dirPath, '..')
+      // No way up from a root, the client shows the root list instead
+      const parent = dirPath === resolved.root ? null : join(dirPath, '..')
       const items = fs.readdirSync(dirPath, { withFileTypes: true })
         .map(dirent => {
           // Skip hidden/system files if starts with . or $
@@ -699,7 +1041,7 @@ export function startRemoteServer(uiSender: Electron.WebContents, _mpvWindow: Br
         
       res.json({
         path: dirPath,
-        parent: parent === dirPath ? null : parent,
+        parent,
         items
       })
     } catch (e) {
@@ -709,9 +1051,42 @@ export function startRemoteServer(uiSender: Electron.WebContents, _mpvWindow: Br
   })
 
 
+  // Socket.io authentication: paired device, the app itself (host key) or a guest of a live party
+  io.use((socket, next) => {
+    const { auth, headers } = socket.handshake
+
+    const device = verifySession(readCookie(headers.cookie, SESSION_COOKIE))
+    if (device) {
+      socket.data.deviceId = device.id
+      return next()
+    }
+    if (verifyHostKey(auth?.hostKey)) return next()
+
+    const roomId = auth?.roomId || readCookie(headers.cookie, PARTY_COOKIE)
+    if (typeof roomId === 'string' && getRoom(roomId)) {
+      socket.data.partyOnly = true
+      return next()
+    }
+
+    next(new Error('Device not paired'))
+  })
+
   // Socket.io connection handler
   io.on('connection', async (socket) => {
-    setupSocketHandlers(socket, uiSender)
+    // Streams opened for this socket time out normally once it's gone
+    socket.on('disconnect', () => releaseStreamViewers(socket.id))
+
+    if (socket.data.partyOnly) {
+      // Party guests get the party channel only: no remote commands, no hosting
+      watchPartySocketIds.add(socket.id)
+      socket.on('disconnect', () => watchPartySocketIds.delete(socket.id))
+      socket.use(([event], next) => {
+        if (event === 'party:create') return next(new Error('Not allowed'))
+        next()
+      })
+    } else {
+      setupSocketHandlers(socket, uiSender)
+    }
     
     // Setup Watch Party handlers
     const ips = await resolveBestIps()
@@ -725,7 +1100,7 @@ export function startRemoteServer(uiSender: Electron.WebContents, _mpvWindow: Br
     if (io && connectedClients > 0) {
       // Only send time updates during playback for smooth seek bar
       if (!playerState.paused && playerState.duration > 0) {
-        io.emit('state-update', { time: playerState.time })
+        io.to(REMOTE_ROOM).emit('state-update', { time: playerState.time })
       }
     }
   }, HEARTBEAT_MS)
@@ -771,6 +1146,9 @@ export function stopRemoteServer(): void {
     server.close()
     server = null
   }
+  // Encoders are stopped and their output removed, leftovers of a crash go too
+  closeStreamSessions()
+  clearStreamRoot()
   app = null
   connectedClients = 0
 }
@@ -0,0 +1,149 @@
+import { ipcMain, BrowserWindow, dialog, shell, clipboard, nativeImage } from 'electron'
+import { promises as fsp } from 'fs'
+import { basename, extname } from 'path'
+import { pathToFileURL } from 'url'
+import { mpvCommand, mpvCommandAndWait, getProperty, setProperty } from './mpvController'
+import { getCurrentFile } from './remoteServer'
+import { getScreenshotSettings, saveScreenshotSettings, expandTemplate, uniquePath, addScreenshotRecord, listScreenshots, type ScreenshotSettings, type ScreenshotRecord } from './lib/screenshots'
+
+let handlersRegistered = false
+let burstRunning = false
+
+// Title for the file name: file name for local videos, mpv's media-title for streams
+async function getCaptureTitle(source: string): Promise<string> {
+    if (!/^[a-z]+:\/\//i.test(source)) return basename(source, extname(source))
+    return getProperty<string>('media-title').catch(() => 'stream')
+}
+
+// Duration of one frame, for stepping with exact seeks (frame-step gives no event to wait for)
+async function getFrameDuration(): Promise<number> {
+    const fps = await getProperty<number>('container-fps').catch(() => null)
+        || await getProperty<number>('estimated-vf-fps').catch(() => null)
+    return 1 / (fps && fps > 0 ? fps : 24)
+}
+
+/**
+ * Save the current frame according to the screenshot settings
+ */
+async function capture(settings: ScreenshotSettings): Promise<ScreenshotRecord> {
+    const source = getCurrentFile()
+    if (!source) throw new Error('Nothing is playing')
+
+    const [time, frame, title] = await Promise.all([
+        getProperty<number>('time-pos').catch(() => 0),
+        getProperty<number>('estimated-frame-number').catch(() => null),
+        getCaptureTitle(source)
+    ])
+
+    if (settings.format === 'jpg') await setProperty('screenshot-jpeg-quality', settings.quality)
+    if (settings.format === 'webp') await setProperty('screenshot-webp-quality', settings.quality)
+
+    await fsp.mkdir(settings.folder, { recursive: true })
+    const target = uniquePath(settings.folder, expandTemplate(settings.template, { title, time, frame, date: new Date() }), settings.format)
+
+    // mpv picks the encoder from the extension
+    await mpvCommand('screenshot-to-file', target, settings.subtitles ? 'subtitles' : 'video')
+
+    const record: ScreenshotRecord = { path: target, source, time, frame, createdAt: Date.now() }
+    addScreenshotRecord(record)
+    return record
+}
+
+export function setupScreenshotController(mainWindow: BrowserWindow): void {
+    // Only register handlers once to avoid "second handler" error
+    if (handlersRegistered) return
+    handlersRegistered = true
+
+    const send = (channel: string, ...args: any[]) => {
+        if (!mainWindow.isDestroyed()) mainWindow.webContents.send(channel, ...args)
+    }
+
+    const captureAndNotify = async (): Promise<ScreenshotRecord | null> => {
+        try {
+            const record = await capture(getScreenshotSettings())
+            send('screenshot-taken', record)
+            return record
+        } catch (e: any) {
+            console.error('[SCREENSHOT] Capture failed:', e)
+            send('mpv-msg', `❌ Screenshot failed: ${e.message}`)
+            return null
+        }
+    }
+
+    ipcMain.handle('get-screenshot-settings', () => getScreenshotSettings())
+
+    ipcMain.handle('set-screenshot-settings', (_event, changes: Partial<ScreenshotSettings>) => saveScreenshotSettings(changes))
+
+    ipcMain.handle('choose-screenshot-folder', async () => {
+        const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+            title: 'Screenshot Folder',
+            defaultPath: getScreenshotSettings().folder,
+            properties: ['openDirectory', 'createDirectory']
+        })
+        if (canceled || filePaths.length === 0) return getScreenshotSettings()
+        return saveScreenshotSettings({ folder: filePaths[0] })
+    })
+
+    ipcMain.handle('screenshot-take', async () => {
+        const record = await captureAndNotify()
+        if (record) send('mpv-msg', `📸 ${basename(record.path)}`)
+        return record
+    })
+
+    // Step one frame (1 = forward, -1 = back) while paused and capture it
+    ipcMain.handle('screenshot-frame-step', async (_event, direction: number) => {
+        try {
+            await setProperty('pause', true)
+            const step = await getFrameDuration()
+            await mpvCommandAndWait('playback-restart', 'seek', direction < 0 ? -step : step, 'relative+exact')
+        } catch (e: any) {
+            console.error('[SCREENSHOT] Frame step failed:', e)
+            send('mpv-msg', `❌ Frame step failed: ${e.message}`)
+            return null
+        }
+        return captureAndNotify()
+    })
+
+    // A series of captures: consecutive frames, or one every `burstInterval` seconds
+    ipcMain.handle('screenshot-burst', async () => {
+        if (burstRunning) return []
+        burstRunning = true
+        const settings = getScreenshotSettings()
+        const records: ScreenshotRecord[] = []
+
+        try {
+            await setProperty('pause', true)
+            const step = settings.burstInterval > 0 ? settings.burstInterval : await getFrameDuration()
+
+            for (let i = 0; i < settings.burstCount; i++) {
+                if (i > 0) await mpvCommandAndWait('playback-restart', 'seek', step, 'relative+exact')
+                const record = await capture(settings)
+                records.push(record)
+                send('screenshot-taken', record)
+            }
+            send('mpv-msg', `📸 Burst: ${records.length} screenshots`)
+        } catch (e: any) {
+            console.error('[SCREENSHOT] Burst failed:', e)
+            send('mpv-msg', `❌ Burst stopped after ${records.length} screenshots: ${e.message}`)
+        } finally {
+            burstRunning = false
+        }
+        return records
+    })
+
+    // Gallery of the file that is playing, the renderer loads images straight from disk (webSecurity is off)
+    ipcMain.handle('get-screenshots', () => {
+        const source = getCurrentFile()
+        if (!source) return []
+        return listScreenshots(source).map(record => ({ ...record, url: pathToFileURL(record.path).href }))
+    })
+
+    ipcMain.on('screenshot-show-in-folder', (_event, filePath: string) => shell.showItemInFolder(filePath))
+
+    ipcMain.handle('screenshot-copy', (_event, filePath: string) => {
+        const image = nativeImage.createFromPath(filePath)
+        if (image.isEmpty()) return false // WebP isn't readable by nativeImage on every platform
+        clipboard.writeImage(image)
+        return true
+    })
+}
@@ -0,0 +1,103 @@
+import { ipcMain, dialog, app, BrowserWindow } from 'electron'
+import { promises as fsp } from 'fs'
+import { join } from 'path'
+import {
+    getShaderPresets, saveShaderPreset, deleteShaderPreset, listShaders, importShaderFiles,
+    exportShaderPresets, importShaderPresets, findMissingShaders, type ShaderRef
+} from './lib/shaderPresets'
+
+let handlersRegistered = false
+
+// Everything the preset manager shows, user presets flag the shaders that are gone
+async function getShaderPresetState() {
+    return {
+        presets: getShaderPresets().map(p => ({ ...p, missing: p.builtIn ? [] : findMissingShaders(p) })),
+        shaders: await listShaders()
+    }
+}
+
+export function setupShaderController(mainWindow: BrowserWindow): void {
+    // Only register handlers once to avoid "second handler" error
+    if (handlersRegistered) return
+    handlersRegistered = true
+
+    const send = (channel: string, ...args: any[]) => {
+        if (!mainWindow.isDestroyed()) mainWindow.webContents.send(channel, ...args)
+    }
+
+    ipcMain.handle('get-shader-presets', () => getShaderPresetState())
+
+    ipcMain.handle('save-shader-preset', async (_event, preset: { id?: string, name: string, shaders: ShaderRef[] }) => {
+        try {
+            const saved = saveShaderPreset(preset)
+            send('mpv-msg', `🎨 Preset saved: ${saved.name}`)
+            return { ...(await getShaderPresetState()), savedId: saved.id }
+        } catch (e: any) {
+            send('mpv-msg', `❌ ${e.message}`)
+            return getShaderPresetState()
+        }
+    })
+
+    ipcMain.handle('delete-shader-preset', (_event, id: string) => {
+        deleteShaderPreset(id)
+        return getShaderPresetState()
+    })
+
+    ipcMain.handle('import-shader-files', async () => {
+        const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+            title: 'Import Shaders',
+            filters: [{ name: 'mpv Shaders', extensions: ['glsl'] }],
+            properties: ['openFile', 'multiSelections']
+        })
+        if (canceled || filePaths.length === 0) return { ...(await getShaderPresetState()), imported: [] }
+
+        let imported: string[] = []
+        try {
+            imported = await importShaderFiles(filePaths)
+            send('mpv-msg', `🎨 Imported ${imported.length} shader${imported.length === 1 ? '' : 's'}`)
+        } catch (e: any) {
+            console.error('[SHADERS] Import failed:', e)
+            send('mpv-msg', `❌ ${e.message}`)
+        }
+        return { ...(await getShaderPresetState()), imported }
+    })
+
+    ipcMain.handle('export-shader-presets', async (_event, ids?: string[]) => {
+        const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+            title: 'Export Shader Presets',
+            defaultPath: join(app.getPath('documents'), 'nautic-shader-presets.json'),
+            filters: [{ name: 'JSON', extensions: ['json'] }]
+        })
+        if (canceled || !filePath) return
+
+        try {
+            await fsp.writeFile(filePath, exportShaderPresets(ids))
+            send('mpv-msg', '🎨 Shader presets exported')
+        } catch (e: any) {
+            console.error('[SHADERS] Export failed:', e)
+            send('mpv-msg', `❌ ${e.message}`)
+        }
+    })
+
+    ipcMain.handle('import-shader-presets', async () => {
+        const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+            title: 'Import Shader Presets',
+            filters: [{ name: 'JSON', extensions: ['json'] }],
+            properties: ['openFile']
+        })
+        if (canceled || filePaths.length === 0) return getShaderPresetState()
+
+        try {
+            const imported = importShaderPresets(await fsp.readFile(filePaths[0], 'utf-8'))
+            // The .glsl files aren't part of the export, say which ones still have to be imported
+            const missing = [...new Set(imported.flatMap(p => findMissingShaders(p)))]
+            send('mpv-msg', missing.length > 0
+                ? `⚠️ Imported ${imported.length} preset(s), missing shaders: ${missing.join(', ')}`
+                : `🎨 Imported ${imported.length} preset(s)`)
+        } catch (e: any) {
+            console.error('[SHADERS] Preset import failed:', e)
+            send('mpv-msg', `❌ ${e.message}`)
+        }
+        return getShaderPresetState()
+    })
+}
@@ -1,8 +1,42 @@
 import { ipcMain, BrowserWindow, shell, dialog } from 'electron'
+import { promises as fsp } from 'fs'
+import { basename, extname, dirname, join } from 'path'
 import { sendCommand } from './mpvController'
+import { getCurrentFile, getPlayerState } from './remoteServer'
+import { searchSubtitles, downloadSubtitle, getSubtitlePreferences, saveSubtitlePreferences, getAvailableLanguages, type SubtitlePreferences } from './lib/subtitleService'
+import { getProviders, setProviderEnabled } from './lib/subtitleProviders'
+import { getSubtitleFolders, addSubtitleFolder, removeSubtitleFolder } from './lib/local-subtitles'
+import { detectEncoding, decodeSubtitleBuffer, parseSubtitle, serializeSubtitle, convertSubtitle, detectFormat, SUBTITLE_ENCODINGS, type SubtitleDocument, type SubtitleFormat } from './lib/subtitleFormat'
+import { toLanguageId } from './lib/subdl-utils'
+import { resolveSubtitleFile } from './lib/subtitleTracks'
+import { loadSubtitleCues, writeSyncedSubtitle, extractSpeechActivity, findAlignment, computeTwoPointSync, cancelSync, type SyncPoint } from './lib/subtitleSync'
 
 let handlersRegistered = false
 
+// Selected subtitle track of the local file being played
+async function getActiveSubtitle(): Promise<{ videoPath: string, track: any, subtitlePath: string }> {
+    const videoPath = getCurrentFile()
+    if (!videoPath || /^[a-z]+:\/\//i.test(videoPath)) throw new Error('Open a local video file first')
+
+    const track: any = getPlayerState().tracks.find(t => t.type === 'sub' && t.selected)
+    if (!track) throw new Error('Select a subtitle track first')
+
+    return { videoPath, track, subtitlePath: await resolveSubtitleFile(track, videoPath) }
+}
+
+// Save the retimed copy and swap it in for the original track
+async function applySync(track: any, subtitlePath: string, offset: number, scale: number): Promise<void> {
+    const syncedPath = await writeSyncedSubtitle(subtitlePath, offset, scale)
+    if (track.external) sendCommand({ command: ['sub-remove', track.id] })
+    sendCommand({ command: ['sub-add', syncedPath, 'select'] })
+    sendCommand({ command: ['set_property', 'sub-delay', 0] })
+}
+
+function formatSync(offset: number, scale: number): string {
+    const shift = `${offset >= 0 ? '+' : ''}${offset.toFixed(2)}s`
+    return scale === 1 ? shift : `${shift}, drift ${((scale - 1) * 100).toFixed(2)}%`
+}
+
 export function setupSubtitleController(mainWindow: BrowserWindow): void {
     // Only register handlers once to avoid "second handler" error
     if (handlersRegistered) return
@@ -41,5 +75,164 @@ export function setupSubtitleController(mainWindow: BrowserWindow): void {
         console.log('[SUBTITLE] Loading subtitle:', filePath)
         sendCommand({ command: ['sub-add', filePath] })
     })
-}
 
+    // Search all enabled providers from the Subtitles tab
+    ipcMain.handle('search-subs', async (_event, { query, lang }: { query: string, lang?: string }) => {
+        try {
+            return await searchSubtitles(query, lang, getCurrentFile())
+        } catch (e: any) {
+            console.error('[SUBTITLE] Search failed:', e)
+            if (!mainWindow.isDestroyed()) mainWindow.webContents.send('mpv-msg', '❌ Subtitle search failed')
+            return []
+        }
+    })
+
+    // Download a search result, cache it and load it into MPV
+    ipcMain.handle('download-sub', async (_event, { url, name }: { url: string, name?: string }) => {
+        try {
+            const filePath = await downloadSubtitle(url, name)
+            sendCommand({ command: ['sub-add', filePath, 'select'] })
+            if (!mainWindow.isDestroyed()) mainWindow.webContents.send('mpv-msg', '✅ Subtitle Loaded!')
+            return filePath
+        } catch (e: any) {
+            console.error('[SUBTITLE] Download failed:', e)
+            if (!mainWindow.isDestroyed()) mainWindow.webContents.send('mpv-msg', '❌ Download Failed')
+            return null
+        }
+    })
+
+    // Provider toggles
+    ipcMain.handle('get-subtitle-providers', async () => getProviders())
+
+    ipcMain.handle('set-subtitle-provider', async (_event, { id, enabled }: { id: string, enabled: boolean }) => {
+        setProviderEnabled(id, enabled)
+        return getProviders()
+    })
+
+    // Extra folders scanned by the Local Folders provider
+    ipcMain.handle('get-subtitle-folders', async () => getSubtitleFolders())
+
+    ipcMain.handle('add-subtitle-folder', async () => {
+        const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+            title: 'Add Subtitle Folder',
+            properties: ['openDirectory']
+        })
+        if (canceled || filePaths.length === 0) return getSubtitleFolders()
+        return addSubtitleFolder(filePaths[0])
+    })
+
+    ipcMain.handle('remove-subtitle-folder', async (_event, folder: string) => removeSubtitleFolder(folder))
+
+    // Automatic matching on file open (preferred languages in priority order)
+    ipcMain.handle('get-subtitle-preferences', async () => ({
+        ...getSubtitlePreferences(),
+        available: getAvailableLanguages()
+    }))
+
+    ipcMain.handle('set-subtitle-preferences', async (_event, prefs: Partial<SubtitlePreferences>) => saveSubtitlePreferences(prefs))
+
+    // Align the selected subtitle track to the speech in the selected audio track
+    ipcMain.handle('sub-sync-auto', async (_event, { drift }: { drift?: boolean } = {}) => {
+        const toast = (msg: string) => { if (!mainWindow.isDestroyed()) mainWindow.webContents.send('mpv-msg', msg) }
+        try {
+            const { videoPath, track, subtitlePath } = await getActiveSubtitle()
+            const audio: any = getPlayerState().tracks.find(t => t.type === 'audio' && t.selected)
+
+            toast('🔊 Analyzing audio...')
+            const speech = await extractSpeechActivity(videoPath, audio?.external ? undefined : audio?.['ff-index'])
+            const result = findAlignment(await loadSubtitleCues(subtitlePath), speech, drift !== false)
+
+            await applySync(track, subtitlePath, result.offset, result.scale)
+            toast(`✅ Subtitles synced (${formatSync(result.offset, result.scale)})`)
+            return result
+        } catch (e: any) {
+            console.error('[SUBTITLE] Auto sync failed:', e)
+            toast(`❌ Sync failed: ${e.message}`)
+            return null
+        }
+    })
+
+    ipcMain.on('sub-sync-cancel', () => cancelSync())
+
+    // Cues of the selected track, for picking lines in two-point mode
+    ipcMain.handle('sub-sync-cues', async () => {
+        try {
+            const { subtitlePath } = await getActiveSubtitle()
+            return (await loadSubtitleCues(subtitlePath)).map(({ start, end, text }) => ({ start, end, text }))
+        } catch (e: any) {
+            console.error('[SUBTITLE] Could not read cues:', e)
+            if (!mainWindow.isDestroyed()) mainWindow.webContents.send('mpv-msg', `❌ ${e.message}`)
+            return null
+        }
+    })
+
+    // Retime from lines the user marked while watching
+    ipcMain.handle('sub-sync-manual', async (_event, points: SyncPoint[]) => {
+        const toast = (msg: string) => { if (!mainWindow.isDestroyed()) mainWindow.webContents.send('mpv-msg', msg) }
+        try {
+            const { offset, scale } = computeTwoPointSync(points)
+            const { track, subtitlePath } = await getActiveSubtitle()
+
+            await applySync(track, subtitlePath, offset, scale)
+            toast(`✅ Subtitles synced (${formatSync(offset, scale)})`)
+            return { offset, scale }
+        } catch (e: any) {
+            console.error('[SUBTITLE] Manual sync failed:', e)
+            toast(`❌ Sync failed: ${e.message}`)
+            return null
+        }
+    })
+
+    // Subtitle editor: load the selected track as a cue list (encoding can be forced to re-read the file)
+    ipcMain.handle('subtitle-editor-open', async (_event, { encoding }: { encoding?: string } = {}) => {
+        try {
+            const { track, subtitlePath } = await getActiveSubtitle()
+            const buffer = await fsp.readFile(subtitlePath)
+            const usedEncoding = encoding || detectEncoding(buffer, track.lang ? toLanguageId(track.lang) : undefined)
+            const text = decodeSubtitleBuffer(buffer, usedEncoding)
+
+            return {
+                path: subtitlePath,
+                encoding: usedEncoding,
+                encodings: SUBTITLE_ENCODINGS,
+                doc: parseSubtitle(text, detectFormat(text, subtitlePath))
+            }
+        } catch (e: any) {
+            console.error('[SUBTITLE] Could not open editor:', e)
+            if (!mainWindow.isDestroyed()) mainWindow.webContents.send('mpv-msg', `❌ ${e.message}`)
+            return null
+        }
+    })
+
+    // Save edited cues (always UTF-8), optionally as a new file in another format, then reload in MPV
+    ipcMain.handle('subtitle-editor-save', async (_event, { path, doc, format, saveAs }: { path: string, doc: SubtitleDocument, format?: SubtitleFormat, saveAs?: boolean }) => {
+        try {
+            const outFormat = format || doc.format
+            let target = path
+
+            if (saveAs) {
+                const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+                    title: 'Save Subtitles As',
+                    defaultPath: join(dirname(path), `${basename(path, extname(path))}.${outFormat}`),
+                    filters: [{ name: outFormat.toUpperCase(), extensions: [outFormat] }]
+                })
+                if (canceled || !filePath) return null
+                target = filePath
+            }
+
+            await fsp.writeFile(target, serializeSubtitle(convertSubtitle(doc, outFormat)), 'utf-8')
+
+            // Reload in place when the file is already loaded, otherwise add it as a new track
+            const loaded: any = getPlayerState().tracks.find((t: any) => t.type === 'sub' && t['external-filename'] === target)
+            if (loaded) sendCommand({ command: ['sub-reload', loaded.id] })
+            else sendCommand({ command: ['sub-add', target, 'select'] })
+
+            if (!mainWindow.isDestroyed()) mainWindow.webContents.send('mpv-msg', '✅ Subtitles Saved')
+            return target
+        } catch (e: any) {
+            console.error('[SUBTITLE] Save failed:', e)
+            if (!mainWindow.isDestroyed()) mainWindow.webContents.send('mpv-msg', '❌ Save Failed')
+            return null
+        }
+    })
+}
@@ -0,0 +1,182 @@
+import { ipcMain, BrowserWindow } from 'electron'
+import { mpvCommand, getProperty, setProperty } from './mpvController'
+import { getCurrentFile } from './remoteServer'
+import {
+    getVideoAdjustments, saveVideoAdjustments, setVideoAdjustmentScope, resetVideoAdjustments,
+    type VideoAdjustments, type AdjustmentScope, type CropInsets
+} from './lib/videoAdjustments'
+
+let handlersRegistered = false
+let uiWindow: BrowserWindow | null = null
+let detectingCrop = false
+
+const FLIP_LABEL = 'nautic-flip'
+const CROPDETECT_LABEL = 'nautic-cropdetect'
+const CROPDETECT_TIMEOUT_MS = 3000
+
+// Everything the Video tab shows for the current file
+function getVideoAdjustmentState() {
+    const source = getCurrentFile()
+    return {
+        ...getVideoAdjustments(source),
+        canSave: !!source,
+        canUseFolder: !!source && !/^[a-z]+:\/\//i.test(source)
+    }
+}
+
+function announceVideoAdjustments(): void {
+    if (uiWindow && !uiWindow.isDestroyed()) uiWindow.webContents.send('video-adjustments', getVideoAdjustmentState())
+}
+
+// "WxH+X+Y" in source pixels, 0x0 turns cropping off
+async function toVideoCrop(crop: CropInsets | null): Promise<string> {
+    if (!crop) return '0x0'
+    const [width, height] = await Promise.all([getProperty<number>('width'), getProperty<number>('height')])
+    if (!width || !height) return '0x0'
+
+    const x = Math.round(width * crop.left / 100)
+    const y = Math.round(height * crop.top / 100)
+    const w = Math.round(width * (100 - crop.left - crop.right) / 100)
+    const h = Math.round(height * (100 - crop.top - crop.bottom) / 100)
+    return `${w}x${h}+${x}+${y}`
+}
+
+// mpv has no flip property, hflip/vflip run as a labeled `vf` entry next to whatever else is there
+async function applyFlip(flipH: boolean, flipV: boolean): Promise<void> {
+    const graph = [flipH && 'hflip', flipV && 'vflip'].filter(Boolean).join(',')
+    const current: any[] = await getProperty<any[]>('vf').catch(() => [])
+    const existing = (current || []).find(f => f.label === FLIP_LABEL)
+
+    if ((existing?.params?.graph || '') === graph) return
+    if (existing) await mpvCommand('vf', 'remove', `@${FLIP_LABEL}`)
+    if (graph) await mpvCommand('vf', 'add', `@${FLIP_LABEL}:lavfi=[${graph}]`)
+}
+
+async function applyToMpv(adjustments: VideoAdjustments): Promise<void> {
+    const properties: [string, any][] = [
+        ['brightness', adjustments.brightness],
+        ['contrast', adjustments.contrast],
+        ['saturation', adjustments.saturation],
+        ['gamma', adjustments.gamma],
+        ['hue', adjustments.hue],
+        ['video-rotate', adjustments.rotate],
+        ['deinterlace', adjustments.deinterlace],
+        ['video-zoom', adjustments.zoom],
+        ['video-pan-x', adjustments.panX],
+        ['video-pan-y', adjustments.panY],
+        ['video-crop', await toVideoCrop(adjustments.crop)]
+    ]
+    for (const [name, value] of properties) await setProperty(name, value)
+    await applyFlip(adjustments.flipH, adjustments.flipV)
+}
+
+/**
+ * Apply the adjustments of the file mpv just loaded (they are global in mpv and would carry over otherwise)
+ */
+export async function applyVideoAdjustments(): Promise<void> {
+    try {
+        // Ask mpv, the 'path' notification can arrive after 'file-loaded'
+        const path = await getProperty<string>('path')
+        await applyToMpv(getVideoAdjustments(path).adjustments)
+    } catch (e: any) {
+        console.error('[VIDEO] Could not apply adjustments:', e.message)
+    }
+    announceVideoAdjustments()
+}
+
+/**
+ * Run cropdetect over the frames being played and turn its result into crop insets
+ */
+async function detectCrop(): Promise<CropInsets | null> {
+    if (await getProperty<boolean>('pause')) throw new Error('Play the video to detect black bars')
+
+    // First in the chain, it must measure the frames before nautic-flip mirrors them (crop insets are unflipped)
+    await mpvCommand('vf', 'pre', `@${CROPDETECT_LABEL}:lavfi=[cropdetect=limit=24/255:round=2:reset=0]`)
+    try {
+        // Let cropdetect see some frames, then take its latest estimate
+        const deadline = Date.now() + CROPDETECT_TIMEOUT_MS
+        let meta: Record<string, string> | null = null
+        await new Promise(resolve => setTimeout(resolve, 1000))
+        while (Date.now() < deadline) {
+            meta = await getProperty<Record<string, string>>(`vf-metadata/${CROPDETECT_LABEL}`).catch(() => null)
+            if (meta && meta['lavfi.cropdetect.w']) break
+            await new Promise(resolve => setTimeout(resolve, 250))
+        }
+        if (!meta || !meta['lavfi.cropdetect.w']) throw new Error('No frames analyzed')
+
+        const params = await getProperty<any>('video-params')
+        const [w, h, x, y] = ['w', 'h', 'x', 'y'].map(k => Number(meta![`lavfi.cropdetect.${k}`]))
+        const insets = {
+            top: y / params.h * 100,
+            bottom: (params.h - y - h) / params.h * 100,
+            left: x / params.w * 100,
+            right: (params.w - x - w) / params.w * 100
+        }
+        // Nothing worth cutting
+        return Object.values(insets).every(v => v < 0.5) ? null : insets
+    } finally {
+        await mpvCommand('vf', 'remove', `@${CROPDETECT_LABEL}`).catch(() => {})
+    }
+}
+
+export function setupVideoController(mainWindow: BrowserWindow): void {
+    // Only register handlers once to avoid "second handler" error
+    if (handlersRegistered) return
+    handlersRegistered = true
+    uiWindow = mainWindow
+
+    const send = (channel: string, ...args: any[]) => {
+        if (!mainWindow.isDestroyed()) mainWindow.webContents.send(channel, ...args)
+    }
+
+    const update = async (change: () => void): Promise<ReturnType<typeof getVideoAdjustmentState>> => {
+        try {
+            change()
+            await applyToMpv(getVideoAdjustments(getCurrentFile()).adjustments)
+        } catch (e: any) {
+            console.error('[VIDEO] Adjustment failed:', e)
+            send('mpv-msg', `❌ ${e.message}`)
+        }
+        announceVideoAdjustments()
+        return getVideoAdjustmentState()
+    }
+
+    ipcMain.handle('get-video-adjustments', () => getVideoAdjustmentState())
+
+    ipcMain.handle('set-video-adjustments', (_event, changes: Partial<VideoAdjustments>) => {
+        const source = getCurrentFile()
+        if (!source) return getVideoAdjustmentState()
+        return update(() => saveVideoAdjustments(source, changes))
+    })
+
+    ipcMain.handle('set-video-adjustment-scope', (_event, scope: AdjustmentScope) => {
+        const source = getCurrentFile()
+        if (!source) return getVideoAdjustmentState()
+        return update(() => setVideoAdjustmentScope(source, scope))
+    })
+
+    ipcMain.handle('reset-video-adjustments', async () => {
+        const source = getCurrentFile()
+        if (!source) return getVideoAdjustmentState()
+        const state = await update(() => resetVideoAdjustments(source))
+        send('mpv-msg', '🖼️ Video adjustments reset')
+        return state
+    })
+
+    ipcMain.handle('video-autocrop', async () => {
+        const source = getCurrentFile()
+        if (!source || detectingCrop) return getVideoAdjustmentState()
+        detectingCrop = true
+        try {
+            const crop = await detectCrop()
+            send('mpv-msg', crop ? '✂️ Black bars cropped' : '✂️ No black bars found')
+            return update(() => saveVideoAdjustments(source, { crop }))
+        } catch (e: any) {
+            console.error('[VIDEO] Crop detection failed:', e)
+            send('mpv-msg', `❌ ${e.message}`)
+            return getVideoAdjustmentState()
+        } finally {
+            detectingCrop = false
+        }
+    })
+}
@@ -466,11 +466,13 @@ export function setupPartySocketHandlers(socket: Socket, hostIp: string, port: n
       markSocketAsWatchParty(socket.id)
       
       // Build stream URLs - guest might be on LAN or Internet
-      const localStreamUrl = result.room.streamUrl // http://192.168.x.x:5678/stream
+      // Guests use /party/<roomId>/... URLs, MPV can't send the party cookie the browser page gets
+      const partyBase = `/party/${result.room.id}`
+      const localStreamUrl = result.room.localUrl ? result.room.localUrl + partyBase + '/stream' : result.room.streamUrl // http://192.168.x.x:5678/party/NP-.../stream
       
       // For Internet guests, use HLS which works better through tunnels and is more compatible
       // MPV can play HLS natively, so this works for both desktop and mobile guests
-      const tunnelHlsUrl = result.room.tunnelUrl ? result.room.tunnelUrl + '/hls/playlist.m3u8' : null
+      const tunnelHlsUrl = result.room.tunnelUrl ? result.room.tunnelUrl + partyBase + '/hls/master.m3u8' : null
       
       // Send initial sync state to guest
       socket.emit('party:sync', {
@@ -481,7 +483,8 @@ export function setupPartySocketHandlers(socket: Socket, hostIp: string, port: n
         streamUrl: localStreamUrl,           // For LAN guests (direct file access)
         publicStreamUrl: tunnelHlsUrl,       // For Internet guests (HLS via tunnel)
         hostName: result.room.hostName,
-        needsTranscode: true                 // Signal that transcoding is needed
+        needsTranscode: true,                // Signal that transcoding is needed
+        socketId: socket.id                  // Keeps the guest's stream open while this socket is connected
       })
     }
     
@@ -10,6 +10,7 @@ import { useResumePositions, formatTime } from './hooks/useResumePositions'
 import { usePlaylist } from './hooks/usePlaylist'
 import { useLocalQueue } from './hooks/useLocalQueue'
 import { useWatchParty } from './hooks/useWatchParty'
+import { useBookmarks } from './hooks/useBookmarks'
 import WatchPartyModal from './components/WatchPartyModal'
 
 const { ipcRenderer } = (window as any).require('electron')
@@ -30,6 +31,13 @@ function App(): JSX.Element {
     // Smart Resume
     const resumePositions = useResumePositions()
 
+    // Per-file bookmarks (same key as resume positions)
+    const bookmarks = useBookmarks()
+
+    // Zoom/pan of the current file (Ctrl + Wheel / Ctrl + Drag), saved per file by main
+    const videoViewRef = useRef({ zoom: 0, panX: 0, panY: 0 })
+    const zoomSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+
     const [showRemote, setShowRemote] = useState(false)
     const [remoteConnected, setRemoteConnected] = useState(false)
 
@@ -58,7 +66,7 @@ function App(): JSX.Element {
                 }
             }
         },
-        onMediaSync: async (state: { filename: string; duration: number; time: number; paused: boolean; streamUrl: string | null; publicStreamUrl?: string | null; needsTranscode?: boolean }) => {
+        onMediaSync: async (state: { filename: string; duration: number; time: number; paused: boolean; streamUrl: string | null; publicStreamUrl?: string | null; needsTranscode?: boolean; socketId?: string }) => {
             // Initial sync when joining party
             console.log('[WatchParty] Media sync received:', state)
 
@@ -71,11 +79,12 @@ function App(): JSX.Element {
 
                 try {
                     // Extract base URL from HLS URL to call transcoding endpoint
-                    const baseUrl = state.publicStreamUrl.replace('/hls/playlist.m3u8', '')
+                    const baseUrl = state.publicStreamUrl.replace('/hls/master.m3u8', '')
                     const startTime = Math.floor(state.time || 0)
 
                     // Start transcoding on host
-                    const response = await fetch(`${baseUrl}/stream-transcode?t=${startTime}`)
+                    const socket = state.socketId ? `&socket=${encodeURIComponent(state.socketId)}` : ''
+                    const response = await fetch(`${baseUrl}/stream-transcode?t=${startTime}${socket}`)
                     const data = await response.json()
 
                     if (data.ready && data.url) {
@@ -252,9 +261,14 @@ function App(): JSX.Element {
         })
 
         // Handle remote actions (e.g. resume confirmed on mobile)
-        const onRemoteAction = (_: any, data: { action: string }) => {
+        const onRemoteAction = (_: any, data: { action: string, value?: any }) => {
             if (data.action === 'resume-confirmed' || data.action === 'resume-dismissed') {
                 setResumePrompt(null)
+            } else if (data.action === 'bookmark-add' && currentFileRef.current) {
+                bookmarks.addBookmark(currentFileRef.current, currentPositionRef.current, data.value || undefined)
+                setToastMsg('Bookmark added')
+                if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current)
+                toastTimeoutRef.current = setTimeout(() => setToastMsg(''), 2000)
             }
         }
         ipcRenderer.on('remote-action', onRemoteAction)
@@ -304,7 +318,7 @@ function App(): JSX.Element {
             ipcRenderer.removeListener('remote-action', onRemoteAction)
             window.removeEventListener('beforeunload', handleBeforeUnload)
         }
-    }, [resumePositions.savePosition, resumePositions.getPosition])
+    }, [resumePositions.savePosition, resumePositions.getPosition, bookmarks.addBookmark])
 
     // Sync resume prompt with remote
     useEffect(() => {
@@ -445,7 +459,7 @@ function App(): JSX.Element {
             }
 
             // Prevent default for media keys to avoid conflicts
-            if ([' ', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'].includes(e.key)) {
+            if ([' ', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'PageUp', 'PageDown'].includes(e.key)) {
                 e.preventDefault()
             }
 
@@ -470,12 +484,15 @@ function App(): JSX.Element {
             } else if (e.key === 'm' || e.key === 'M') {
                 // M = Mute/Unmute
                 ipcRenderer.send('mpv-command', ['cycle', 'mute'])
+            } else if ((e.key === 's' || e.key === 'S') && e.shiftKey) {
+                // Shift+S = Burst Screenshots (count/interval from settings)
+                ipcRenderer.invoke('screenshot-burst')
             } else if (e.key === 's' || e.key === 'S') {
-                // S = Take Screenshot
-                ipcRenderer.send('mpv-command', ['screenshot'])
-                setToastMsg('Screenshot saved')
-                if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current)
-                toastTimeoutRef.current = setTimeout(() => setToastMsg(''), 2000)
+                // S = Take Screenshot (folder/naming from settings, main shows the toast)
+                ipcRenderer.invoke('screenshot-take')
+            } else if (e.key === ',' || e.key === '.') {
+                // , / . = Step one frame back/forward and capture it
+                ipcRenderer.invoke('screenshot-frame-step', e.key === ',' ? -1 : 1)
             } else if (e.key === 'l' || e.key === 'L') {
                 // L = Toggle Loop
                 ipcRenderer.send('mpv-command', ['cycle', 'loop-file'])
@@ -494,6 +511,27 @@ function App(): JSX.Element {
                 setToastMsg('Next subtitle')
                 if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current)
                 toastTimeoutRef.current = setTimeout(() => setToastMsg(''), 2000)
+            } else if (e.key === 'PageDown') {
+                // PageDown = Next Chapter
+                ipcRenderer.send('mpv-command', ['add', 'chapter', 1])
+                setToastMsg('Next chapter')
+                if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current)
+                toastTimeoutRef.current = setTimeout(() => setToastMsg(''), 2000)
+            } else if (e.key === 'PageUp') {
+                // PageUp = Previous Chapter
+                ipcRenderer.send('mpv-command', ['add', 'chapter', -1])
+                setToastMsg('Previous chapter')
+                if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current)
+                toastTimeoutRef.current = setTimeout(() => setToastMsg(''), 2000)
+            } else if (e.key === 'b' || e.key === 'B') {
+                // B = A-B Loop (set A, set B, clear)
+                ipcRenderer.send('mpv-command', ['ab-loop'])
+            } else if ((e.key === 'k' || e.key === 'K') && currentFileRef.current) {
+                // K = Bookmark current position
+                bookmarks.addBookmark(currentFileRef.current, currentPositionRef.current)
+                setToastMsg('Bookmark added')
+                if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current)
+                toastTimeoutRef.current = setTimeout(() => setToastMsg(''), 2000)
             } else if (e.key === 'g' || e.key === 'G') {
                 // G = Advance subtitles (increase delay) - Let MPV update state via event
                 ipcRenderer.send('mpv-adjust-sub-delay', 0.1)
@@ -515,6 +553,16 @@ function App(): JSX.Element {
 
             e.preventDefault();
 
+            // Ctrl + Wheel = Zoom the picture (saved once the wheel stops)
+            if (e.ctrlKey) {
+                const view = videoViewRef.current
+                view.zoom = Math.min(3, Math.max(-2, Math.round((view.zoom + (e.deltaY < 0 ? 0.1 : -0.1)) * 100) / 100))
+                ipcRenderer.send('mpv-command', ['set_property', 'video-zoom', view.zoom])
+                if (zoomSaveTimeoutRef.current) clearTimeout(zoomSaveTimeoutRef.current)
+                zoomSaveTimeoutRef.current = setTimeout(() => ipcRenderer.invoke('set-video-adjustments', { zoom: view.zoom }), 400)
+                return
+            }
+
             // Debounce or threshold could be useful, but mpv handles rapid volume changes well.
             if (e.deltaY < 0) {
                 // Scroll Up -> Volume Up
@@ -537,6 +585,53 @@ function App(): JSX.Element {
     // Better to use a ref for showSettings or recreate the handler.
     // Simplest is to add showSettings to dependency array.
 
+    // Ctrl + Drag = Pan the picture, follows the adjustments main applies on every file load
+    useEffect(() => {
+        const onVideoAdjustments = (_: any, state: { adjustments: { zoom: number, panX: number, panY: number } }) => {
+            const { zoom, panX, panY } = state.adjustments
+            videoViewRef.current = { zoom, panX, panY }
+        }
+        ipcRenderer.on('video-adjustments', onVideoAdjustments)
+
+        let dragStart: { x: number, y: number, panX: number, panY: number } | null = null
+
+        const onMouseDown = (e: MouseEvent) => {
+            if (!e.ctrlKey || e.button !== 0) return
+            if ((e.target as HTMLElement).closest('button, input, textarea, .custom-scroll')) return
+            e.preventDefault()
+            const { panX, panY } = videoViewRef.current
+            dragStart = { x: e.clientX, y: e.clientY, panX, panY }
+        }
+
+        const onMouseMove = (e: MouseEvent) => {
+            if (!dragStart) return
+            // Pan is a fraction of the scaled video, which is about the window size times the zoom
+            const scale = Math.pow(2, videoViewRef.current.zoom)
+            const view = videoViewRef.current
+            view.panX = Math.min(1, Math.max(-1, dragStart.panX + (e.clientX - dragStart.x) / window.innerWidth / scale))
+            view.panY = Math.min(1, Math.max(-1, dragStart.panY + (e.clientY - dragStart.y) / window.innerHeight / scale))
+            ipcRenderer.send('mpv-command', ['set_property', 'video-pan-x', view.panX])
+            ipcRenderer.send('mpv-command', ['set_property', 'video-pan-y', view.panY])
+        }
+
+        const onMouseUp = () => {
+            if (!dragStart) return
+            dragStart = null
+            const { panX, panY } = videoViewRef.current
+            ipcRenderer.invoke('set-video-adjustments', { panX, panY })
+        }
+
+        window.addEventListener('mousedown', onMouseDown)
+        window.addEventListener('mousemove', onMouseMove)
+        window.addEventListener('mouseup', onMouseUp)
+        return () => {
+            ipcRenderer.removeListener('video-adjustments', onVideoAdjustments)
+            window.removeEventListener('mousedown', onMouseDown)
+            window.removeEventListener('mousemove', onMouseMove)
+            window.removeEventListener('mouseup', onMouseUp)
+        }
+    }, [])
+
     // Placeholder for handleDragEnter
     const handleDragEnter = (e: DragEvent) => {
         e.preventDefault();
@@ -893,6 +988,7 @@ function App(): JSX.Element {
                         if (val === true) setShowRemote(false) // Close remote if settings open
                     }}
                     filename={filename}
+                    bookmarks={bookmarks}
                     onMouseEnter={() => setIsHoveringControls(true)}
                     onMouseLeave={() => setIsHoveringControls(false)}
                     isLoadingUrl={isLoadingUrl}
@@ -0,0 +1,318 @@
+import React from 'react'
+import { createPortal } from 'react-dom'
+import { X, Bookmark as BookmarkIcon, Plus, Trash2, Download, Upload, Repeat, Scissors } from 'lucide-react'
+import { Bookmark, formatTimecode } from '../hooks/useBookmarks'
+
+interface BookmarksPanelProps {
+    isOpen: boolean
+    onClose: () => void
+    filename: string
+    bookmarks: Bookmark[]
+    currentTime: number
+    abLoop: { a: number | null, b: number | null }
+    onAdd: () => void
+    onSeek: (time: number) => void
+    onUpdate: (id: string, changes: { name?: string, note?: string }) => void
+    onRemove: (id: string) => void
+    onExport: () => void
+    onImport: () => void
+    onSetLoopPoint: (point: 'a' | 'b') => void
+    onClearLoop: () => void
+    onExportClip: () => void
+}
+
+const headerButtonStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.08)',
+    border: 'none',
+    borderRadius: '8px',
+    padding: '6px 10px',
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: '11px',
+    fontWeight: 500,
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '5px',
+    transition: 'all 0.2s'
+}
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    background: 'transparent',
+    border: 'none',
+    color: '#fff',
+    outline: 'none',
+    fontFamily: 'Inter, sans-serif',
+    padding: 0
+}
+
+export default function BookmarksPanel({
+    isOpen,
+    onClose,
+    filename,
+    bookmarks,
+    currentTime,
+    abLoop,
+    onAdd,
+    onSeek,
+    onUpdate,
+    onRemove,
+    onExport,
+    onImport,
+    onSetLoopPoint,
+    onClearLoop,
+    onExportClip
+}: BookmarksPanelProps) {
+    if (!isOpen) return null
+
+    const loopActive = abLoop.a !== null || abLoop.b !== null
+    const rangeSelected = abLoop.a !== null && abLoop.b !== null && abLoop.b > abLoop.a
+
+    const panelContent = (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                right: 0,
+                width: 'clamp(260px, 38vw, 340px)',
+                maxWidth: '90vw',
+                height: '100vh',
+                background: 'rgba(12, 12, 12, 0.98)',
+                backdropFilter: 'blur(20px)',
+                borderLeft: '1px solid rgba(255,255,255,0.08)',
+                zIndex: 1000,
+                display: 'flex',
+                flexDirection: 'column',
+                animation: 'slideInRight 0.3s ease-out',
+                pointerEvents: 'auto'
+            }}
+            onClick={(e) => e.stopPropagation()}
+        >
+            {/* Header */}
+            <div style={{
+                padding: 'clamp(12px, 2.5vw, 20px)',
+                borderBottom: '1px solid rgba(255,255,255,0.08)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between'
+            }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 'clamp(6px, 1vw, 10px)' }}>
+                    <BookmarkIcon size={18} color="rgba(255,255,255,0.7)" />
+                    <h2 style={{
+                        margin: 0,
+                        fontSize: 'clamp(12px, 1.8vw, 16px)',
+                        fontWeight: 600,
+                        color: '#fff',
+                        fontFamily: 'Inter, sans-serif'
+                    }}>
+                        Bookmarks
+                    </h2>
+                    {bookmarks.length > 0 && (
+                        <span style={{
+                            fontSize: '12px',
+                            color: 'rgba(255,255,255,0.4)',
+                            background: 'rgba(255,255,255,0.1)',
+                            padding: '2px 8px',
+                            borderRadius: '10px'
+                        }}>
+                            {bookmarks.length}
+                        </span>
+                    )}
+                </div>
+
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    <button onClick={onImport} title="Import CSV/JSON" style={headerButtonStyle}>
+                        <Upload size={12} />
+                    </button>
+                    <button onClick={onExport} disabled={bookmarks.length === 0} title="Export CSV/JSON" style={{ ...headerButtonStyle, opacity: bookmarks.length === 0 ? 0.4 : 1 }}>
+                        <Download size={12} />
+                    </button>
+                    <button
+                        onClick={onClose}
+                        style={{ ...headerButtonStyle, width: '32px', height: '32px', padding: 0, justifyContent: 'center' }}
+                        onMouseEnter={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.15)'; e.currentTarget.style.color = '#fff' }}
+                        onMouseLeave={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.08)'; e.currentTarget.style.color = 'rgba(255,255,255,0.6)' }}
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+            </div>
+
+            {/* A-B Loop */}
+            <div style={{ padding: '12px 20px', borderBottom: '1px solid rgba(255,255,255,0.05)' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px', fontSize: '12px', color: 'rgba(255,255,255,0.6)' }}>
+                    <Repeat size={14} color={loopActive ? '#3b82f6' : 'rgba(255,255,255,0.6)'} />
+                    A-B Loop
+                </div>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    {(['a', 'b'] as const).map(point => (
+                        <button
+                            key={point}
+                            onClick={() => onSetLoopPoint(point)}
+                            title={`Set ${point.toUpperCase()} at ${formatTimecode(currentTime)}`}
+                            style={{ ...headerButtonStyle, flex: 1, justifyContent: 'center', color: abLoop[point] !== null ? '#fff' : 'rgba(255,255,255,0.6)' }}
+                        >
+                            {point.toUpperCase()}: {abLoop[point] !== null ? formatTimecode(abLoop[point]!) : '--'}
+                        </button>
+                    ))}
+                    <button onClick={onClearLoop} disabled={!loopActive} style={{ ...headerButtonStyle, opacity: loopActive ? 1 : 0.4 }}>
+                        Clear
+                    </button>
+                </div>
+                <button
+                    onClick={onExportClip}
+                    disabled={!rangeSelected}
+                    title={rangeSelected ? 'Save this range as a video or animation' : 'Set A and B first'}
+                    style={{ ...headerButtonStyle, width: '100%', justifyContent: 'center', marginTop: '8px', opacity: rangeSelected ? 1 : 0.4 }}
+                >
+                    <Scissors size={12} />
+                    Export Clip
+                </button>
+            </div>
+
+            {/* Add Bookmark */}
+            <div style={{ padding: '12px 20px' }}>
+                <button
+                    onClick={onAdd}
+                    disabled={!filename}
+                    style={{ ...headerButtonStyle, width: '100%', justifyContent: 'center', padding: '10px', opacity: filename ? 1 : 0.4 }}
+                >
+                    <Plus size={14} />
+                    Add bookmark at {formatTimecode(currentTime)}
+                </button>
+            </div>
+
+            {/* Bookmark List */}
+            <div
+                className="custom-scroll settings-content"
+                style={{
+                    flex: 1,
+                    overflowY: 'auto',
+                    padding: '0 12px 20px'
+                }}
+            >
+                {bookmarks.length === 0 ? (
+                    <div style={{
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        height: '200px',
+                        color: 'rgba(255,255,255,0.3)',
+                        fontSize: '13px',
+                        textAlign: 'center'
+                    }}>
+                        <BookmarkIcon size={40} style={{ marginBottom: '12px', opacity: 0.5 }} />
+                        {filename ? 'No bookmarks for this file' : 'Open a file to add bookmarks'}
+                    </div>
+                ) : (
+                    bookmarks.map((bookmark) => (
+                        <BookmarkCard
+                            key={bookmark.id}
+                            bookmark={bookmark}
+                            onSeek={() => onSeek(bookmark.time)}
+                            onUpdate={(changes) => onUpdate(bookmark.id, changes)}
+                            onRemove={() => onRemove(bookmark.id)}
+                        />
+                    ))
+                )}
+            </div>
+        </div>
+    )
+
+    return createPortal(panelContent, document.body)
+}
+
+/**
+ * Individual bookmark card, name and note are edited in place
+ */
+function BookmarkCard({
+    bookmark,
+    onSeek,
+    onUpdate,
+    onRemove
+}: {
+    bookmark: Bookmark
+    onSeek: () => void
+    onUpdate: (changes: { name?: string, note?: string }) => void
+    onRemove: () => void
+}) {
+    const [isHovered, setIsHovered] = React.useState(false)
+
+    return (
+        <div
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+            style={{
+                display: 'flex',
+                gap: '10px',
+                padding: '10px',
+                marginBottom: '6px',
+                borderRadius: '10px',
+                background: isHovered ? 'rgba(255,255,255,0.08)' : 'rgba(255,255,255,0.03)',
+                border: `1px solid ${isHovered ? 'rgba(255,255,255,0.12)' : 'rgba(255,255,255,0.05)'}`,
+                transition: 'all 0.2s',
+                position: 'relative'
+            }}
+        >
+            <button
+                onClick={onSeek}
+                title="Jump to bookmark"
+                style={{
+                    background: 'rgba(59,130,246,0.15)',
+                    border: 'none',
+                    borderRadius: '6px',
+                    padding: '4px 6px',
+                    height: 'fit-content',
+                    color: '#3b82f6',
+                    fontSize: '11px',
+                    fontFamily: 'monospace',
+                    cursor: 'pointer',
+                    flexShrink: 0
+                }}
+            >
+                {formatTimecode(bookmark.time)}
+            </button>
+
+            <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: '4px', paddingRight: isHovered ? '28px' : '0' }}>
+                <input
+                    defaultValue={bookmark.name}
+                    onBlur={(e) => e.target.value !== bookmark.name && onUpdate({ name: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    style={{ ...inputStyle, fontSize: '13px', fontWeight: 500 }}
+                />
+                <textarea
+                    defaultValue={bookmark.note}
+                    placeholder="Add a note..."
+                    rows={bookmark.note ? 2 : 1}
+                    onBlur={(e) => e.target.value !== bookmark.note && onUpdate({ note: e.target.value })}
+                    style={{ ...inputStyle, fontSize: '11px', color: 'rgba(255,255,255,0.5)', resize: 'none' }}
+                />
+            </div>
+
+            {/* Delete Button - Only visible on hover */}
+            {isHovered && (
+                <button
+                    onClick={onRemove}
+                    style={{
+                        position: 'absolute',
+                        top: '10px',
+                        right: '8px',
+                        background: 'rgba(255,80,80,0.15)',
+                        border: 'none',
+                        borderRadius: '6px',
+                        width: '24px',
+                        height: '24px',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        cursor: 'pointer',
+                        color: '#ff6b6b'
+                    }}
+                >
+                    <Trash2 size={12} />
+                </button>
+            )}
+        </div>
+    )
+}
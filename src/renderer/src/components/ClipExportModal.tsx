@@ -0,0 +1,254 @@
+/**
+ * Clip Export Modal
+ * Saves the A-B range of the current file as MP4/WebM or an animated GIF/WebP
+ */
+
+import React, { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { Scissors, X, FolderOpen } from 'lucide-react'
+import { formatTimecode } from '../hooks/useBookmarks'
+
+const { ipcRenderer } = (window as any).require('electron')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ClipFormat = 'mp4' | 'webm' | 'gif' | 'webp'
+type ClipQuality = 'high' | 'medium' | 'low'
+
+interface ClipExportModalProps {
+    isOpen: boolean
+    onClose: () => void
+    start: number
+    end: number
+    hasSubtitles: boolean
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const FORMATS: { id: ClipFormat, label: string }[] = [
+    { id: 'mp4', label: 'MP4' },
+    { id: 'webm', label: 'WebM' },
+    { id: 'gif', label: 'GIF' },
+    { id: 'webp', label: 'WebP' }
+]
+
+const RESOLUTIONS: { value: number | null, label: string }[] = [
+    { value: null, label: 'Source' },
+    { value: 1080, label: '1080p' },
+    { value: 720, label: '720p' },
+    { value: 480, label: '480p' },
+    { value: 360, label: '360p' }
+]
+
+const QUALITIES: { id: ClipQuality, label: string }[] = [
+    { id: 'high', label: 'High' },
+    { id: 'medium', label: 'Medium' },
+    { id: 'low', label: 'Small' }
+]
+
+const sectionLabelStyle: React.CSSProperties = {
+    fontSize: '11px',
+    color: 'rgba(255,255,255,0.5)',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    margin: '14px 0 6px'
+}
+
+const chipStyle = (active: boolean, disabled = false): React.CSSProperties => ({
+    flex: 1,
+    background: active ? '#3b82f6' : 'rgba(255,255,255,0.08)',
+    border: 'none',
+    borderRadius: '8px',
+    padding: '7px 0',
+    color: active ? '#fff' : 'rgba(255,255,255,0.7)',
+    fontSize: '12px',
+    fontWeight: 500,
+    cursor: disabled ? 'default' : 'pointer',
+    opacity: disabled ? 0.35 : 1,
+    transition: 'all 0.2s'
+})
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function ClipExportModal({ isOpen, onClose, start, end, hasSubtitles }: ClipExportModalProps) {
+    const [format, setFormat] = useState<ClipFormat>('mp4')
+    const [copy, setCopy] = useState(false)
+    const [height, setHeight] = useState<number | null>(null)
+    const [quality, setQuality] = useState<ClipQuality>('medium')
+    const [burnSubtitles, setBurnSubtitles] = useState(false)
+    const [progress, setProgress] = useState<number | null>(null)
+    const [savedPath, setSavedPath] = useState<string | null>(null)
+
+    const animated = format === 'gif' || format === 'webp'
+    // Stream copy can't change the picture
+    const canCopy = !animated && !burnSubtitles
+    const exporting = progress !== null
+
+    useEffect(() => {
+        const onProgress = (_: any, value: number | null) => setProgress(value)
+        ipcRenderer.on('clip-export-progress', onProgress)
+        return () => {
+            ipcRenderer.removeListener('clip-export-progress', onProgress)
+        }
+    }, [])
+
+    useEffect(() => {
+        if (isOpen) setSavedPath(null)
+    }, [isOpen])
+
+    const handleExport = async () => {
+        setSavedPath(null)
+        const path = await ipcRenderer.invoke('clip-export', {
+            start,
+            end,
+            format,
+            copy: copy && canCopy,
+            height,
+            quality,
+            burnSubtitles: burnSubtitles && hasSubtitles
+        })
+        if (path) setSavedPath(path)
+    }
+
+    if (!isOpen) return null
+
+    const modalContent = (
+        <div
+            onClick={() => !exporting && onClose()}
+            onWheel={e => e.stopPropagation()}
+            style={{
+                position: 'fixed',
+                inset: 0,
+                background: 'rgba(0,0,0,0.5)',
+                zIndex: 1100,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                pointerEvents: 'auto'
+            }}
+        >
+            <div
+                onClick={e => e.stopPropagation()}
+                style={{
+                    width: 'min(360px, 90vw)',
+                    background: 'rgba(12, 12, 12, 0.98)',
+                    border: '1px solid rgba(255,255,255,0.08)',
+                    borderRadius: '14px',
+                    padding: '18px 20px',
+                    color: '#fff',
+                    fontFamily: 'Inter, sans-serif'
+                }}
+            >
+                {/* Header */}
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                        <Scissors size={18} color="rgba(255,255,255,0.7)" />
+                        <h2 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>Export Clip</h2>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        disabled={exporting}
+                        style={{ background: 'rgba(255,255,255,0.08)', border: 'none', borderRadius: '8px', width: '32px', height: '32px', display: 'flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer', color: 'rgba(255,255,255,0.6)', opacity: exporting ? 0.4 : 1 }}
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+
+                <div style={{ fontSize: '12px', color: 'rgba(255,255,255,0.5)', marginTop: '8px', fontFamily: 'monospace' }}>
+                    {formatTimecode(start)} → {formatTimecode(end)} ({(end - start).toFixed(1)}s)
+                </div>
+
+                <div style={sectionLabelStyle}>Format</div>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    {FORMATS.map(f => (
+                        <button key={f.id} disabled={exporting} onClick={() => setFormat(f.id)} style={chipStyle(format === f.id)}>{f.label}</button>
+                    ))}
+                </div>
+
+                <div style={sectionLabelStyle}>Mode</div>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    <button disabled={exporting || !canCopy} onClick={() => setCopy(true)} style={chipStyle(copy && canCopy, !canCopy)}>Stream copy (fast)</button>
+                    <button disabled={exporting} onClick={() => setCopy(false)} style={chipStyle(!copy || !canCopy)}>Re-encode</button>
+                </div>
+                {copy && canCopy && (
+                    <div style={{ fontSize: '11px', color: 'rgba(255,255,255,0.4)', marginTop: '6px' }}>
+                        Cuts snap to keyframes, the clip may start slightly early.
+                    </div>
+                )}
+
+                {!(copy && canCopy) && (
+                    <>
+                        <div style={sectionLabelStyle}>Resolution</div>
+                        <div style={{ display: 'flex', gap: '6px' }}>
+                            {RESOLUTIONS.map(r => (
+                                <button key={r.label} disabled={exporting} onClick={() => setHeight(r.value)} style={chipStyle(height === r.value)}>{r.label}</button>
+                            ))}
+                        </div>
+
+                        <div style={sectionLabelStyle}>Quality</div>
+                        <div style={{ display: 'flex', gap: '6px' }}>
+                            {QUALITIES.map(q => (
+                                <button key={q.id} disabled={exporting} onClick={() => setQuality(q.id)} style={chipStyle(quality === q.id)}>{q.label}</button>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '14px', fontSize: '13px', opacity: hasSubtitles ? 1 : 0.4, cursor: hasSubtitles ? 'pointer' : 'default' }}>
+                    <input
+                        type="checkbox"
+                        checked={burnSubtitles && hasSubtitles}
+                        disabled={!hasSubtitles || exporting}
+                        onChange={e => setBurnSubtitles(e.target.checked)}
+                    />
+                    Burn in current subtitles
+                </label>
+
+                {/* Progress / Actions */}
+                {exporting ? (
+                    <div style={{ marginTop: '18px' }}>
+                        <div style={{ height: '4px', background: 'rgba(255,255,255,0.1)', borderRadius: '2px', overflow: 'hidden' }}>
+                            <div style={{ width: `${Math.round(progress! * 100)}%`, height: '100%', background: '#3b82f6', transition: 'width 0.3s' }} />
+                        </div>
+                        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: '10px', fontSize: '12px', color: 'rgba(255,255,255,0.6)' }}>
+                            Exporting... {Math.round(progress! * 100)}%
+                            <button
+                                onClick={() => ipcRenderer.send('clip-export-cancel')}
+                                style={{ background: 'rgba(255,80,80,0.15)', border: 'none', borderRadius: '8px', padding: '6px 12px', color: '#ff6b6b', fontSize: '12px', cursor: 'pointer' }}
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <div style={{ display: 'flex', gap: '8px', marginTop: '18px' }}>
+                        {savedPath && (
+                            <button
+                                onClick={() => ipcRenderer.send('clip-show-in-folder', savedPath)}
+                                style={{ ...chipStyle(false), display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px', padding: '10px 0' }}
+                            >
+                                <FolderOpen size={14} />
+                                Show in folder
+                            </button>
+                        )}
+                        <button
+                            onClick={handleExport}
+                            disabled={end <= start}
+                            style={{ ...chipStyle(true), padding: '10px 0', fontWeight: 600 }}
+                        >
+                            Export
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
@@ -1,12 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react'
-import { Play, Pause, SkipForward, SkipBack, Volume2, VolumeX, Maximize2, Minimize2, Monitor, Settings, Globe, Sparkles, Music, FolderOpen, Lock, Loader2, History, ChevronLeft, ChevronRight, ListMusic, Smartphone, Users } from 'lucide-react'
+import { Play, Pause, SkipForward, SkipBack, Volume2, VolumeX, Maximize2, Minimize2, Monitor, Settings, Globe, Sparkles, Music, FolderOpen, Lock, Loader2, History, ChevronLeft, ChevronRight, ListMusic, Smartphone, Users, Bookmark, Images } from 'lucide-react'
 import SettingsMenu from './SettingsMenu'
 import HistoryPanel from './HistoryPanel'
 import LocalQueuePanel from './LocalQueuePanel'
+import SubtitleEditorPanel from './SubtitleEditorPanel'
+import BookmarksPanel from './BookmarksPanel'
+import ScreenshotGalleryPanel from './ScreenshotGalleryPanel'
+import ClipExportModal from './ClipExportModal'
 
 import { useHistory } from '../hooks/useHistory'
 import { usePlaylist } from '../hooks/usePlaylist'
 import { useLocalQueue } from '../hooks/useLocalQueue'
+import { useBookmarks, exportBookmarks, parseBookmarks, BookmarkFormat } from '../hooks/useBookmarks'
 
 // Use window.require for Electron in Vite context
 const { ipcRenderer } = (window as any).require('electron')
@@ -48,9 +53,43 @@ const formatTime = (seconds: number): string => {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
 }
 
+// Index of the chapter playing at `time` (-1 before the first chapter)
+const chapterAt = (chapters: { title: string; time: number }[], time: number): number => {
+    let index = -1
+    chapters.forEach((chapter, i) => { if (chapter.time <= time) index = i })
+    return index
+}
+
+// Seek bar preview sprite sheets (see lib/thumbnails in main)
+interface Thumbnails {
+    interval: number
+    width: number
+    height: number
+    columns: number
+    rows: number
+    count: number
+    urls: string[]
+}
+
+// Background style showing the thumbnail closest to `time`
+const thumbnailStyle = (thumbs: Thumbnails, time: number): React.CSSProperties => {
+    const index = Math.min(thumbs.count - 1, Math.floor(time / thumbs.interval))
+    const perSheet = thumbs.columns * thumbs.rows
+    const tile = index % perSheet
+    return {
+        width: `${thumbs.width}px`,
+        height: `${thumbs.height}px`,
+        backgroundImage: `url("${thumbs.urls[Math.floor(index / perSheet)]}")`,
+        backgroundPosition: `-${(tile % thumbs.columns) * thumbs.width}px -${Math.floor(tile / thumbs.columns) * thumbs.height}px`,
+        backgroundRepeat: 'no-repeat',
+        borderRadius: '4px',
+        marginBottom: '4px'
+    }
+}
+
 // ... imports
 
-export default function Controls({ showSettings, setShowSettings, filename, onMouseEnter, onMouseLeave, isLoadingUrl, setIsLoadingUrl, showUrlInput, setShowUrlInput, toggleRemote, remoteConnected, toggleWatchParty, watchPartyActive }: any): JSX.Element {
+export default function Controls({ showSettings, setShowSettings, filename, bookmarks, onMouseEnter, onMouseLeave, isLoadingUrl, setIsLoadingUrl, showUrlInput, setShowUrlInput, toggleRemote, remoteConnected, toggleWatchParty, watchPartyActive }: any): JSX.Element {
     // Playback State
     const [isPlaying, setIsPlaying] = useState(false)
     const [currentTime, setCurrentTime] = useState(0)
@@ -108,6 +147,24 @@ export default function Controls({ showSettings, setShowSettings, filename, onMo
     const [showQueue, setShowQueue] = useState(false)
     const localQueue = useLocalQueue()
 
+    // Subtitle Editor State
+    const [showSubEditor, setShowSubEditor] = useState(false)
+
+    // Chapters (MKV chapters, YouTube chapters via yt-dlp)
+    const [chapters, setChapters] = useState<{ title: string; time: number }[]>([])
+    const [hoverTime, setHoverTime] = useState<number | null>(null)
+    const [thumbnails, setThumbnails] = useState<Thumbnails | null>(null)
+
+    // Bookmarks & A-B Loop
+    const [showBookmarks, setShowBookmarks] = useState(false)
+    const [showClipExport, setShowClipExport] = useState(false)
+    const [abLoop, setAbLoop] = useState<{ a: number | null, b: number | null }>({ a: null, b: null })
+    const { getBookmarks, addBookmark, updateBookmark, removeBookmark, importBookmarks, bookmarks: allBookmarks }: ReturnType<typeof useBookmarks> = bookmarks
+    const fileBookmarks = filename ? getBookmarks(filename) : []
+
+    // Screenshot gallery
+    const [showScreenshots, setShowScreenshots] = useState(false)
+
     // Drag State
     const [isDraggingTime, setIsDraggingTime] = useState(false)
     const [isDraggingVolume, setIsDraggingVolume] = useState(false)
@@ -195,6 +252,28 @@ export default function Controls({ showSettings, setShowSettings, filename, onMo
         }
     }, [isDraggingTime])
 
+    // Chapter list arrives with each file
+    useEffect(() => {
+        const onMpvChapters = (_event: any, list: { title: string; time: number }[]) => {
+            setChapters(list)
+        }
+        // Previews are generated in the background, null when the file changes
+        const onMpvThumbnails = (_event: any, thumbs: Thumbnails | null) => {
+            setThumbnails(thumbs)
+        }
+        const onMpvAbLoop = (_event: any, loop: { a: number | null, b: number | null }) => {
+            setAbLoop(loop)
+        }
+        ipcRenderer.on('mpv-chapters', onMpvChapters)
+        ipcRenderer.on('mpv-thumbnails', onMpvThumbnails)
+        ipcRenderer.on('mpv-ab-loop', onMpvAbLoop)
+        return () => {
+            ipcRenderer.removeListener('mpv-chapters', onMpvChapters)
+            ipcRenderer.removeListener('mpv-thumbnails', onMpvThumbnails)
+            ipcRenderer.removeListener('mpv-ab-loop', onMpvAbLoop)
+        }
+    }, [])
+
     // Listen for YouTube metadata to save to history
     useEffect(() => {
         const onYouTubeMetadata = (_event: any, metadata: any) => {
@@ -252,7 +331,19 @@ export default function Controls({ showSettings, setShowSettings, filename, onMo
         setCurrentTime(newTime)
     }
 
+    const handleTimelineHover = (e: React.MouseEvent) => {
+        if (!timelineRef.current || duration === 0) return
+        const rect = timelineRef.current.getBoundingClientRect()
+        const percent = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width))
+        setHoverTime(percent * duration)
+    }
+
     const handleTimelineMouseDown = (e: React.MouseEvent) => {
+        // Shift+Click = loop start (A), Alt+Click = loop end (B)
+        if ((e.shiftKey || e.altKey) && hoverTime !== null) {
+            setLoopPoint(e.shiftKey ? 'a' : 'b', hoverTime)
+            return
+        }
         setIsDraggingTime(true)
         handleTimelineInteraction(e.clientX)
     }
@@ -264,6 +355,40 @@ export default function Controls({ showSettings, setShowSettings, filename, onMo
         setIsDraggingTime(false)
     }
 
+    // === Bookmarks & A-B Loop ===
+    const setLoopPoint = (point: 'a' | 'b', time: number) => {
+        ipcRenderer.send('mpv-command', ['set_property', `ab-loop-${point}`, time])
+    }
+
+    const clearLoop = () => {
+        ipcRenderer.send('mpv-command', ['set_property', 'ab-loop-a', 'no'])
+        ipcRenderer.send('mpv-command', ['set_property', 'ab-loop-b', 'no'])
+    }
+
+    // Everything for this file, or the whole library when nothing is open
+    const handleExportBookmarks = async () => {
+        const items = filename ? fileBookmarks : allBookmarks
+        if (items.length === 0) return
+        const defaultName = filename ? `${filename.replace(/\.[^.]+$/, '')} - bookmarks` : 'bookmarks'
+        await ipcRenderer.invoke('bookmarks-export', {
+            csv: exportBookmarks(items, 'csv'),
+            json: exportBookmarks(items, 'json'),
+            defaultName
+        })
+    }
+
+    const handleImportBookmarks = async () => {
+        const result: { text: string, format: BookmarkFormat } | null = await ipcRenderer.invoke('bookmarks-import')
+        if (!result) return
+        try {
+            const added = importBookmarks(parseBookmarks(result.text, result.format, filename))
+            ipcRenderer.emit('mpv-msg', null, `Imported ${added} bookmark${added === 1 ? '' : 's'}`)
+        } catch (error: any) {
+            console.error('[BOOKMARKS] Import failed:', error)
+            ipcRenderer.emit('mpv-msg', null, `❌ Invalid bookmark file: ${error.message}`)
+        }
+    }
+
     // Volume Drag Handlers
     const handleVolumeInteraction = (clientX: number) => {
         if (!volumeRef.current) return
@@ -303,6 +428,12 @@ export default function Controls({ showSettings, setShowSettings, filename, onMo
     }, [isDraggingTime, isDraggingVolume, currentTime])
 
     const timePercent = duration > 0 ? (currentTime / duration) * 100 : 0
+    // Preview follows the pointer, or the scrub position while dragging
+    const previewTime = isDraggingTime ? currentTime : hoverTime
+    // Bookmark under the pointer (within 1% of the bar)
+    const nearestBookmark = previewTime !== null && duration > 0
+        ? fileBookmarks.find(b => Math.abs(b.time - previewTime) < duration * 0.01)
+        : undefined
     const noop = () => { }
 
     // Click outside to close URL input and Settings Menu
@@ -475,6 +606,8 @@ export default function Controls({ showSettings, setShowSettings, filename, onMo
                 <div
                     ref={timelineRef}
                     onMouseDown={handleTimelineMouseDown}
+                    onMouseMove={handleTimelineHover}
+                    onMouseLeave={() => setHoverTime(null)}
                     style={{
                         width: '60%',
                         maxWidth: '600px',
@@ -509,6 +642,82 @@ export default function Controls({ showSettings, setShowSettings, filename, onMo
                         cursor: 'grab'
                     }}></div>
 
+                    {/* A-B Loop Region */}
+                    {duration > 0 && (abLoop.a !== null || abLoop.b !== null) && (
+                        <div style={{
+                            position: 'absolute',
+                            left: `${((abLoop.a ?? 0) / duration) * 100}%`,
+                            width: `${(((abLoop.b ?? duration) - (abLoop.a ?? 0)) / duration) * 100}%`,
+                            height: '8px',
+                            background: 'rgba(59,130,246,0.35)',
+                            borderLeft: abLoop.a !== null ? '2px solid #3b82f6' : 'none',
+                            borderRight: abLoop.b !== null ? '2px solid #3b82f6' : 'none',
+                            borderRadius: '2px',
+                            pointerEvents: 'none'
+                        }} />
+                    )}
+
+                    {/* Bookmark Markers */}
+                    {duration > 0 && fileBookmarks.map(bookmark => (
+                        <div key={bookmark.id} style={{
+                            position: 'absolute',
+                            left: `${(bookmark.time / duration) * 100}%`,
+                            top: '-6px',
+                            width: '6px',
+                            height: '6px',
+                            background: '#f5b301',
+                            borderRadius: '50%',
+                            transform: 'translateX(-50%)',
+                            pointerEvents: 'none'
+                        }} />
+                    ))}
+
+                    {/* Chapter Markers */}
+                    {duration > 0 && chapters.map((chapter, i) => chapter.time > 0 && (
+                        <div key={i} style={{
+                            position: 'absolute',
+                            left: `${(chapter.time / duration) * 100}%`,
+                            width: '2px',
+                            height: '8px',
+                            background: 'rgba(0,0,0,0.6)',
+                            borderLeft: '1px solid rgba(255,255,255,0.6)',
+                            transform: 'translateX(-50%)',
+                            pointerEvents: 'none'
+                        }} />
+                    ))}
+
+                    {/* Hover Preview / Time / Chapter Title */}
+                    {previewTime !== null && duration > 0 && (
+                        <div style={{
+                            position: 'absolute',
+                            left: `${(previewTime / duration) * 100}%`,
+                            bottom: '14px',
+                            transform: 'translateX(-50%)',
+                            background: 'rgba(18,18,18,0.95)',
+                            border: '1px solid rgba(255,255,255,0.1)',
+                            borderRadius: '6px',
+                            padding: '4px 8px',
+                            fontSize: '11px',
+                            fontFamily: 'Inter',
+                            whiteSpace: 'nowrap',
+                            pointerEvents: 'none',
+                            textAlign: 'center'
+                        }}>
+                            {thumbnails && <div style={thumbnailStyle(thumbnails, previewTime)} />}
+                            {chapterAt(chapters, previewTime) >= 0 && (
+                                <div style={{ maxWidth: '220px', overflow: 'hidden', textOverflow: 'ellipsis', marginBottom: '2px' }}>
+                                    {chapters[chapterAt(chapters, previewTime)].title}
+                                </div>
+                            )}
+                            {nearestBookmark && (
+                                <div style={{ maxWidth: '220px', overflow: 'hidden', textOverflow: 'ellipsis', marginBottom: '2px', color: '#f5b301' }}>
+                                    {nearestBookmark.name}
+                                </div>
+                            )}
+                            <div style={{ opacity: 0.7 }}>{formatTime(previewTime)}</div>
+                        </div>
+                    )}
+
                     <span style={{ position: 'absolute', left: -45, fontSize: '12px', fontFamily: 'Inter', opacity: 0.7 }}>{formatTime(currentTime)}</span>
                     <span style={{ position: 'absolute', right: -45, fontSize: '12px', fontFamily: 'Inter', opacity: 0.7 }}>{formatTime(duration)}</span>
                 </div>
@@ -689,6 +898,24 @@ export default function Controls({ showSettings, setShowSettings, filename, onMo
 
                         <FloatingButton onClick={(e: any) => {
                             e.stopPropagation();
+                            setShowBookmarks(!showBookmarks);
+                            if (!showBookmarks) { setShowHistory(false); setShowScreenshots(false); setShowSettings(false) }
+                        }} data-bookmarks-button="true">
+                            <Bookmark size={20} color={showBookmarks || abLoop.a !== null ? "#fff" : "rgba(255,255,255,0.7)"} />
+                        </FloatingButton>
+
+                        <FloatingButton onClick={(e: any) => {
+                            e.stopPropagation();
+                            setShowScreenshots(!showScreenshots);
+                            if (!showScreenshots) { setShowHistory(false); setShowBookmarks(false); setShowSettings(false) }
+                        }} data-screenshots-button="true">
+                            <Images size={20} color={showScreenshots ? "#fff" : "rgba(255,255,255,0.7)"} />
+                        </FloatingButton>
+
+                        <FloatingButton onClick={(e: any) => {
+                            e.stopPropagation();
+                            setShowBookmarks(false);
+                            setShowScreenshots(false);
                             setShowHistory(!showHistory);
                             if (!showHistory) setShowSettings(false); // Close Settings if opening History 
                         }} data-history-button="true">
@@ -731,6 +958,11 @@ export default function Controls({ showSettings, setShowSettings, filename, onMo
                             alwaysOnTop={alwaysOnTop}
                             setAlwaysOnTop={setAlwaysOnTop}
                             isPlaying={isPlaying}
+                            onOpenSubtitleEditor={() => {
+                                setShowSettings(false)
+                                setShowHistory(false)
+                                setShowSubEditor(true)
+                            }}
                         />
                     </div>
                 )
@@ -752,6 +984,45 @@ export default function Controls({ showSettings, setShowSettings, filename, onMo
                 onClearAll={clearHistory}
             />
 
+            {/* Bookmarks Panel */}
+            <BookmarksPanel
+                isOpen={showBookmarks}
+                onClose={() => setShowBookmarks(false)}
+                filename={filename}
+                bookmarks={fileBookmarks}
+                currentTime={currentTime}
+                abLoop={abLoop}
+                onAdd={() => filename && addBookmark(filename, currentTime)}
+                onSeek={(time) => ipcRenderer.send('mpv-seek-to', time)}
+                onUpdate={updateBookmark}
+                onRemove={removeBookmark}
+                onExport={handleExportBookmarks}
+                onImport={handleImportBookmarks}
+                onSetLoopPoint={(point) => setLoopPoint(point, currentTime)}
+                onClearLoop={clearLoop}
+                onExportClip={() => {
+                    setShowBookmarks(false)
+                    setShowClipExport(true)
+                }}
+            />
+
+            {/* Screenshot Gallery */}
+            <ScreenshotGalleryPanel
+                isOpen={showScreenshots}
+                onClose={() => setShowScreenshots(false)}
+                filename={filename}
+                onSeek={(time) => ipcRenderer.send('mpv-seek-to', time)}
+            />
+
+            {/* Clip Export (A-B range) */}
+            <ClipExportModal
+                isOpen={showClipExport}
+                onClose={() => setShowClipExport(false)}
+                start={abLoop.a ?? 0}
+                end={abLoop.b ?? 0}
+                hasSubtitles={tracks.some(t => t.type === 'sub' && t.selected)}
+            />
+
             {/* Local Queue Panel (Left Side) */}
             <LocalQueuePanel
                 isOpen={showQueue}
@@ -764,6 +1035,12 @@ export default function Controls({ showSettings, setShowSettings, filename, onMo
                 onClearQueue={localQueue.clearQueue}
                 onReorder={localQueue.reorder}
             />
+
+            {/* Subtitle Editor Panel */}
+            <SubtitleEditorPanel
+                isOpen={showSubEditor}
+                onClose={() => setShowSubEditor(false)}
+            />
             {/* Remote Modal (Moved to App.tsx) */}
         </div>
     )
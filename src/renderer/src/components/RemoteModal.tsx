@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react'
 import QRCode from 'qrcode'
-import { X, Smartphone, Wifi } from 'lucide-react'
+import { X, Smartphone, Wifi, Trash2, Folder, FolderPlus } from 'lucide-react'
 import { createPortal } from 'react-dom'
 
 // IPC Renderer
@@ -10,11 +10,34 @@ interface RemoteModalProps {
     onClose: () => void;
 }
 
+interface RemoteDevice {
+    id: string;
+    name: string;
+    createdAt: number;
+    lastSeen: number;
+}
+
+function formatLastSeen(timestamp: number): string {
+    const minutes = Math.floor((Date.now() - timestamp) / 60000)
+    if (minutes < 2) return 'Active now'
+    if (minutes < 60) return `${minutes} min ago`
+    const hours = Math.floor(minutes / 60)
+    if (hours < 24) return `${hours} h ago`
+    return new Date(timestamp).toLocaleDateString()
+}
+
 export default function RemoteModal({ onClose }: RemoteModalProps) {
     const [qrSrc, setQrSrc] = useState('')
     const [ips, setIps] = useState<string[]>([])
     const [selectedIp, setSelectedIp] = useState('')
     const [port, setPort] = useState(5678)
+    const [pairing, setPairing] = useState<{ token: string; expires: number } | null>(null)
+    const [devices, setDevices] = useState<RemoteDevice[]>([])
+    const [libraryRoots, setLibraryRoots] = useState<string[]>([])
+
+    const refreshDevices = () => {
+        ipcRenderer.invoke('get-remote-devices').then(setDevices).catch(console.error)
+    }
 
     useEffect(() => {
         ipcRenderer.invoke('get-remote-info').then((info: any) => {
@@ -23,19 +46,54 @@ export default function RemoteModal({ onClose }: RemoteModalProps) {
                 setIps(ipList)
                 if (ipList.length > 0) setSelectedIp(ipList[0])
                 setPort(info.port)
+                setPairing(info.pairing)
             }
         })
+        refreshDevices()
+        ipcRenderer.invoke('get-library-roots').then(setLibraryRoots)
+
+        // A device just used the QR: its token is spent, show a new one
+        const onDevicesChanged = () => {
+            refreshDevices()
+            ipcRenderer.invoke('get-remote-pairing').then(setPairing)
+        }
+        ipcRenderer.on('remote-devices-changed', onDevicesChanged)
+        return () => {
+            ipcRenderer.removeListener('remote-devices-changed', onDevicesChanged)
+        }
     }, [])
 
+    // Pairing tokens expire, swap in a fresh one while the modal stays open
     useEffect(() => {
-        if (selectedIp && port) {
-            const url = `http://${selectedIp}:${port}`
+        if (!pairing) return
+        const timer = setTimeout(() => {
+            ipcRenderer.invoke('get-remote-pairing').then(setPairing)
+        }, Math.max(0, pairing.expires - Date.now()))
+        return () => clearTimeout(timer)
+    }, [pairing])
+
+    useEffect(() => {
+        if (selectedIp && port && pairing) {
+            const url = `http://${selectedIp}:${port}/pair?token=${pairing.token}`
             QRCode.toDataURL(url, {
                 width: 300, margin: 1,
                 color: { dark: '#000000', light: '#ffffff' }
             }).then(setQrSrc).catch(console.error)
         }
-    }, [selectedIp, port])
+    }, [selectedIp, port, pairing])
+
+    const revokeDevice = async (id: string) => {
+        await ipcRenderer.invoke('revoke-remote-device', id)
+        refreshDevices()
+    }
+
+    const addLibraryRoot = async () => {
+        setLibraryRoots(await ipcRenderer.invoke('add-library-root'))
+    }
+
+    const removeLibraryRoot = async (root: string) => {
+        setLibraryRoots(await ipcRenderer.invoke('remove-library-root', root))
+    }
 
     const currentUrl = `http://${selectedIp}:${port}`
 
@@ -164,6 +222,97 @@ export default function RemoteModal({ onClose }: RemoteModalProps) {
                         {currentUrl.replace('http://', '')}
                     </span>
                 </div>
+                <p style={{ margin: '-8px 0 0', fontSize: '10px', color: 'rgba(255,255,255,0.35)', textAlign: 'center' }}>
+                    Scan the QR code to pair a device. Codes work once.
+                </p>
+
+                {/* Paired Devices */}
+                {devices.length > 0 && (
+                    <div style={{ width: '100%', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                        <span style={{ fontSize: '10px', fontWeight: 600, color: 'rgba(255,255,255,0.4)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+                            Paired Devices
+                        </span>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '140px', overflowY: 'auto' }}>
+                            {devices.map(device => (
+                                <div key={device.id} style={{
+                                    display: 'flex', alignItems: 'center', gap: '8px',
+                                    background: 'rgba(255,255,255,0.04)',
+                                    borderRadius: '8px', padding: '6px 8px'
+                                }}>
+                                    <Smartphone size={14} color="rgba(255,255,255,0.5)" />
+                                    <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+                                        <span style={{ fontSize: '11px', color: '#fff', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{device.name}</span>
+                                        <span style={{ fontSize: '9px', color: 'rgba(255,255,255,0.4)' }}>{formatLastSeen(device.lastSeen)}</span>
+                                    </div>
+                                    <button
+                                        onClick={() => revokeDevice(device.id)}
+                                        title="Revoke access"
+                                        style={{
+                                            background: 'transparent', border: 'none',
+                                            color: 'rgba(255,255,255,0.4)', cursor: 'pointer',
+                                            display: 'flex', padding: '4px', borderRadius: '6px'
+                                        }}
+                                        onMouseEnter={e => { e.currentTarget.style.color = '#ff5050'; e.currentTarget.style.background = 'rgba(255,50,50,0.15)' }}
+                                        onMouseLeave={e => { e.currentTarget.style.color = 'rgba(255,255,255,0.4)'; e.currentTarget.style.background = 'transparent' }}
+                                    >
+                                        <Trash2 size={13} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Library Folders (what the remote file browser can open) */}
+                <div style={{ width: '100%', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                        <span style={{ fontSize: '10px', fontWeight: 600, color: 'rgba(255,255,255,0.4)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+                            Library Folders
+                        </span>
+                        <button
+                            onClick={addLibraryRoot}
+                            title="Add folder"
+                            style={{
+                                background: 'transparent', border: 'none',
+                                color: '#60a5fa', cursor: 'pointer',
+                                display: 'flex', alignItems: 'center', gap: '4px',
+                                fontSize: '10px', padding: '2px 4px'
+                            }}
+                        >
+                            <FolderPlus size={12} /> Add
+                        </button>
+                    </div>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '120px', overflowY: 'auto' }}>
+                        {libraryRoots.length === 0 && (
+                            <span style={{ fontSize: '10px', color: 'rgba(255,255,255,0.35)' }}>No folders, the remote can't browse files</span>
+                        )}
+                        {libraryRoots.map(root => (
+                            <div key={root} style={{
+                                display: 'flex', alignItems: 'center', gap: '8px',
+                                background: 'rgba(255,255,255,0.04)',
+                                borderRadius: '8px', padding: '6px 8px'
+                            }}>
+                                <Folder size={14} color="rgba(255,255,255,0.5)" />
+                                <span title={root} style={{ flex: 1, minWidth: 0, fontSize: '11px', color: '#fff', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', direction: 'rtl', textAlign: 'left' }}>
+                                    {root}
+                                </span>
+                                <button
+                                    onClick={() => removeLibraryRoot(root)}
+                                    title="Remove folder"
+                                    style={{
+                                        background: 'transparent', border: 'none',
+                                        color: 'rgba(255,255,255,0.4)', cursor: 'pointer',
+                                        display: 'flex', padding: '4px', borderRadius: '6px'
+                                    }}
+                                    onMouseEnter={e => { e.currentTarget.style.color = '#ff5050'; e.currentTarget.style.background = 'rgba(255,50,50,0.15)' }}
+                                    onMouseLeave={e => { e.currentTarget.style.color = 'rgba(255,255,255,0.4)'; e.currentTarget.style.background = 'transparent' }}
+                                >
+                                    <X size={13} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
 
             </div>
         </div>,
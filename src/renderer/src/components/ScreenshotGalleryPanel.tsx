@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Images, FolderOpen, Copy, Play } from 'lucide-react'
+import { formatTimecode } from '../hooks/useBookmarks'
+
+const { ipcRenderer } = (window as any).require('electron')
+
+interface Screenshot {
+    path: string
+    url: string
+    time: number
+    frame: number | null
+    createdAt: number
+}
+
+interface ScreenshotGalleryPanelProps {
+    isOpen: boolean
+    onClose: () => void
+    filename: string
+    onSeek: (time: number) => void
+}
+
+const iconButtonStyle: React.CSSProperties = {
+    background: 'rgba(0,0,0,0.6)',
+    border: 'none',
+    borderRadius: '6px',
+    width: '26px',
+    height: '26px',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    cursor: 'pointer',
+    color: '#fff'
+}
+
+export default function ScreenshotGalleryPanel({ isOpen, onClose, filename, onSeek }: ScreenshotGalleryPanelProps) {
+    const [screenshots, setScreenshots] = useState<Screenshot[]>([])
+
+    // Reload when opened, when the file changes and after every capture
+    useEffect(() => {
+        if (!isOpen) return
+        const load = () => ipcRenderer.invoke('get-screenshots').then(setScreenshots)
+        load()
+        ipcRenderer.on('screenshot-taken', load)
+        return () => {
+            ipcRenderer.removeListener('screenshot-taken', load)
+        }
+    }, [isOpen, filename])
+
+    const copyScreenshot = async (shot: Screenshot) => {
+        const copied = await ipcRenderer.invoke('screenshot-copy', shot.path)
+        ipcRenderer.emit('mpv-msg', null, copied ? '📋 Screenshot copied' : '❌ This image format can\'t be copied')
+    }
+
+    if (!isOpen) return null
+
+    const panelContent = (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                right: 0,
+                width: 'clamp(260px, 38vw, 340px)',
+                maxWidth: '90vw',
+                height: '100vh',
+                background: 'rgba(12, 12, 12, 0.98)',
+                backdropFilter: 'blur(20px)',
+                borderLeft: '1px solid rgba(255,255,255,0.08)',
+                zIndex: 1000,
+                display: 'flex',
+                flexDirection: 'column',
+                animation: 'slideInRight 0.3s ease-out',
+                pointerEvents: 'auto'
+            }}
+            onClick={(e) => e.stopPropagation()}
+        >
+            {/* Header */}
+            <div style={{
+                padding: 'clamp(12px, 2.5vw, 20px)',
+                borderBottom: '1px solid rgba(255,255,255,0.08)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between'
+            }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 'clamp(6px, 1vw, 10px)' }}>
+                    <Images size={18} color="rgba(255,255,255,0.7)" />
+                    <h2 style={{
+                        margin: 0,
+                        fontSize: 'clamp(12px, 1.8vw, 16px)',
+                        fontWeight: 600,
+                        color: '#fff',
+                        fontFamily: 'Inter, sans-serif'
+                    }}>
+                        Screenshots
+                    </h2>
+                    {screenshots.length > 0 && (
+                        <span style={{
+                            fontSize: '12px',
+                            color: 'rgba(255,255,255,0.4)',
+                            background: 'rgba(255,255,255,0.1)',
+                            padding: '2px 8px',
+                            borderRadius: '10px'
+                        }}>
+                            {screenshots.length}
+                        </span>
+                    )}
+                </div>
+
+                <button
+                    onClick={onClose}
+                    style={{
+                        background: 'rgba(255,255,255,0.08)',
+                        border: 'none',
+                        borderRadius: '8px',
+                        width: '32px',
+                        height: '32px',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        cursor: 'pointer',
+                        color: 'rgba(255,255,255,0.6)',
+                        transition: 'all 0.2s'
+                    }}
+                    onMouseEnter={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.15)'; e.currentTarget.style.color = '#fff' }}
+                    onMouseLeave={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.08)'; e.currentTarget.style.color = 'rgba(255,255,255,0.6)' }}
+                >
+                    <X size={16} />
+                </button>
+            </div>
+
+            {/* Gallery */}
+            <div
+                className="custom-scroll settings-content"
+                style={{
+                    flex: 1,
+                    overflowY: 'auto',
+                    padding: '12px'
+                }}
+            >
+                {screenshots.length === 0 ? (
+                    <div style={{
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        height: '200px',
+                        color: 'rgba(255,255,255,0.3)',
+                        fontSize: '13px',
+                        textAlign: 'center'
+                    }}>
+                        <Images size={40} style={{ marginBottom: '12px', opacity: 0.5 }} />
+                        {filename ? 'No screenshots of this file yet (S)' : 'Open a file to see its screenshots'}
+                    </div>
+                ) : (
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+                        {screenshots.map((shot) => (
+                            <ScreenshotCard
+                                key={shot.path}
+                                shot={shot}
+                                onSeek={() => onSeek(shot.time)}
+                                onShowInFolder={() => ipcRenderer.send('screenshot-show-in-folder', shot.path)}
+                                onCopy={() => copyScreenshot(shot)}
+                            />
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+
+    return createPortal(panelContent, document.body)
+}
+
+/**
+ * Thumbnail with its timestamp, actions show on hover
+ */
+function ScreenshotCard({
+    shot,
+    onSeek,
+    onShowInFolder,
+    onCopy
+}: {
+    shot: Screenshot
+    onSeek: () => void
+    onShowInFolder: () => void
+    onCopy: () => void
+}) {
+    const [isHovered, setIsHovered] = React.useState(false)
+
+    return (
+        <div
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+            title={shot.path}
+            style={{
+                position: 'relative',
+                borderRadius: '8px',
+                overflow: 'hidden',
+                background: 'rgba(255,255,255,0.03)',
+                border: `1px solid ${isHovered ? 'rgba(255,255,255,0.2)' : 'rgba(255,255,255,0.05)'}`,
+                transition: 'all 0.2s'
+            }}
+        >
+            <img
+                src={shot.url}
+                loading="lazy"
+                onClick={onSeek}
+                style={{ width: '100%', aspectRatio: '16 / 9', objectFit: 'cover', display: 'block', cursor: 'pointer' }}
+            />
+            <div style={{
+                position: 'absolute',
+                left: '6px',
+                bottom: '6px',
+                background: 'rgba(0,0,0,0.7)',
+                borderRadius: '4px',
+                padding: '1px 5px',
+                fontSize: '10px',
+                fontFamily: 'monospace',
+                color: '#fff'
+            }}>
+                {formatTimecode(shot.time)}
+            </div>
+
+            {isHovered && (
+                <div style={{ position: 'absolute', top: '6px', right: '6px', display: 'flex', gap: '4px' }}>
+                    <button onClick={onSeek} title="Jump to this moment" style={iconButtonStyle}>
+                        <Play size={12} />
+                    </button>
+                    <button onClick={onCopy} title="Copy to clipboard" style={iconButtonStyle}>
+                        <Copy size={12} />
+                    </button>
+                    <button onClick={onShowInFolder} title="Show in folder" style={iconButtonStyle}>
+                        <FolderOpen size={12} />
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
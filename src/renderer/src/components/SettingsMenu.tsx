@@ -3,10 +3,11 @@ import { createPortal } from 'react-dom'
 import {
     Settings, X, Monitor, Volume2, Subtitles, PlayCircle,
     Zap, Camera, Layers, FileVideo, ChevronDown, Check, RefreshCw,
-    Search, Download, Globe, Link, FolderOpen
+    Search, Download, Globe, Link, FolderOpen, FileText
 } from 'lucide-react'
 
 import LegalModal from './LegalModal'
+import ShaderPresetManager, { type ShaderPreset } from './ShaderPresetManager'
 
 const { ipcRenderer } = (window as any).require('electron')
 
@@ -59,12 +60,13 @@ interface SettingsMenuProps {
     setAlwaysOnTop: (val: boolean) => void;
     filename?: string;
     isPlaying: boolean;
+    onOpenSubtitleEditor: () => void;
 }
 
 export default function SettingsMenu({
     onClose, currentTracks, showStats, toggleStats,
     hwDec, setHwDec, anime4K, setAnime4K, loopState, setLoopState,
-    alwaysOnTop, setAlwaysOnTop, filename, isPlaying
+    alwaysOnTop, setAlwaysOnTop, filename, isPlaying, onOpenSubtitleEditor
 }: SettingsMenuProps): JSX.Element {
     const [activeTab, setActiveTab] = useState<'video' | 'audio' | 'subs' | 'playback' | 'general' | 'online'>('video')
     const [legalDoc, setLegalDoc] = useState<{ file: string, title: string } | null>(null) // Legal Modal State
@@ -91,6 +93,8 @@ export default function SettingsMenu({
         const saved = localStorage.getItem('nautic-shader-preset')
         return saved || 'none'
     })
+    const [customShaders, setCustomShaders] = useState<ShaderPreset[]>([])
+    const [showShaderManager, setShowShaderManager] = useState(false)
 
 
 
@@ -103,7 +107,50 @@ export default function SettingsMenu({
     const [subCheck, setSubCheck] = useState(false)
     const [searchResults, setSearchResults] = useState<any[]>([])
     const [isSearching, setIsSearching] = useState(false)
+    const [hasSearched, setHasSearched] = useState(false)
     const [downloadingId, setDownloadingId] = useState<string | null>(null)
+    const [subProviders, setSubProviders] = useState<{ id: string, name: string, enabled: boolean }[]>([])
+    const [subFolders, setSubFolders] = useState<string[]>([])
+    const [subPrefs, setSubPrefs] = useState<{ autoDownload: boolean, languages: string[], available: { id: string, name: string }[] }>({ autoDownload: true, languages: [], available: [] })
+    const [audioFx, setAudioFx] = useState<{
+        settings: { equalizerEnabled: boolean, equalizer: number[], normalize: boolean, nightMode: boolean, dialogBoost: boolean, downmix: boolean },
+        perFile: boolean,
+        canSavePerFile: boolean,
+        presets: { name: string, gains: number[], builtIn: boolean }[],
+        bands: number[]
+    } | null>(null)
+    const [presetName, setPresetName] = useState('')
+    const [videoAdj, setVideoAdj] = useState<{
+        adjustments: {
+            brightness: number, contrast: number, saturation: number, gamma: number, hue: number,
+            crop: { top: number, bottom: number, left: number, right: number } | null,
+            rotate: number, flipH: boolean, flipV: boolean, deinterlace: boolean,
+            zoom: number, panX: number, panY: number
+        },
+        scope: 'file' | 'folder' | null,
+        canSave: boolean,
+        canUseFolder: boolean
+    } | null>(null)
+    const [detectingCrop, setDetectingCrop] = useState(false)
+    const [audioOut, setAudioOut] = useState<{
+        devices: { name: string, description: string }[],
+        current: string,
+        settings: { device: string, spdif: string[], exclusive: boolean },
+        codecs: string[]
+    } | null>(null)
+    const [shotSettings, setShotSettings] = useState<{ folder: string, template: string, format: 'jpg' | 'png' | 'webp', quality: number, subtitles: boolean, burstCount: number, burstInterval: number } | null>(null)
+
+    // Subtitle Sync State
+    const [isSyncing, setIsSyncing] = useState(false)
+    const [syncDrift, setSyncDrift] = useState(true)
+    const [syncCues, setSyncCues] = useState<{ start: number, end: number, text: string }[] | null>(null)
+    const [cueFilter, setCueFilter] = useState('')
+    const [syncPoints, setSyncPoints] = useState<{ cue: number | null, text: string, actual: number | null }[]>([
+        { cue: null, text: '', actual: null },
+        { cue: null, text: '', actual: null }
+    ])
+    const [activeSyncPoint, setActiveSyncPoint] = useState(0)
+    const playbackTimeRef = useRef(0)
 
     // Derived Track Lists
     const audioTracks = currentTracks.filter(t => t.type === 'audio')
@@ -140,6 +187,104 @@ export default function SettingsMenu({
         }
     }, [])
 
+    // Load subtitle provider toggles and local folders
+    useEffect(() => {
+        ipcRenderer.invoke('get-subtitle-providers').then(setSubProviders)
+        ipcRenderer.invoke('get-subtitle-folders').then(setSubFolders)
+        ipcRenderer.invoke('get-subtitle-preferences').then(setSubPrefs)
+    }, [])
+
+    // Equalizer and audio effects of the file that is playing
+    useEffect(() => {
+        ipcRenderer.invoke('get-audio-filters').then(setAudioFx)
+    }, [filename])
+
+    // Color/crop/geometry of the file that is playing (main re-sends them on every file load)
+    useEffect(() => {
+        ipcRenderer.invoke('get-video-adjustments').then(setVideoAdj)
+        const onVideoAdjustments = (_: any, state: any) => setVideoAdj(state)
+        ipcRenderer.on('video-adjustments', onVideoAdjustments)
+        return () => {
+            ipcRenderer.removeListener('video-adjustments', onVideoAdjustments)
+        }
+    }, [])
+
+    // Output devices, kept current while devices are plugged in or removed
+    useEffect(() => {
+        ipcRenderer.invoke('get-audio-output').then(setAudioOut)
+        const onAudioOutput = (_: any, state: any) => setAudioOut(state)
+        ipcRenderer.on('audio-output', onAudioOutput)
+        return () => {
+            ipcRenderer.removeListener('audio-output', onAudioOutput)
+        }
+    }, [])
+
+    // Load screenshot naming/format settings
+    useEffect(() => {
+        ipcRenderer.invoke('get-shader-presets').then((state: any) => setCustomShaders(state.presets.filter((p: ShaderPreset) => !p.builtIn)))
+    }, [])
+
+    useEffect(() => {
+        ipcRenderer.invoke('get-screenshot-settings').then(setShotSettings)
+    }, [])
+
+    // Playback position for marking lines in two-point sync
+    useEffect(() => {
+        if (!syncCues) return
+        const onTime = (_: any, time: number) => { playbackTimeRef.current = time }
+        ipcRenderer.on('mpv-time', onTime)
+        return () => ipcRenderer.removeListener('mpv-time', onTime)
+    }, [syncCues])
+
+    const handleAutoSync = async () => {
+        if (isSyncing) {
+            ipcRenderer.send('sub-sync-cancel')
+            return
+        }
+        setIsSyncing(true)
+        try {
+            // Main process writes the corrected file, reloads it and shows the toast
+            await ipcRenderer.invoke('sub-sync-auto', { drift: syncDrift })
+        } finally {
+            setIsSyncing(false)
+        }
+    }
+
+    const toggleTwoPointSync = async () => {
+        if (syncCues) {
+            setSyncCues(null)
+            return
+        }
+        const cues = await ipcRenderer.invoke('sub-sync-cues')
+        if (!cues) return
+        setSyncPoints([{ cue: null, text: '', actual: null }, { cue: null, text: '', actual: null }])
+        setActiveSyncPoint(0)
+        setCueFilter('')
+        setSyncCues(cues)
+    }
+
+    const updateSyncPoint = (index: number, changes: Partial<{ cue: number | null, text: string, actual: number | null }>) => {
+        setSyncPoints(prev => prev.map((p, i) => i === index ? { ...p, ...changes } : p))
+    }
+
+    const applyTwoPointSync = async () => {
+        const points = syncPoints
+            .filter(p => p.cue !== null && p.actual !== null)
+            .map(p => ({ cue: p.cue, actual: p.actual }))
+        if (points.length === 0) return
+        const result = await ipcRenderer.invoke('sub-sync-manual', points)
+        if (result) setSyncCues(null)
+    }
+
+    const updateSubPrefs = async (changes: { autoDownload?: boolean, languages?: string[] }) => {
+        const saved = await ipcRenderer.invoke('set-subtitle-preferences', changes)
+        setSubPrefs(prev => ({ ...prev, ...saved }))
+    }
+
+    const toggleSubProvider = async (id: string, enabled: boolean) => {
+        setSubProviders(await ipcRenderer.invoke('set-subtitle-provider', { id, enabled }))
+    }
+
     // Auto-fill filename when it changes
     useEffect(() => {
         if (filename && !subCheck) {
@@ -151,6 +296,7 @@ export default function SettingsMenu({
     const handleSearchSubs = async () => {
         if (!searchQuery.trim()) return
         setIsSearching(true)
+        setHasSearched(true)
         setSearchResults([])
         try {
             const results = await ipcRenderer.invoke('search-subs', { query: searchQuery, lang: 'all' })
@@ -165,11 +311,10 @@ export default function SettingsMenu({
     const handleDownloadSub = async (sub: any) => {
         setDownloadingId(sub.id) // unique id from OS or just use url
         try {
-            const path = await ipcRenderer.invoke('download-sub', { url: sub.url, name: sub.filename })
-            ipcRenderer.send('mpv-add-sub', path)
-            ipcRenderer.send('mpv-msg', 'Subtitle Loaded!')
+            // Main process caches the file, loads it with sub-add and shows the toast
+            await ipcRenderer.invoke('download-sub', { url: sub.url, name: sub.filename })
         } catch (e) {
-            ipcRenderer.send('mpv-msg', 'Download Failed')
+            console.error(e)
         } finally {
             setDownloadingId(null)
         }
@@ -216,6 +361,12 @@ export default function SettingsMenu({
         ipcRenderer.send('mpv-command', ['set_property', 'sub-scale', val])
     }
 
+    const applyShaderPreset = (id: string) => {
+        setShaderPreset(id)
+        localStorage.setItem('nautic-shader-preset', id)
+        ipcRenderer.send('mpv-set-shader-preset', id)
+    }
+
     const changeAspectRatio = (val: string) => {
         setAspectRatio(val)
         localStorage.setItem('nautic-aspect-ratio', val)
@@ -242,7 +393,28 @@ export default function SettingsMenu({
     }
 
     const takeScreenshot = () => {
-        ipcRenderer.send('mpv-command', ['screenshot'])
+        ipcRenderer.invoke('screenshot-take')
+    }
+
+    const updateAudioFx = async (changes: Partial<NonNullable<typeof audioFx>['settings']>) => {
+        setAudioFx(await ipcRenderer.invoke('set-audio-filters', changes))
+    }
+
+    // Slider drags only move the local value, the chain is rebuilt on release
+    const setEqBand = (index: number, gain: number) => {
+        if (!audioFx) return
+        const equalizer = audioFx.settings.equalizer.map((g, i) => i === index ? gain : g)
+        setAudioFx({ ...audioFx, settings: { ...audioFx.settings, equalizer } })
+    }
+
+    const saveEqPreset = async () => {
+        if (!presetName.trim()) return
+        setAudioFx(await ipcRenderer.invoke('save-equalizer-preset', presetName))
+        setPresetName('')
+    }
+
+    const updateShotSettings = async (changes: Partial<NonNullable<typeof shotSettings>>) => {
+        setShotSettings(await ipcRenderer.invoke('set-screenshot-settings', changes))
     }
 
     const toggleAlwaysOnTop = () => {
@@ -293,6 +465,53 @@ export default function SettingsMenu({
         selected: t.selected
     }))
 
+    type VideoAdjustments = NonNullable<typeof videoAdj>['adjustments']
+
+    const updateVideoAdj = async (changes: Partial<VideoAdjustments>) => {
+        setVideoAdj(await ipcRenderer.invoke('set-video-adjustments', changes))
+    }
+
+    // Sliders move the local value while dragging and save on release
+    const previewVideoAdj = (changes: Partial<VideoAdjustments>) => {
+        if (videoAdj) setVideoAdj({ ...videoAdj, adjustments: { ...videoAdj.adjustments, ...changes } })
+    }
+
+    const setCropInset = (side: 'top' | 'bottom' | 'left' | 'right', value: number) => {
+        const crop = videoAdj?.adjustments.crop || { top: 0, bottom: 0, left: 0, right: 0 }
+        previewVideoAdj({ crop: { ...crop, [side]: value } })
+    }
+
+    const autoCrop = async () => {
+        setDetectingCrop(true)
+        try {
+            setVideoAdj(await ipcRenderer.invoke('video-autocrop'))
+        } finally {
+            setDetectingCrop(false)
+        }
+    }
+
+    const deviceOptions = (audioOut?.devices || []).map(d => ({
+        value: d.name,
+        label: d.description,
+        selected: d.name === audioOut?.current
+    }))
+
+    const toggleSpdifCodec = async (codec: string) => {
+        if (!audioOut) return
+        const { spdif } = audioOut.settings
+        setAudioOut(await ipcRenderer.invoke('set-audio-output', {
+            spdif: spdif.includes(codec) ? spdif.filter(c => c !== codec) : [...spdif, codec]
+        }))
+    }
+
+    const eqPresetOptions = (audioFx?.presets || []).map(p => ({
+        value: p.name,
+        label: p.builtIn ? p.name : `★ ${p.name}`,
+        selected: !!audioFx && p.gains.every((g, i) => g === audioFx.settings.equalizer[i])
+    }))
+    const currentEqPreset = eqPresetOptions.find(o => o.selected)
+    const currentCustomPreset = audioFx?.presets.find(p => !p.builtIn && p.name === currentEqPreset?.value)
+
     const subOptions = [
         { value: 'no', label: 'None', selected: !subTracks.some(t => t.selected) },
         ...subTracks.map((t, i) => ({
@@ -506,6 +725,32 @@ export default function SettingsMenu({
                                         </div>
                                     </div>
 
+                                    {/* Custom Presets */}
+                                    <div style={{ marginTop: '12px', marginBottom: '8px' }}>
+                                        <div style={{ fontSize: '10px', color: 'rgba(255,255,255,0.4)', marginBottom: '6px', textTransform: 'uppercase', letterSpacing: '0.5px', textAlign: 'center' }}>
+                                            ⭐ Custom
+                                        </div>
+                                        <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', justifyContent: 'center' }}>
+                                            {customShaders.map(preset => (
+                                                <HoverButton
+                                                    key={preset.id}
+                                                    tooltip={preset.missing.length > 0
+                                                        ? `Missing: ${preset.missing.join(', ')}`
+                                                        : preset.shaders.map(s => s.file.replace(/\.glsl$/i, '')).join(' → ')}
+                                                    isActive={shaderPreset === preset.id}
+                                                    activeColor="#10b981"
+                                                    onClick={() => applyShaderPreset(preset.id)}
+                                                    style={preset.missing.length > 0 ? { color: '#ff6b6b' } : undefined}
+                                                >
+                                                    {preset.name}
+                                                </HoverButton>
+                                            ))}
+                                            <HoverButton tooltip="Build your own chains from imported .glsl shaders" onClick={() => setShowShaderManager(true)}>
+                                                {customShaders.length > 0 ? 'Manage...' : '+ Create preset'}
+                                            </HoverButton>
+                                        </div>
+                                    </div>
+
                                     <p style={{ fontSize: '10px', color: 'rgba(255,255,255,0.3)', marginTop: '10px', lineHeight: 1.4, textAlign: 'center' }}>
                                         Hover over buttons for details. Quality = More GPU.
                                     </p>
@@ -541,6 +786,147 @@ export default function SettingsMenu({
                                         ))}
                                     </div>
                                 </div>
+
+                                {videoAdj && videoAdj.canSave && (
+                                    <div style={{ marginTop: '20px' }}>
+                                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                                            <label style={{ ...labelStyle, marginBottom: 0 }}>Adjustments</label>
+                                            <HoverButton onClick={async () => setVideoAdj(await ipcRenderer.invoke('reset-video-adjustments'))} tooltip="Back to the original picture">
+                                                Reset
+                                            </HoverButton>
+                                        </div>
+
+                                        <div style={{ display: 'flex', gap: '6px', marginBottom: '14px' }}>
+                                            {([
+                                                { value: 'file', label: 'This file' },
+                                                { value: 'folder', label: 'Whole folder' }
+                                            ] as const).map(opt => (
+                                                <HoverButton
+                                                    key={opt.value}
+                                                    onClick={async () => opt.value !== videoAdj.scope && (opt.value === 'file' || videoAdj.canUseFolder) && setVideoAdj(await ipcRenderer.invoke('set-video-adjustment-scope', opt.value))}
+                                                    isActive={(videoAdj.scope || 'file') === opt.value}
+                                                    tooltip={opt.value === 'file' ? 'Remember for this file only' : 'Use for every file in this folder'}
+                                                    style={{ flex: 1, padding: '8px 12px', fontSize: '12px', opacity: opt.value === 'folder' && !videoAdj.canUseFolder ? 0.4 : undefined }}
+                                                >
+                                                    {opt.label}
+                                                </HoverButton>
+                                            ))}
+                                        </div>
+
+                                        {/* Color */}
+                                        {(['brightness', 'contrast', 'saturation', 'gamma', 'hue'] as const).map(key => (
+                                            <div key={key} style={{ marginBottom: '10px' }}>
+                                                <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '6px', fontSize: '12px', color: 'rgba(255,255,255,0.6)', textTransform: 'capitalize' }}>
+                                                    <span>{key}</span>
+                                                    <span style={{ color: '#3b82f6', fontWeight: 600 }}>{videoAdj.adjustments[key] > 0 ? '+' : ''}{videoAdj.adjustments[key]}</span>
+                                                </div>
+                                                <input
+                                                    type="range"
+                                                    min="-100" max="100" step="1"
+                                                    value={videoAdj.adjustments[key]}
+                                                    onChange={(e) => {
+                                                        previewVideoAdj({ [key]: Number(e.target.value) })
+                                                        ipcRenderer.send('mpv-command', ['set_property', key, Number(e.target.value)])
+                                                    }}
+                                                    onMouseUp={(e) => updateVideoAdj({ [key]: Number(e.currentTarget.value) })}
+                                                    onDoubleClick={() => updateVideoAdj({ [key]: 0 })}
+                                                    style={rangeStyle}
+                                                />
+                                            </div>
+                                        ))}
+
+                                        {/* Crop */}
+                                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', margin: '16px 0 8px' }}>
+                                            <label style={{ ...labelStyle, marginBottom: 0 }}>Crop</label>
+                                            <div style={{ display: 'flex', gap: '6px' }}>
+                                                <HoverButton onClick={autoCrop} tooltip="Detect black bars in the frames being played">
+                                                    {detectingCrop ? 'Detecting...' : 'Auto'}
+                                                </HoverButton>
+                                                <HoverButton onClick={() => updateVideoAdj({ crop: null })} tooltip="Show the whole picture">
+                                                    None
+                                                </HoverButton>
+                                            </div>
+                                        </div>
+                                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px 16px' }}>
+                                            {(['top', 'bottom', 'left', 'right'] as const).map(side => (
+                                                <div key={side}>
+                                                    <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px', fontSize: '11px', color: 'rgba(255,255,255,0.5)', textTransform: 'capitalize' }}>
+                                                        <span>{side}</span>
+                                                        <span>{(videoAdj.adjustments.crop?.[side] || 0).toFixed(1)}%</span>
+                                                    </div>
+                                                    <input
+                                                        type="range"
+                                                        min="0" max="40" step="0.5"
+                                                        value={videoAdj.adjustments.crop?.[side] || 0}
+                                                        onChange={(e) => setCropInset(side, Number(e.target.value))}
+                                                        onMouseUp={() => updateVideoAdj({ crop: videoAdj.adjustments.crop })}
+                                                        style={rangeStyle}
+                                                    />
+                                                </div>
+                                            ))}
+                                        </div>
+
+                                        {/* Rotation & Flip */}
+                                        <label style={{ ...labelStyle, marginTop: '16px' }}>Rotate & Flip</label>
+                                        <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+                                            {[0, 90, 180, 270].map(angle => (
+                                                <HoverButton
+                                                    key={angle}
+                                                    onClick={() => updateVideoAdj({ rotate: angle })}
+                                                    isActive={videoAdj.adjustments.rotate === angle}
+                                                    style={{ flex: 1, padding: '8px 4px', fontSize: '12px' }}
+                                                >
+                                                    {angle}°
+                                                </HoverButton>
+                                            ))}
+                                            <HoverButton
+                                                onClick={() => updateVideoAdj({ flipH: !videoAdj.adjustments.flipH })}
+                                                isActive={videoAdj.adjustments.flipH}
+                                                tooltip="Mirror horizontally"
+                                                style={{ flex: 1, padding: '8px 4px', fontSize: '12px' }}
+                                            >
+                                                ⇆
+                                            </HoverButton>
+                                            <HoverButton
+                                                onClick={() => updateVideoAdj({ flipV: !videoAdj.adjustments.flipV })}
+                                                isActive={videoAdj.adjustments.flipV}
+                                                tooltip="Mirror vertically"
+                                                style={{ flex: 1, padding: '8px 4px', fontSize: '12px' }}
+                                            >
+                                                ⇅
+                                            </HoverButton>
+                                        </div>
+
+                                        <SettingItem label="Deinterlace" description="Remove comb artifacts from interlaced TV recordings.">
+                                            <Toggle checked={videoAdj.adjustments.deinterlace} onChange={() => updateVideoAdj({ deinterlace: !videoAdj.adjustments.deinterlace })} />
+                                        </SettingItem>
+
+                                        {/* Zoom & Pan */}
+                                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', margin: '8px 0' }}>
+                                            <label style={{ ...labelStyle, marginBottom: 0 }}>Zoom</label>
+                                            <span style={{ color: '#3b82f6', fontSize: '12px', fontWeight: 600 }}>{Math.round(Math.pow(2, videoAdj.adjustments.zoom) * 100)}%</span>
+                                        </div>
+                                        <input
+                                            type="range"
+                                            min="-2" max="3" step="0.05"
+                                            value={videoAdj.adjustments.zoom}
+                                            onChange={(e) => {
+                                                previewVideoAdj({ zoom: Number(e.target.value) })
+                                                ipcRenderer.send('mpv-command', ['set_property', 'video-zoom', Number(e.target.value)])
+                                            }}
+                                            onMouseUp={(e) => updateVideoAdj({ zoom: Number(e.currentTarget.value) })}
+                                            style={rangeStyle}
+                                        />
+                                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '6px', fontSize: '11px', color: 'rgba(255,255,255,0.3)' }}>
+                                            <span>Ctrl + Wheel to zoom, Ctrl + Drag to pan</span>
+                                            {(videoAdj.adjustments.zoom !== 0 || videoAdj.adjustments.panX !== 0 || videoAdj.adjustments.panY !== 0) && (
+                                                <HoverButton onClick={() => updateVideoAdj({ zoom: 0, panX: 0, panY: 0 })}>
+                                                    Fit
+                                                </HoverButton>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         </>
                     )
@@ -563,6 +949,44 @@ export default function SettingsMenu({
                                     />
                                 </div>
 
+                                {audioOut && (
+                                    <>
+                                        <div style={{ marginBottom: '16px' }}>
+                                            <label style={labelStyle}>Output Device</label>
+                                            <CustomSelect
+                                                options={deviceOptions}
+                                                value={deviceOptions.find(o => o.selected)}
+                                                onChange={async (name: string) => setAudioOut(await ipcRenderer.invoke('set-audio-device', name))}
+                                                placeholder="System default"
+                                            />
+                                        </div>
+
+                                        <div style={{ marginBottom: '16px' }}>
+                                            <label style={labelStyle}>Passthrough (S/PDIF / HDMI)</label>
+                                            <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+                                                {audioOut.codecs.map(codec => (
+                                                    <HoverButton
+                                                        key={codec}
+                                                        onClick={() => toggleSpdifCodec(codec)}
+                                                        isActive={audioOut.settings.spdif.includes(codec)}
+                                                        tooltip={`Send ${codec.toUpperCase()} undecoded to the receiver`}
+                                                        style={{ flex: 1, padding: '8px 4px', fontSize: '11px' }}
+                                                    >
+                                                        {codec.toUpperCase()}
+                                                    </HoverButton>
+                                                ))}
+                                            </div>
+                                        </div>
+
+                                        <SettingItem label="Exclusive Mode" description="Take over the device, bypassing the system mixer.">
+                                            <Toggle
+                                                checked={audioOut.settings.exclusive}
+                                                onChange={async () => setAudioOut(await ipcRenderer.invoke('set-audio-output', { exclusive: !audioOut.settings.exclusive }))}
+                                            />
+                                        </SettingItem>
+                                    </>
+                                )}
+
                                 <div style={{ marginBottom: '8px' }}>
                                     <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '8px' }}>
                                         <label style={{ ...labelStyle, marginBottom: 0 }}>Sync Adjustment</label>
@@ -581,6 +1005,116 @@ export default function SettingsMenu({
                                         <span>Later (+2s)</span>
                                     </div>
                                 </div>
+
+                                {audioFx && (
+                                    <>
+                                        {/* Equalizer */}
+                                        <SettingItem label="Equalizer" description="10-band graphic equalizer.">
+                                            <Toggle checked={audioFx.settings.equalizerEnabled} onChange={() => updateAudioFx({ equalizerEnabled: !audioFx.settings.equalizerEnabled })} />
+                                        </SettingItem>
+
+                                        {audioFx.settings.equalizerEnabled && (
+                                            <div style={{ marginBottom: '16px' }}>
+                                                <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                                    <div style={{ flex: 1, minWidth: 0 }}>
+                                                        <CustomSelect
+                                                            options={eqPresetOptions}
+                                                            value={currentEqPreset}
+                                                            onChange={(name: string) => {
+                                                                const preset = audioFx.presets.find(p => p.name === name)
+                                                                if (preset) updateAudioFx({ equalizer: preset.gains })
+                                                            }}
+                                                            placeholder="Custom"
+                                                        />
+                                                    </div>
+                                                    {currentCustomPreset && (
+                                                        <HoverButton
+                                                            onClick={async () => setAudioFx(await ipcRenderer.invoke('delete-equalizer-preset', currentCustomPreset.name))}
+                                                            tooltip="Delete this preset"
+                                                            style={{ display: 'flex', alignItems: 'center', padding: '8px' }}
+                                                        >
+                                                            <X size={12} />
+                                                        </HoverButton>
+                                                    )}
+                                                </div>
+
+                                                <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '14px' }}>
+                                                    {audioFx.bands.map((freq, i) => (
+                                                        <div key={freq} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '6px', flex: 1 }}>
+                                                            <span style={{ fontSize: '10px', color: '#3b82f6', fontWeight: 600 }}>
+                                                                {audioFx.settings.equalizer[i] > 0 ? '+' : ''}{audioFx.settings.equalizer[i]}
+                                                            </span>
+                                                            <input
+                                                                type="range"
+                                                                min="-12" max="12" step="0.5"
+                                                                value={audioFx.settings.equalizer[i]}
+                                                                onChange={(e) => setEqBand(i, Number(e.target.value))}
+                                                                onMouseUp={() => updateAudioFx({ equalizer: audioFx.settings.equalizer })}
+                                                                onDoubleClick={() => updateAudioFx({ equalizer: audioFx.settings.equalizer.map((g, j) => j === i ? 0 : g) })}
+                                                                title="Double-click to reset"
+                                                                style={{ writingMode: 'vertical-lr', direction: 'rtl', height: '110px', width: '18px', accentColor: '#3b82f6', cursor: 'pointer' }}
+                                                            />
+                                                            <span style={{ fontSize: '10px', color: 'rgba(255,255,255,0.4)' }}>
+                                                                {freq >= 1000 ? `${freq / 1000}k` : freq}
+                                                            </span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+
+                                                <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+                                                    <input
+                                                        type="text"
+                                                        value={presetName}
+                                                        onChange={(e) => setPresetName(e.target.value)}
+                                                        onKeyDown={(e) => { if (e.key === 'Enter') saveEqPreset() }}
+                                                        placeholder="Preset name..."
+                                                        style={{
+                                                            flex: 1,
+                                                            minWidth: 0,
+                                                            background: 'rgba(255,255,255,0.05)',
+                                                            color: '#fff',
+                                                            border: '1px solid rgba(255,255,255,0.08)',
+                                                            borderRadius: '8px',
+                                                            padding: '8px 12px',
+                                                            fontSize: '12px',
+                                                            outline: 'none'
+                                                        }}
+                                                    />
+                                                    <HoverButton onClick={saveEqPreset} tooltip="Save the current curve as a preset">
+                                                        Save preset
+                                                    </HoverButton>
+                                                </div>
+                                            </div>
+                                        )}
+
+                                        {/* Effects */}
+                                        <SettingItem label="Loudness Normalization" description="Even out volume between files and scenes (EBU R128).">
+                                            <Toggle checked={audioFx.settings.normalize} onChange={() => updateAudioFx({ normalize: !audioFx.settings.normalize })} />
+                                        </SettingItem>
+
+                                        <SettingItem label="Night Mode" description="Compress loud effects and lift quiet passages.">
+                                            <Toggle checked={audioFx.settings.nightMode} onChange={() => updateAudioFx({ nightMode: !audioFx.settings.nightMode })} />
+                                        </SettingItem>
+
+                                        <SettingItem label="Dialog Boost" description="Make speech stand out from music and effects.">
+                                            <Toggle checked={audioFx.settings.dialogBoost} onChange={() => updateAudioFx({ dialogBoost: !audioFx.settings.dialogBoost })} />
+                                        </SettingItem>
+
+                                        <SettingItem label="Stereo Downmix" description="Mix 5.1/7.1 surround down to two channels.">
+                                            <Toggle checked={audioFx.settings.downmix} onChange={() => updateAudioFx({ downmix: !audioFx.settings.downmix })} />
+                                        </SettingItem>
+
+                                        <SettingItem
+                                            label="Remember for This File"
+                                            description={audioFx.perFile ? 'This file keeps its own sound settings.' : 'Changes apply to every file.'}
+                                        >
+                                            <Toggle
+                                                checked={audioFx.perFile}
+                                                onChange={async () => audioFx.canSavePerFile && setAudioFx(await ipcRenderer.invoke('set-audio-filters-per-file', !audioFx.perFile))}
+                                            />
+                                        </SettingItem>
+                                    </>
+                                )}
                             </div>
                         </>
                     )
@@ -622,6 +1156,122 @@ export default function SettingsMenu({
                                     </div>
                                 </div>
 
+                                {/* Subtitle Sync Tool */}
+                                <div style={{ marginBottom: '20px' }}>
+                                    <label style={labelStyle}>Sync &amp; Edit</label>
+                                    <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+                                        <HoverButton
+                                            onClick={handleAutoSync}
+                                            isActive={isSyncing}
+                                            tooltip={isSyncing ? 'Cancel' : 'Match the selected subtitles to the speech in the audio'}
+                                            style={{ display: 'flex', alignItems: 'center', gap: '6px' }}
+                                        >
+                                            {isSyncing ? <RefreshCw size={12} style={{ animation: 'spin 1s linear infinite' }} /> : <Zap size={12} />}
+                                            {isSyncing ? 'Analyzing... (cancel)' : 'Auto Sync'}
+                                        </HoverButton>
+                                        <HoverButton
+                                            onClick={() => setSyncDrift(!syncDrift)}
+                                            isActive={syncDrift}
+                                            tooltip="Also correct subtitles that slowly drift out of sync"
+                                        >
+                                            Fix drift
+                                        </HoverButton>
+                                        <HoverButton
+                                            onClick={toggleTwoPointSync}
+                                            isActive={!!syncCues}
+                                            tooltip="Mark two lines when they are spoken"
+                                        >
+                                            Two-point
+                                        </HoverButton>
+                                        <HoverButton
+                                            onClick={onOpenSubtitleEditor}
+                                            tooltip="Edit the lines and timing of the selected subtitle track"
+                                            style={{ display: 'flex', alignItems: 'center', gap: '6px' }}
+                                        >
+                                            <FileText size={12} /> Edit
+                                        </HoverButton>
+                                    </div>
+
+                                    {syncCues && (
+                                        <div style={{ marginTop: '10px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                                            {syncPoints.map((point, i) => (
+                                                <div
+                                                    key={i}
+                                                    onClick={() => setActiveSyncPoint(i)}
+                                                    style={{
+                                                        display: 'flex', alignItems: 'center', gap: '8px',
+                                                        padding: '8px 10px', borderRadius: '8px', cursor: 'pointer',
+                                                        background: activeSyncPoint === i ? 'rgba(59,130,246,0.15)' : 'rgba(255,255,255,0.03)',
+                                                        border: activeSyncPoint === i ? '1px solid rgba(59,130,246,0.4)' : '1px solid transparent'
+                                                    }}
+                                                >
+                                                    <div style={{ flex: 1, minWidth: 0 }}>
+                                                        <div style={{ color: '#fff', fontSize: '12px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                                            {i + 1}. {point.cue !== null ? point.text : 'Pick a line below'}
+                                                        </div>
+                                                        <div style={{ color: 'rgba(255,255,255,0.4)', fontSize: '10px' }}>
+                                                            {point.cue !== null ? formatCueTime(point.cue) : '--:--'} → {point.actual !== null ? formatCueTime(point.actual) : 'not marked'}
+                                                        </div>
+                                                    </div>
+                                                    <HoverButton
+                                                        onClick={(e: any) => {
+                                                            e.stopPropagation()
+                                                            updateSyncPoint(i, { actual: playbackTimeRef.current })
+                                                        }}
+                                                        tooltip="The line is spoken right now"
+                                                    >
+                                                        Mark now
+                                                    </HoverButton>
+                                                </div>
+                                            ))}
+
+                                            <input
+                                                type="text"
+                                                value={cueFilter}
+                                                onChange={(e) => setCueFilter(e.target.value)}
+                                                placeholder="Filter lines..."
+                                                style={{
+                                                    background: 'rgba(255,255,255,0.05)',
+                                                    color: '#fff',
+                                                    border: '1px solid rgba(255,255,255,0.08)',
+                                                    borderRadius: '8px',
+                                                    padding: '8px 10px',
+                                                    fontSize: '12px',
+                                                    outline: 'none'
+                                                }}
+                                            />
+                                            <div style={{ display: 'flex', flexDirection: 'column', gap: '2px', maxHeight: '160px', overflowY: 'auto' }} className="custom-scroll">
+                                                {syncCues
+                                                    .filter(c => c.text.toLowerCase().includes(cueFilter.toLowerCase()))
+                                                    .slice(0, 200)
+                                                    .map((cue, i) => (
+                                                        <div
+                                                            key={`${cue.start}-${i}`}
+                                                            onClick={() => updateSyncPoint(activeSyncPoint, { cue: cue.start, text: cue.text.replace(/\n/g, ' ') })}
+                                                            style={{
+                                                                display: 'flex', gap: '8px', padding: '4px 8px', borderRadius: '6px', cursor: 'pointer',
+                                                                fontSize: '11px', color: 'rgba(255,255,255,0.7)',
+                                                                background: syncPoints[activeSyncPoint].cue === cue.start ? 'rgba(59,130,246,0.2)' : 'transparent'
+                                                            }}
+                                                        >
+                                                            <span style={{ color: 'rgba(255,255,255,0.35)', flexShrink: 0 }}>{formatCueTime(cue.start)}</span>
+                                                            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{cue.text.replace(/\n/g, ' ')}</span>
+                                                        </div>
+                                                    ))}
+                                            </div>
+
+                                            <HoverButton
+                                                onClick={applyTwoPointSync}
+                                                isActive={syncPoints.some(p => p.cue !== null && p.actual !== null)}
+                                                tooltip="One point shifts the subtitles, two points also fix drift"
+                                                style={{ alignSelf: 'flex-end' }}
+                                            >
+                                                Apply
+                                            </HoverButton>
+                                        </div>
+                                    )}
+                                </div>
+
                                 <div style={{ marginBottom: '16px' }}>
                                     <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '8px' }}>
                                         <label style={{ ...labelStyle, marginBottom: 0 }}>Subtitle Size</label>
@@ -674,6 +1324,146 @@ export default function SettingsMenu({
                                     </button>
                                 </div>
 
+                                {/* Automatic Matching */}
+                                <SettingItem label="Auto-download Subtitles" description="Find subtitles for this exact release when a file opens.">
+                                    <Toggle checked={subPrefs.autoDownload} onChange={() => updateSubPrefs({ autoDownload: !subPrefs.autoDownload })} />
+                                </SettingItem>
+
+                                <div style={{ marginBottom: '16px' }}>
+                                    <label style={labelStyle}>Preferred Languages</label>
+                                    <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '8px' }}>
+                                        {subPrefs.languages.map((id, i) => (
+                                            <HoverButton
+                                                key={id}
+                                                onClick={() => updateSubPrefs({ languages: subPrefs.languages.filter(l => l !== id) })}
+                                                tooltip="Remove language"
+                                                style={{ display: 'flex', alignItems: 'center', gap: '6px' }}
+                                            >
+                                                {i + 1}. {subPrefs.available.find(l => l.id === id)?.name || id} <X size={10} />
+                                            </HoverButton>
+                                        ))}
+                                    </div>
+                                    <CustomSelect
+                                        options={subPrefs.available
+                                            .filter(l => !subPrefs.languages.includes(l.id))
+                                            .map(l => ({ value: l.id, label: l.name }))}
+                                        value={null}
+                                        onChange={(val: string) => updateSubPrefs({ languages: [...subPrefs.languages, val] })}
+                                        placeholder="Add language..."
+                                    />
+                                </div>
+
+                                {/* Subtitle Search */}
+                                <div style={{ marginTop: '16px' }}>
+                                    <label style={labelStyle}>Search Subtitles</label>
+                                    <div style={{ display: 'flex', gap: '8px' }}>
+                                        <input
+                                            type="text"
+                                            value={searchQuery}
+                                            onChange={(e) => setSearchQuery(e.target.value)}
+                                            onKeyDown={(e) => { if (e.key === 'Enter') handleSearchSubs() }}
+                                            placeholder="Movie or episode name..."
+                                            style={{
+                                                flex: 1,
+                                                minWidth: 0,
+                                                background: 'rgba(255,255,255,0.05)',
+                                                color: '#fff',
+                                                border: '1px solid rgba(255,255,255,0.08)',
+                                                borderRadius: '8px',
+                                                padding: '10px 12px',
+                                                fontSize: '12px',
+                                                outline: 'none'
+                                            }}
+                                        />
+                                        <HoverButton
+                                            onClick={handleSearchSubs}
+                                            tooltip="Search subdl.com"
+                                            style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '10px 14px', borderRadius: '8px', fontSize: '12px' }}
+                                        >
+                                            {isSearching ? <RefreshCw size={14} style={{ animation: 'spin 1s linear infinite' }} /> : <Search size={14} />}
+                                            Search
+                                        </HoverButton>
+                                    </div>
+
+                                    {searchResults.length > 0 && (
+                                        <div style={{ marginTop: '10px', display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '180px', overflowY: 'auto' }} className="custom-scroll">
+                                            {searchResults.map(sub => (
+                                                <div
+                                                    key={sub.id}
+                                                    style={{
+                                                        display: 'flex', alignItems: 'center', gap: '8px',
+                                                        padding: '8px 10px', borderRadius: '8px',
+                                                        background: 'rgba(255,255,255,0.03)'
+                                                    }}
+                                                >
+                                                    <div style={{ flex: 1, minWidth: 0 }}>
+                                                        <div style={{ color: '#fff', fontSize: '12px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={sub.filename}>
+                                                            {sub.filename}
+                                                        </div>
+                                                        <div style={{ color: 'rgba(255,255,255,0.4)', fontSize: '10px', textTransform: 'capitalize' }}>
+                                                            {sub.language || 'Unknown'} · {sub.provider}
+                                                        </div>
+                                                    </div>
+                                                    <HoverButton
+                                                        onClick={() => handleDownloadSub(sub)}
+                                                        tooltip="Download and load"
+                                                        isActive={downloadingId === sub.id}
+                                                        style={{ display: 'flex', alignItems: 'center', padding: '6px 8px' }}
+                                                    >
+                                                        {downloadingId === sub.id ? <RefreshCw size={12} style={{ animation: 'spin 1s linear infinite' }} /> : <Download size={12} />}
+                                                    </HoverButton>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    {!isSearching && hasSearched && searchResults.length === 0 && (
+                                        <div style={{ marginTop: '8px', fontSize: '11px', color: 'rgba(255,255,255,0.3)', textAlign: 'center' }}>
+                                            No subtitles found
+                                        </div>
+                                    )}
+                                </div>
+
+                                {/* Subtitle Sources */}
+                                <div style={{ marginTop: '16px' }}>
+                                    <label style={labelStyle}>Sources</label>
+                                    <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+                                        {subProviders.map(p => (
+                                            <HoverButton
+                                                key={p.id}
+                                                onClick={() => toggleSubProvider(p.id, !p.enabled)}
+                                                isActive={p.enabled}
+                                                tooltip={p.enabled ? `Disable ${p.name}` : `Enable ${p.name}`}
+                                            >
+                                                {p.name}
+                                            </HoverButton>
+                                        ))}
+                                    </div>
+
+                                    <div style={{ marginTop: '10px', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                                        {subFolders.map(folder => (
+                                            <div key={folder} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '11px', color: 'rgba(255,255,255,0.6)' }}>
+                                                <FolderOpen size={12} style={{ flexShrink: 0 }} />
+                                                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={folder}>{folder}</span>
+                                                <HoverButton
+                                                    onClick={async () => setSubFolders(await ipcRenderer.invoke('remove-subtitle-folder', folder))}
+                                                    tooltip="Remove folder"
+                                                    style={{ display: 'flex', alignItems: 'center', padding: '4px 6px' }}
+                                                >
+                                                    <X size={10} />
+                                                </HoverButton>
+                                            </div>
+                                        ))}
+                                        <HoverButton
+                                            onClick={async () => setSubFolders(await ipcRenderer.invoke('add-subtitle-folder'))}
+                                            tooltip="Also search subtitle files in this folder"
+                                            style={{ alignSelf: 'flex-start', display: 'flex', alignItems: 'center', gap: '6px' }}
+                                        >
+                                            <FolderOpen size={12} /> Add subtitle folder
+                                        </HoverButton>
+                                    </div>
+                                </div>
+
                                 {/* Online Sources */}
                                 <div style={{ marginTop: '16px' }}>
                                     <label style={labelStyle}>Find Online</label>
@@ -756,7 +1546,110 @@ export default function SettingsMenu({
                                 </SettingItem>
 
                                 <div style={{ marginTop: '16px' }}>
-                                    <div style={{ marginTop: '16px' }}>
+                                    <label style={labelStyle}>Screenshots</label>
+                                    {shotSettings && (
+                                        <>
+                                            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '11px', color: 'rgba(255,255,255,0.6)', marginTop: '8px' }}>
+                                                <FolderOpen size={12} style={{ flexShrink: 0 }} />
+                                                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={shotSettings.folder}>{shotSettings.folder}</span>
+                                                <HoverButton
+                                                    onClick={async () => setShotSettings(await ipcRenderer.invoke('choose-screenshot-folder'))}
+                                                    tooltip="Choose where screenshots are saved"
+                                                >
+                                                    Change
+                                                </HoverButton>
+                                            </div>
+
+                                            <div style={{ marginTop: '12px' }}>
+                                                <input
+                                                    key={shotSettings.template}
+                                                    type="text"
+                                                    defaultValue={shotSettings.template}
+                                                    onBlur={(e) => e.target.value !== shotSettings.template && updateShotSettings({ template: e.target.value })}
+                                                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                                                    placeholder="{title} - {timestamp}"
+                                                    style={{
+                                                        width: '100%',
+                                                        boxSizing: 'border-box',
+                                                        background: 'rgba(255,255,255,0.05)',
+                                                        color: '#fff',
+                                                        border: '1px solid rgba(255,255,255,0.08)',
+                                                        borderRadius: '8px',
+                                                        padding: '10px 12px',
+                                                        fontSize: '12px',
+                                                        outline: 'none'
+                                                    }}
+                                                />
+                                                <div style={{ fontSize: '11px', color: 'rgba(255,255,255,0.3)', marginTop: '5px' }}>
+                                                    {'{title} {timestamp} {frame} {date}'}
+                                                </div>
+                                            </div>
+
+                                            <div style={{ display: 'flex', gap: '6px', marginTop: '12px' }}>
+                                                {(['jpg', 'png', 'webp'] as const).map(f => (
+                                                    <HoverButton
+                                                        key={f}
+                                                        onClick={() => updateShotSettings({ format: f })}
+                                                        isActive={shotSettings.format === f}
+                                                        style={{ flex: 1, padding: '8px 12px', fontSize: '12px' }}
+                                                    >
+                                                        {f.toUpperCase()}
+                                                    </HoverButton>
+                                                ))}
+                                            </div>
+
+                                            {shotSettings.format !== 'png' && (
+                                                <div style={{ marginTop: '12px' }}>
+                                                    <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '8px' }}>
+                                                        <label style={{ ...labelStyle, marginBottom: 0 }}>Quality</label>
+                                                        <span style={{ color: '#3b82f6', fontSize: '12px', fontWeight: 600 }}>{shotSettings.quality}</span>
+                                                    </div>
+                                                    <input
+                                                        type="range"
+                                                        min="1" max="100" step="1"
+                                                        value={shotSettings.quality}
+                                                        onChange={(e) => setShotSettings({ ...shotSettings, quality: Number(e.target.value) })}
+                                                        onMouseUp={(e) => updateShotSettings({ quality: Number(e.currentTarget.value) })}
+                                                        style={rangeStyle}
+                                                    />
+                                                </div>
+                                            )}
+
+                                            <SettingItem label="Include Subtitles" description="Capture the subtitles shown on screen.">
+                                                <Toggle checked={shotSettings.subtitles} onChange={() => updateShotSettings({ subtitles: !shotSettings.subtitles })} />
+                                            </SettingItem>
+
+                                            <div style={{ marginTop: '12px' }}>
+                                                <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '8px' }}>
+                                                    <label style={{ ...labelStyle, marginBottom: 0 }}>Burst (Shift+S)</label>
+                                                    <span style={{ color: '#3b82f6', fontSize: '12px', fontWeight: 600 }}>{shotSettings.burstCount} shots</span>
+                                                </div>
+                                                <input
+                                                    type="range"
+                                                    min="2" max="50" step="1"
+                                                    value={shotSettings.burstCount}
+                                                    onChange={(e) => setShotSettings({ ...shotSettings, burstCount: Number(e.target.value) })}
+                                                    onMouseUp={(e) => updateShotSettings({ burstCount: Number(e.currentTarget.value) })}
+                                                    style={rangeStyle}
+                                                />
+                                                <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+                                                    {[0, 0.5, 1, 5].map(interval => (
+                                                        <HoverButton
+                                                            key={interval}
+                                                            onClick={() => updateShotSettings({ burstInterval: interval })}
+                                                            isActive={shotSettings.burstInterval === interval}
+                                                            tooltip={interval === 0 ? 'Consecutive frames' : `One shot every ${interval}s`}
+                                                            style={{ flex: 1, padding: '8px 12px', fontSize: '12px' }}
+                                                        >
+                                                            {interval === 0 ? 'Every frame' : `${interval}s`}
+                                                        </HoverButton>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        </>
+                                    )}
+
+                                    <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
                                         <HoverButton
                                             onClick={takeScreenshot}
                                             style={{
@@ -766,6 +1659,15 @@ export default function SettingsMenu({
                                         >
                                             <Camera size={14} /> Screenshot
                                         </HoverButton>
+                                        <HoverButton
+                                            onClick={() => ipcRenderer.invoke('screenshot-burst')}
+                                            style={{
+                                                display: 'flex', alignItems: 'center', gap: '8px', padding: '10px 16px',
+                                                borderRadius: '8px', fontSize: '13px', fontWeight: 500
+                                            }}
+                                        >
+                                            <Layers size={14} /> Burst
+                                        </HoverButton>
                                     </div>
                                 </div>
                             </div>
@@ -863,6 +1765,14 @@ export default function SettingsMenu({
                     <X size={14} />
                 </button>
 
+                <ShaderPresetManager
+                    isOpen={showShaderManager}
+                    onClose={() => setShowShaderManager(false)}
+                    activePreset={shaderPreset}
+                    onApply={applyShaderPreset}
+                    onChange={(state) => setCustomShaders(state.presets.filter(p => !p.builtIn))}
+                />
+
                 {legalDoc && (
                     <LegalModal
                         filename={legalDoc.file}
@@ -1130,6 +2040,14 @@ const Toggle = ({ checked, onChange }: any) => (
     </div>
 )
 
+// 1:02:03.4 / 02:03.4
+const formatCueTime = (seconds: number) => {
+    const h = Math.floor(seconds / 3600)
+    const m = Math.floor((seconds % 3600) / 60)
+    const s = (seconds % 60).toFixed(1).padStart(4, '0')
+    return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m.toString().padStart(2, '0')}:${s}`
+}
+
 const headerStyle = {
     color: 'rgba(255,255,255,0.5)',
     fontSize: '11px',
@@ -0,0 +1,405 @@
+/**
+ * Shader Preset Manager
+ * Named shader chains over the built-in and imported .glsl files, with per-shader options and JSON import/export
+ */
+
+import React, { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { Sparkles, X, ArrowUp, ArrowDown, Trash2, Plus, Upload, Download } from 'lucide-react'
+
+const { ipcRenderer } = (window as any).require('electron')
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ShaderSource = 'builtin' | 'user'
+
+interface ShaderRef {
+    file: string
+    source: ShaderSource
+    opts?: Record<string, string>
+}
+
+export interface ShaderPreset {
+    id: string
+    name: string
+    shaders: ShaderRef[]
+    builtIn: boolean
+    missing: string[]
+}
+
+export interface ShaderPresetState {
+    presets: ShaderPreset[]
+    shaders: { builtIn: string[], user: string[] }
+}
+
+// Options are edited as "key=value" text and parsed on save
+interface DraftShader {
+    file: string
+    source: ShaderSource
+    opts: string
+}
+
+interface Draft {
+    id?: string
+    name: string
+    shaders: DraftShader[]
+}
+
+interface ShaderPresetManagerProps {
+    isOpen: boolean
+    onClose: () => void
+    activePreset: string
+    onApply: (id: string) => void
+    onChange: (state: ShaderPresetState) => void
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EMPTY_DRAFT: Draft = { name: '', shaders: [] }
+
+const sectionLabelStyle: React.CSSProperties = {
+    fontSize: '11px',
+    color: 'rgba(255,255,255,0.5)',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    margin: '14px 0 6px'
+}
+
+const inputStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.06)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '8px',
+    padding: '7px 10px',
+    color: '#fff',
+    fontSize: '12px',
+    outline: 'none'
+}
+
+const chipStyle = (active: boolean, disabled = false): React.CSSProperties => ({
+    flex: 1,
+    background: active ? '#3b82f6' : 'rgba(255,255,255,0.08)',
+    border: 'none',
+    borderRadius: '8px',
+    padding: '7px 0',
+    color: active ? '#fff' : 'rgba(255,255,255,0.7)',
+    fontSize: '12px',
+    fontWeight: 500,
+    cursor: disabled ? 'default' : 'pointer',
+    opacity: disabled ? 0.35 : 1,
+    transition: 'all 0.2s'
+})
+
+const iconButtonStyle: React.CSSProperties = {
+    background: 'transparent',
+    border: 'none',
+    padding: '4px',
+    color: 'rgba(255,255,255,0.5)',
+    cursor: 'pointer',
+    display: 'flex'
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toDraft(preset: ShaderPreset): Draft {
+    return {
+        // Built-in presets can't be changed, editing one starts a copy
+        id: preset.builtIn ? undefined : preset.id,
+        name: preset.builtIn ? `${preset.name.replace(/^\S+\s/, '')} (copy)` : preset.name,
+        shaders: preset.shaders.map(s => ({
+            file: s.file,
+            source: s.source,
+            opts: Object.entries(s.opts || {}).map(([k, v]) => `${k}=${v}`).join(', ')
+        }))
+    }
+}
+
+function parseOpts(text: string): Record<string, string> | undefined {
+    const entries = text
+        .split(/[,\n]/)
+        .map(part => part.split('='))
+        .filter(([key, value]) => key?.trim() && value?.trim())
+        .map(([key, value]) => [key.trim(), value.trim()])
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function ShaderPresetManager({ isOpen, onClose, activePreset, onApply, onChange }: ShaderPresetManagerProps) {
+    const [state, setState] = useState<ShaderPresetState | null>(null)
+    const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT)
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+
+    const update = (next: ShaderPresetState) => {
+        setState(next)
+        onChange(next)
+    }
+
+    useEffect(() => {
+        if (!isOpen) return
+        ipcRenderer.invoke('get-shader-presets').then((next: ShaderPresetState) => {
+            update(next)
+            // Open on the preset in use when it's a custom one
+            const active = next.presets.find(p => p.id === activePreset && !p.builtIn)
+            setSelectedId(active?.id || null)
+            setDraft(active ? toDraft(active) : EMPTY_DRAFT)
+        })
+    }, [isOpen])
+
+    const isAvailable = (shader: DraftShader) =>
+        !!state && (shader.source === 'user' ? state.shaders.user : state.shaders.builtIn).includes(shader.file)
+
+    const selectPreset = (preset: ShaderPreset) => {
+        setSelectedId(preset.id)
+        setDraft(toDraft(preset))
+    }
+
+    const updateShader = (index: number, changes: Partial<DraftShader>) => {
+        setDraft(d => ({ ...d, shaders: d.shaders.map((s, i) => i === index ? { ...s, ...changes } : s) }))
+    }
+
+    const moveShader = (index: number, offset: number) => {
+        setDraft(d => {
+            const shaders = [...d.shaders]
+            const [moved] = shaders.splice(index, 1)
+            shaders.splice(index + offset, 0, moved)
+            return { ...d, shaders }
+        })
+    }
+
+    const addShader = (value: string) => {
+        const [source, file] = value.split(':') as [ShaderSource, string]
+        if (!file) return
+        setDraft(d => ({ ...d, shaders: [...d.shaders, { file, source, opts: '' }] }))
+    }
+
+    const handleImportShaders = async () => {
+        const next = await ipcRenderer.invoke('import-shader-files')
+        update(next)
+        // Imported shaders go straight to the end of the chain
+        setDraft(d => ({ ...d, shaders: [...d.shaders, ...next.imported.map((file: string) => ({ file, source: 'user' as const, opts: '' }))] }))
+    }
+
+    const handleSave = async (): Promise<string | null> => {
+        const next = await ipcRenderer.invoke('save-shader-preset', {
+            id: draft.id,
+            name: draft.name,
+            shaders: draft.shaders.map(s => ({ file: s.file, source: s.source, opts: parseOpts(s.opts) }))
+        })
+        update(next)
+        if (!next.savedId) return null
+        setSelectedId(next.savedId)
+        setDraft(d => ({ ...d, id: next.savedId }))
+        return next.savedId
+    }
+
+    const handleApply = async () => {
+        const id = await handleSave()
+        if (id) onApply(id)
+    }
+
+    const handleDelete = async () => {
+        if (!draft.id) return
+        update(await ipcRenderer.invoke('delete-shader-preset', draft.id))
+        if (activePreset === draft.id) onApply('none')
+        setSelectedId(null)
+        setDraft(EMPTY_DRAFT)
+    }
+
+    if (!isOpen) return null
+
+    const userPresets = state?.presets.filter(p => !p.builtIn) || []
+    const builtInPresets = state?.presets.filter(p => p.builtIn) || []
+    const canSave = draft.name.trim().length > 0 && draft.shaders.length > 0
+
+    const modalContent = (
+        // Opened from the settings menu, which closes on clicks outside of it unless they land in a portal
+        <div
+            data-dropdown-portal="true"
+            onClick={onClose}
+            onWheel={e => e.stopPropagation()}
+            style={{
+                position: 'fixed',
+                inset: 0,
+                background: 'rgba(0,0,0,0.5)',
+                zIndex: 1100,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                pointerEvents: 'auto'
+            }}
+        >
+            <div
+                onClick={e => e.stopPropagation()}
+                style={{
+                    width: 'min(640px, 92vw)',
+                    maxHeight: '86vh',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    background: 'rgba(12, 12, 12, 0.98)',
+                    border: '1px solid rgba(255,255,255,0.08)',
+                    borderRadius: '14px',
+                    padding: '18px 20px',
+                    color: '#fff',
+                    fontFamily: 'Inter, sans-serif'
+                }}
+            >
+                {/* Header */}
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                        <Sparkles size={18} color="rgba(255,255,255,0.7)" />
+                        <h2 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>Shader Presets</h2>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        style={{ background: 'rgba(255,255,255,0.08)', border: 'none', borderRadius: '8px', width: '32px', height: '32px', display: 'flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer', color: 'rgba(255,255,255,0.6)' }}
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+
+                <div style={{ display: 'flex', gap: '16px', minHeight: 0, flex: 1, marginTop: '6px' }}>
+                    {/* Preset list */}
+                    <div style={{ width: '180px', flexShrink: 0, overflowY: 'auto' }} className="custom-scroll">
+                        <div style={sectionLabelStyle}>My Presets</div>
+                        <button
+                            onClick={() => { setSelectedId(null); setDraft(EMPTY_DRAFT) }}
+                            style={{ ...chipStyle(selectedId === null), width: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}
+                        >
+                            <Plus size={12} /> New preset
+                        </button>
+                        {userPresets.map(p => (
+                            <button
+                                key={p.id}
+                                onClick={() => selectPreset(p)}
+                                title={p.missing.length > 0 ? `Missing: ${p.missing.join(', ')}` : undefined}
+                                style={{ ...chipStyle(selectedId === p.id), width: '100%', marginTop: '4px', padding: '7px 10px', textAlign: 'left', color: p.missing.length > 0 ? '#ff6b6b' : undefined }}
+                            >
+                                {p.name}
+                            </button>
+                        ))}
+
+                        <div style={sectionLabelStyle}>Start from built-in</div>
+                        {builtInPresets.map(p => (
+                            <button
+                                key={p.id}
+                                onClick={() => selectPreset(p)}
+                                style={{ ...chipStyle(selectedId === p.id), width: '100%', marginTop: '4px', padding: '7px 10px', textAlign: 'left' }}
+                            >
+                                {p.name}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Editor */}
+                    <div style={{ flex: 1, minWidth: 0, overflowY: 'auto' }} className="custom-scroll">
+                        <div style={sectionLabelStyle}>Name</div>
+                        <input
+                            value={draft.name}
+                            onChange={e => setDraft(d => ({ ...d, name: e.target.value }))}
+                            placeholder="My upscaler"
+                            style={{ ...inputStyle, width: '100%', boxSizing: 'border-box' }}
+                        />
+
+                        <div style={sectionLabelStyle}>Chain (runs top to bottom)</div>
+                        {draft.shaders.length === 0 && (
+                            <div style={{ fontSize: '12px', color: 'rgba(255,255,255,0.4)', padding: '6px 0' }}>
+                                Add shaders below or import your own .glsl files.
+                            </div>
+                        )}
+                        {draft.shaders.map((shader, i) => (
+                            <div key={i} style={{ background: 'rgba(255,255,255,0.04)', borderRadius: '8px', padding: '8px 10px', marginBottom: '6px' }}>
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                    <span style={{ fontSize: '11px', color: 'rgba(255,255,255,0.4)', width: '14px' }}>{i + 1}</span>
+                                    <span
+                                        title={isAvailable(shader) ? shader.file : `${shader.file} is missing`}
+                                        style={{ flex: 1, fontSize: '12px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: isAvailable(shader) ? '#fff' : '#ff6b6b' }}
+                                    >
+                                        {shader.file}
+                                    </span>
+                                    <span style={{ fontSize: '10px', color: 'rgba(255,255,255,0.35)' }}>{shader.source === 'user' ? 'imported' : 'built-in'}</span>
+                                    <button disabled={i === 0} onClick={() => moveShader(i, -1)} style={{ ...iconButtonStyle, opacity: i === 0 ? 0.3 : 1 }}><ArrowUp size={13} /></button>
+                                    <button disabled={i === draft.shaders.length - 1} onClick={() => moveShader(i, 1)} style={{ ...iconButtonStyle, opacity: i === draft.shaders.length - 1 ? 0.3 : 1 }}><ArrowDown size={13} /></button>
+                                    <button onClick={() => setDraft(d => ({ ...d, shaders: d.shaders.filter((_, j) => j !== i) }))} style={iconButtonStyle}><Trash2 size={13} /></button>
+                                </div>
+                                <input
+                                    value={shader.opts}
+                                    onChange={e => updateShader(i, { opts: e.target.value })}
+                                    placeholder="Options, e.g. STRENGTH=0.5"
+                                    title="glsl-shader-opts for the parameters this shader declares"
+                                    style={{ ...inputStyle, width: '100%', boxSizing: 'border-box', marginTop: '6px', fontFamily: 'monospace', fontSize: '11px' }}
+                                />
+                            </div>
+                        ))}
+
+                        <div style={{ display: 'flex', gap: '6px', marginTop: '4px' }}>
+                            <select
+                                value=""
+                                onChange={e => addShader(e.target.value)}
+                                style={{ ...inputStyle, flex: 1, minWidth: 0, cursor: 'pointer' }}
+                            >
+                                <option value="">Add shader...</option>
+                                {state && state.shaders.user.length > 0 && (
+                                    <optgroup label="Imported">
+                                        {state.shaders.user.map(file => <option key={`user:${file}`} value={`user:${file}`}>{file}</option>)}
+                                    </optgroup>
+                                )}
+                                {state && (
+                                    <optgroup label="Built-in">
+                                        {state.shaders.builtIn.map(file => <option key={`builtin:${file}`} value={`builtin:${file}`}>{file}</option>)}
+                                    </optgroup>
+                                )}
+                            </select>
+                            <button onClick={handleImportShaders} style={{ ...chipStyle(false), flex: 'none', padding: '7px 12px' }}>
+                                Import .glsl
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Actions */}
+                <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
+                    <button
+                        onClick={async () => update(await ipcRenderer.invoke('import-shader-presets'))}
+                        title="Add presets from a JSON file"
+                        style={{ ...chipStyle(false), flex: 'none', padding: '10px 12px', display: 'flex', alignItems: 'center', gap: '6px' }}
+                    >
+                        <Upload size={13} /> Import
+                    </button>
+                    <button
+                        onClick={() => ipcRenderer.invoke('export-shader-presets')}
+                        disabled={userPresets.length === 0}
+                        title="Save all your presets as JSON (the .glsl files are not included)"
+                        style={{ ...chipStyle(false, userPresets.length === 0), flex: 'none', padding: '10px 12px', display: 'flex', alignItems: 'center', gap: '6px' }}
+                    >
+                        <Download size={13} /> Export
+                    </button>
+                    <div style={{ flex: 1 }} />
+                    {draft.id && (
+                        <button
+                            onClick={handleDelete}
+                            style={{ background: 'rgba(255,80,80,0.15)', border: 'none', borderRadius: '8px', padding: '10px 14px', color: '#ff6b6b', fontSize: '12px', cursor: 'pointer' }}
+                        >
+                            Delete
+                        </button>
+                    )}
+                    <button onClick={handleSave} disabled={!canSave} style={{ ...chipStyle(false, !canSave), flex: 'none', padding: '10px 16px' }}>
+                        Save
+                    </button>
+                    <button onClick={handleApply} disabled={!canSave} style={{ ...chipStyle(true, !canSave), flex: 'none', padding: '10px 16px', fontWeight: 600 }}>
+                        Save & Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
@@ -0,0 +1,379 @@
+import React, { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Search, Save, Plus, Trash2, FileText, Play } from 'lucide-react'
+
+const { ipcRenderer } = (window as any).require('electron')
+
+interface SubtitleEditorPanelProps {
+    isOpen: boolean
+    onClose: () => void
+}
+
+interface EditorCue {
+    key: number
+    start: number
+    end: number
+    text: string
+    assFields?: string[]
+}
+
+type SubtitleFormat = 'srt' | 'vtt' | 'ass'
+
+const PAGE_SIZE = 100
+
+let nextCueKey = 0
+
+/**
+ * Format seconds as hh:mm:ss.mmm
+ */
+function formatCueTime(seconds: number): string {
+    const ms = Math.max(0, Math.round(seconds * 1000))
+    const hrs = Math.floor(ms / 3600000)
+    const mins = Math.floor((ms % 3600000) / 60000)
+    const secs = Math.floor((ms % 60000) / 1000)
+    return `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${(ms % 1000).toString().padStart(3, '0')}`
+}
+
+/**
+ * Parse hh:mm:ss.mmm, mm:ss.mmm or plain seconds (NaN when invalid)
+ */
+function parseCueTime(value: string): number {
+    const parts = value.trim().replace(',', '.').split(':')
+    if (parts.length > 3 || parts.some(p => p === '' || isNaN(Number(p)))) return NaN
+    return parts.reduce((total, part) => total * 60 + Number(part), 0)
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export default function SubtitleEditorPanel({ isOpen, onClose }: SubtitleEditorPanelProps) {
+    const [path, setPath] = useState<string | null>(null)
+    const [doc, setDoc] = useState<any>(null)
+    const [cues, setCues] = useState<EditorCue[]>([])
+    const [encoding, setEncoding] = useState('utf-8')
+    const [encodings, setEncodings] = useState<string[]>([])
+    const [isDirty, setIsDirty] = useState(false)
+    const [findText, setFindText] = useState('')
+    const [replaceText, setReplaceText] = useState('')
+    const [visibleCount, setVisibleCount] = useState(PAGE_SIZE)
+    const [currentTime, setCurrentTime] = useState(0)
+
+    const load = async (forcedEncoding?: string) => {
+        const result = await ipcRenderer.invoke('subtitle-editor-open', { encoding: forcedEncoding })
+        if (!result) {
+            onClose()
+            return
+        }
+        setPath(result.path)
+        setDoc(result.doc)
+        setCues(result.doc.cues.map((c: any) => ({ ...c, key: nextCueKey++ })))
+        setEncoding(result.encoding)
+        setEncodings(result.encodings)
+        setIsDirty(false)
+        setVisibleCount(PAGE_SIZE)
+    }
+
+    // Load the selected subtitle track when the panel opens
+    useEffect(() => {
+        if (isOpen) load()
+    }, [isOpen])
+
+    // Highlight the line being shown
+    useEffect(() => {
+        if (!isOpen) return
+        const onTime = (_: any, time: number) => setCurrentTime(time)
+        ipcRenderer.on('mpv-time', onTime)
+        return () => ipcRenderer.removeListener('mpv-time', onTime)
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const updateCue = (key: number, changes: Partial<EditorCue>) => {
+        setCues(prev => prev.map(c => c.key === key ? { ...c, ...changes } : c))
+        setIsDirty(true)
+    }
+
+    const insertCueAfter = (index: number) => {
+        const start = index >= 0 ? cues[index].end + 0.1 : 0
+        const cue = { key: nextCueKey++, start, end: start + 2, text: '' }
+        setCues(prev => [...prev.slice(0, index + 1), cue, ...prev.slice(index + 1)])
+        setIsDirty(true)
+    }
+
+    const removeCue = (key: number) => {
+        setCues(prev => prev.filter(c => c.key !== key))
+        setIsDirty(true)
+    }
+
+    const findRegex = findText ? new RegExp(escapeRegExp(findText), 'gi') : null
+    const matchCount = findRegex ? cues.reduce((n, c) => n + (c.text.match(findRegex)?.length || 0), 0) : 0
+    const filtered = findRegex ? cues.filter(c => c.text.match(findRegex)) : cues
+
+    const replaceAll = () => {
+        if (!findRegex || matchCount === 0) return
+        setCues(prev => prev.map(c => ({ ...c, text: c.text.replace(findRegex, () => replaceText) })))
+        setIsDirty(true)
+    }
+
+    const save = async (format?: SubtitleFormat) => {
+        if (!path || !doc) return
+        const saved = await ipcRenderer.invoke('subtitle-editor-save', {
+            path,
+            doc: { ...doc, cues: cues.map(({ key, ...cue }) => cue) },
+            format,
+            saveAs: !!format
+        })
+        if (saved && !format) setIsDirty(false)
+    }
+
+    const panelContent = (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                right: 0,
+                width: 'clamp(320px, 48vw, 560px)',
+                maxWidth: '95vw',
+                height: '100vh',
+                background: 'rgba(12, 12, 12, 0.98)',
+                backdropFilter: 'blur(20px)',
+                borderLeft: '1px solid rgba(255,255,255,0.08)',
+                zIndex: 1000,
+                display: 'flex',
+                flexDirection: 'column',
+                animation: 'slideInRight 0.3s ease-out',
+                pointerEvents: 'auto'
+            }}
+            onClick={(e) => e.stopPropagation()}
+        >
+            {/* Header */}
+            <div style={{
+                padding: 'clamp(12px, 2.5vw, 20px)',
+                borderBottom: '1px solid rgba(255,255,255,0.08)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: '10px'
+            }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 'clamp(6px, 1vw, 10px)', minWidth: 0 }}>
+                    <FileText size={18} color="rgba(255,255,255,0.7)" style={{ flexShrink: 0 }} />
+                    <div style={{ minWidth: 0 }}>
+                        <h2 style={{
+                            margin: 0,
+                            fontSize: 'clamp(12px, 1.8vw, 16px)',
+                            fontWeight: 600,
+                            color: '#fff',
+                            fontFamily: 'Inter, sans-serif'
+                        }}>
+                            Subtitle Editor{isDirty ? ' •' : ''}
+                        </h2>
+                        <div style={{ fontSize: '11px', color: 'rgba(255,255,255,0.4)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={path || ''}>
+                            {path ? path.split(/[/\\]/).pop() : 'Loading...'} · {cues.length} lines
+                        </div>
+                    </div>
+                </div>
+
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexShrink: 0 }}>
+                    <select
+                        value={encoding}
+                        onChange={(e) => load(e.target.value)}
+                        title="Re-read the file with another encoding"
+                        style={{ ...inputStyle, padding: '6px 8px', fontSize: '11px' }}
+                    >
+                        {encodings.map(enc => <option key={enc} value={enc} style={{ background: '#111' }}>{enc}</option>)}
+                    </select>
+                    <button onClick={onClose} style={iconButtonStyle}>
+                        <X size={16} />
+                    </button>
+                </div>
+            </div>
+
+            {/* Find / Replace */}
+            <div style={{ padding: '12px 20px', display: 'flex', flexDirection: 'column', gap: '8px', borderBottom: '1px solid rgba(255,255,255,0.05)' }}>
+                <div style={{ position: 'relative', display: 'flex', alignItems: 'center' }}>
+                    <Search size={14} color="rgba(255,255,255,0.4)" style={{ position: 'absolute', left: '12px' }} />
+                    <input
+                        type="text"
+                        placeholder="Find..."
+                        value={findText}
+                        onChange={(e) => { setFindText(e.target.value); setVisibleCount(PAGE_SIZE) }}
+                        style={{ ...inputStyle, width: '100%', paddingLeft: '34px' }}
+                    />
+                    {findText && (
+                        <span style={{ position: 'absolute', right: '12px', fontSize: '11px', color: 'rgba(255,255,255,0.4)' }}>
+                            {matchCount} found
+                        </span>
+                    )}
+                </div>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    <input
+                        type="text"
+                        placeholder="Replace with..."
+                        value={replaceText}
+                        onChange={(e) => setReplaceText(e.target.value)}
+                        style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+                    />
+                    <button onClick={replaceAll} disabled={matchCount === 0} style={{ ...actionStyle, opacity: matchCount === 0 ? 0.4 : 1 }}>
+                        Replace all
+                    </button>
+                </div>
+            </div>
+
+            {/* Cue List */}
+            <div className="custom-scroll settings-content" style={{ flex: 1, overflowY: 'auto', padding: '12px' }}>
+                {filtered.slice(0, visibleCount).map(cue => {
+                    const index = cues.indexOf(cue)
+                    const isCurrent = currentTime >= cue.start && currentTime < cue.end
+                    return (
+                        <div
+                            key={cue.key}
+                            style={{
+                                padding: '8px 10px',
+                                marginBottom: '6px',
+                                borderRadius: '10px',
+                                background: isCurrent ? 'rgba(59,130,246,0.12)' : 'rgba(255,255,255,0.03)',
+                                border: `1px solid ${isCurrent ? 'rgba(59,130,246,0.4)' : 'rgba(255,255,255,0.05)'}`
+                            }}
+                        >
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' }}>
+                                <span style={{ fontSize: '10px', color: 'rgba(255,255,255,0.3)', width: '32px' }}>#{index + 1}</span>
+                                <CueTimeInput value={cue.start} onChange={(start) => updateCue(cue.key, { start })} />
+                                <span style={{ color: 'rgba(255,255,255,0.3)', fontSize: '11px' }}>→</span>
+                                <CueTimeInput value={cue.end} onChange={(end) => updateCue(cue.key, { end })} />
+                                <div style={{ flex: 1 }} />
+                                <button onClick={() => ipcRenderer.send('mpv-seek-to', cue.start)} title="Play from this line" style={smallButtonStyle}>
+                                    <Play size={11} />
+                                </button>
+                                <button onClick={() => insertCueAfter(index)} title="Insert line after" style={smallButtonStyle}>
+                                    <Plus size={11} />
+                                </button>
+                                <button onClick={() => removeCue(cue.key)} title="Delete line" style={{ ...smallButtonStyle, color: '#ff6b6b' }}>
+                                    <Trash2 size={11} />
+                                </button>
+                            </div>
+                            <textarea
+                                value={cue.text}
+                                onChange={(e) => updateCue(cue.key, { text: e.target.value })}
+                                rows={Math.max(1, cue.text.split('\n').length)}
+                                style={{ ...inputStyle, width: '100%', resize: 'vertical', fontFamily: 'Inter, sans-serif', lineHeight: 1.4 }}
+                            />
+                        </div>
+                    )
+                })}
+
+                {filtered.length > visibleCount && (
+                    <button onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)} style={{ ...actionStyle, width: '100%' }}>
+                        Show more ({filtered.length - visibleCount} left)
+                    </button>
+                )}
+
+                {cues.length === 0 && doc && (
+                    <button onClick={() => insertCueAfter(-1)} style={{ ...actionStyle, width: '100%' }}>
+                        <Plus size={12} /> Add first line
+                    </button>
+                )}
+            </div>
+
+            {/* Footer */}
+            <div style={{ padding: '12px 20px', borderTop: '1px solid rgba(255,255,255,0.08)', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                <button
+                    onClick={() => save()}
+                    disabled={!isDirty}
+                    style={{ ...actionStyle, background: isDirty ? '#3b82f6' : 'rgba(255,255,255,0.08)', color: '#fff', opacity: isDirty ? 1 : 0.5 }}
+                >
+                    <Save size={12} /> Save
+                </button>
+                <div style={{ flex: 1 }} />
+                <span style={{ fontSize: '11px', color: 'rgba(255,255,255,0.4)' }}>Save as</span>
+                {(['srt', 'vtt', 'ass'] as SubtitleFormat[]).map(format => (
+                    <button key={format} onClick={() => save(format)} style={actionStyle}>
+                        {format.toUpperCase()}
+                    </button>
+                ))}
+            </div>
+        </div>
+    )
+
+    return createPortal(panelContent, document.body)
+}
+
+/**
+ * Time field that only commits valid values (reverts on bad input)
+ */
+function CueTimeInput({ value, onChange }: { value: number, onChange: (value: number) => void }) {
+    const [text, setText] = React.useState(formatCueTime(value))
+
+    React.useEffect(() => {
+        setText(formatCueTime(value))
+    }, [value])
+
+    const commit = () => {
+        const parsed = parseCueTime(text)
+        if (isNaN(parsed) || parsed < 0) setText(formatCueTime(value))
+        else if (parsed !== value) onChange(parsed)
+    }
+
+    return (
+        <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+            style={{ ...inputStyle, width: '96px', padding: '4px 6px', fontSize: '11px', fontFamily: 'monospace' }}
+        />
+    )
+}
+
+const inputStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.06)',
+    border: '1px solid rgba(255,255,255,0.08)',
+    borderRadius: '8px',
+    padding: '8px 10px',
+    color: '#fff',
+    fontSize: '12px',
+    outline: 'none',
+    boxSizing: 'border-box'
+}
+
+const actionStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.08)',
+    border: 'none',
+    borderRadius: '8px',
+    padding: '6px 10px',
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: '11px',
+    fontWeight: 500,
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '5px'
+}
+
+const iconButtonStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.08)',
+    border: 'none',
+    borderRadius: '8px',
+    width: '32px',
+    height: '32px',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    cursor: 'pointer',
+    color: 'rgba(255,255,255,0.6)'
+}
+
+const smallButtonStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.06)',
+    border: 'none',
+    borderRadius: '6px',
+    width: '24px',
+    height: '24px',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    cursor: 'pointer',
+    color: 'rgba(255,255,255,0.6)'
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect, useCallback } from 'react'
+
+export interface Bookmark {
+  id: string
+  /** Unique key - file path or URL (same key as resume positions) */
+  key: string
+  /** Position in seconds */
+  time: number
+  name: string
+  note: string
+  createdAt: number
+}
+
+export type BookmarkFormat = 'csv' | 'json'
+
+const STORAGE_KEY = 'nautic-player-bookmarks'
+const MAX_ITEMS = 2000
+const CSV_COLUMNS = ['file', 'time', 'timecode', 'name', 'note', 'created']
+
+/**
+ * Custom hook for per-file bookmarks with localStorage persistence
+ */
+export function useBookmarks() {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([])
+  const [isInitialized, setIsInitialized] = useState(false)
+
+  // Load from localStorage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      if (stored) {
+        const parsed = JSON.parse(stored)
+        if (Array.isArray(parsed)) {
+          setBookmarks(parsed)
+        }
+      }
+    } catch (error) {
+      console.error('[BOOKMARKS] Failed to load bookmarks:', error)
+    }
+    setIsInitialized(true)
+  }, [])
+
+  // Save to localStorage when changed
+  useEffect(() => {
+    if (!isInitialized) return
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(bookmarks))
+    } catch (error) {
+      console.error('[BOOKMARKS] Failed to save bookmarks:', error)
+    }
+  }, [bookmarks, isInitialized])
+
+  /**
+   * Bookmarks of one file, sorted by time
+   */
+  const getBookmarks = useCallback((key: string): Bookmark[] => {
+    return bookmarks.filter(b => b.key === key).sort((a, b) => a.time - b.time)
+  }, [bookmarks])
+
+  const addBookmark = useCallback((key: string, time: number, name?: string, note: string = '') => {
+    const bookmark: Bookmark = {
+      id: crypto.randomUUID(),
+      key,
+      time,
+      name: name || `Bookmark at ${formatTimecode(time)}`,
+      note,
+      createdAt: Date.now()
+    }
+    setBookmarks(prev => [...prev, bookmark].slice(-MAX_ITEMS))
+    return bookmark
+  }, [])
+
+  const updateBookmark = useCallback((id: string, changes: Partial<Pick<Bookmark, 'name' | 'note' | 'time'>>) => {
+    setBookmarks(prev => prev.map(b => b.id === id ? { ...b, ...changes } : b))
+  }, [])
+
+  const removeBookmark = useCallback((id: string) => {
+    setBookmarks(prev => prev.filter(b => b.id !== id))
+  }, [])
+
+  const clearBookmarks = useCallback((key: string) => {
+    setBookmarks(prev => prev.filter(b => b.key !== key))
+  }, [])
+
+  /**
+   * Merge imported bookmarks, skipping ones already saved (same file, time and name)
+   * Returns how many were added
+   */
+  const importBookmarks = useCallback((items: Bookmark[]): number => {
+    const isDuplicate = (list: Bookmark[], item: Bookmark) =>
+      list.some(b => b.key === item.key && Math.abs(b.time - item.time) < 0.001 && b.name === item.name)
+
+    const fresh: Bookmark[] = []
+    items.forEach(item => {
+      if (!isDuplicate(bookmarks, item) && !isDuplicate(fresh, item)) fresh.push(item)
+    })
+    if (fresh.length > 0) setBookmarks(prev => [...prev, ...fresh].slice(-MAX_ITEMS))
+    return fresh.length
+  }, [bookmarks])
+
+  return {
+    bookmarks,
+    getBookmarks,
+    addBookmark,
+    updateBookmark,
+    removeBookmark,
+    clearBookmarks,
+    importBookmarks,
+    isInitialized
+  }
+}
+
+/**
+ * Format seconds as h:mm:ss.mmm (frame-accurate enough for review notes)
+ */
+export function formatTimecode(seconds: number): string {
+  // Round once so 59.9996 carries into the seconds instead of showing as 59.000
+  const total = Math.round(seconds * 1000)
+  const h = Math.floor(total / 3600000)
+  const m = Math.floor((total % 3600000) / 60000)
+  const s = Math.floor((total % 60000) / 1000)
+  const ms = total % 1000
+  return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`
+}
+
+/**
+ * Parse h:mm:ss(.mmm), mm:ss or plain seconds, NaN if invalid
+ */
+function parseTimecode(value: string): number {
+  const parts = value.trim().split(':')
+  if (parts.length > 3 || parts.some(p => p === '' || isNaN(Number(p)))) return NaN
+  return parts.reduce((total, part) => total * 60 + Number(part), 0)
+}
+
+// Spreadsheets run cells starting with = + - @ as formulas, a leading ' keeps them text (dropped again on import)
+function csvField(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+function csvValue(cell: string): string {
+  return /^'[=+\-@]/.test(cell) ? cell.slice(1) : cell
+}
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++ }
+      else if (char === '"') quoted = false
+      else field += char
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field); field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field); field = ''
+      if (row.some(f => f !== '')) rows.push(row)
+      row = []
+    } else {
+      field += char
+    }
+  }
+  row.push(field)
+  if (row.some(f => f !== '')) rows.push(row)
+  return rows
+}
+
+/**
+ * Serialize bookmarks for sharing (CSV opens in spreadsheets, JSON round-trips exactly)
+ */
+export function exportBookmarks(items: Bookmark[], format: BookmarkFormat): string {
+  const sorted = [...items].sort((a, b) => a.key.localeCompare(b.key) || a.time - b.time)
+
+  if (format === 'json') {
+    return JSON.stringify({
+      version: 1,
+      bookmarks: sorted.map(b => ({ file: b.key, time: b.time, name: b.name, note: b.note, created: new Date(b.createdAt).toISOString() }))
+    }, null, 2)
+  }
+
+  const lines = sorted.map(b => [
+    b.key, b.time.toFixed(3), formatTimecode(b.time), b.name, b.note, new Date(b.createdAt).toISOString()
+  ].map(csvField).join(','))
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n')
+}
+
+/**
+ * Parse an exported CSV/JSON file, `fallbackKey` is used for rows without a file column
+ * Throws when the file isn't a bookmark export
+ */
+export function parseBookmarks(text: string, format: BookmarkFormat, fallbackKey: string): Bookmark[] {
+  let rows: Record<string, any>[]
+
+  if (format === 'json') {
+    const parsed = JSON.parse(text)
+    rows = Array.isArray(parsed) ? parsed : parsed?.bookmarks
+    if (!Array.isArray(rows)) throw new Error('No bookmarks in file')
+  } else {
+    const [header, ...data] = parseCsv(text.replace(/^\uFEFF/, ''))
+    const columns = (header || []).map(c => c.trim().toLowerCase())
+    if (!columns.includes('time') && !columns.includes('timecode')) throw new Error('Missing time column')
+    rows = data.map(cells => Object.fromEntries(columns.map((c, i) => [c, csvValue(cells[i] ?? '')])))
+  }
+
+  return rows.flatMap(row => {
+    const time = typeof row.time === 'number' ? row.time
+      : parseTimecode(String(row.time ?? '') || String(row.timecode ?? ''))
+    const key = String(row.file || row.key || fallbackKey)
+    if (!isFinite(time) || time < 0 || !key) return []
+
+    const created = Date.parse(row.created ?? '')
+    return [{
+      id: crypto.randomUUID(),
+      key,
+      time,
+      name: String(row.name || `Bookmark at ${formatTimecode(time)}`),
+      note: String(row.note ?? ''),
+      createdAt: isNaN(created) ? Date.now() : created
+    }]
+  })
+}
@@ -35,6 +35,7 @@ export interface PartyMediaState {
   paused: boolean
   streamUrl: string | null
   publicStreamUrl?: string | null  // For Internet guests (via tunnel)
+  socketId?: string                // This guest's socket on the host, keeps its stream open while paused
 }
 
 export interface UseWatchPartyReturn {
@@ -188,12 +189,13 @@ export function useWatchParty(
           return
         }
 
-        const { url } = remoteInfo
+        const { url, hostKey } = remoteInfo
 
-        // Connect to local remote server
+        // Connect to local remote server (host key: the app doesn't need device pairing)
         const socket = io(url, {
           transports: ['websocket', 'polling'],
-          timeout: 5000
+          timeout: 5000,
+          auth: { hostKey }
         })
 
         socket.on('connect', () => {
@@ -301,9 +303,11 @@ export function useWatchParty(
 
         console.log('[WatchParty] Joining party:', { socketUrl, roomId })
 
+        // The room ID is what lets a guest in without pairing
         const socket = io(socketUrl, {
           transports: ['websocket', 'polling'],
-          timeout: 10000
+          timeout: 10000,
+          auth: { roomId }
         })
 
         socket.on('connect', () => {
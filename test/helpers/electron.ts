@@ -0,0 +1,52 @@
+/**
+ * Electron stand-in for tests of main process modules
+ * Use with vi.mock('electron', () => import('./helpers/electron'))
+ */
+
+import { EventEmitter } from 'events'
+import { mkdtempSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+// Preferences and caches of the test run, never the real profile
+const userData = mkdtempSync(join(tmpdir(), 'nautic-userdata-'))
+
+export const app = {
+  isPackaged: false,
+  getVersion: () => '0.0.0-test',
+  getPath: () => userData
+}
+
+export const ipcMain = new EventEmitter()
+
+/**
+ * Loads pages with fetch (see routeFetch) instead of rendering them, enough for the scrapers
+ */
+export class BrowserWindow {
+  private html = ''
+  private destroyed = false
+  webContents = Object.assign(new EventEmitter(), {
+    executeJavaScript: async () => this.html
+  })
+
+  loadURL(url: string): Promise<void> {
+    fetch(url).then(response => response.text()).then(html => {
+      this.html = html
+      this.webContents.emit('did-finish-load')
+    }, err => this.webContents.emit('did-fail-load', {}, -2, err.message))
+    return Promise.resolve()
+  }
+
+  setAlwaysOnTop(): void {}
+  focus(): void {}
+
+  isDestroyed(): boolean {
+    return this.destroyed
+  }
+
+  destroy(): void {
+    this.destroyed = true
+  }
+}
+
+export default { app, ipcMain, BrowserWindow }
@@ -0,0 +1,22 @@
+#!/usr/bin/env node
+/**
+ * Stand-in for the mpv binary, point NAUTIC_MPV_PATH at it
+ * Serves the fake IPC on --input-ipc-server and writes its arguments to FAKE_MPV_ARGS_FILE
+ */
+
+import { writeFileSync } from 'fs'
+import { startFakeMpv } from './fakeMpv.mjs'
+
+const args = process.argv.slice(2)
+if (process.env.FAKE_MPV_ARGS_FILE) writeFileSync(process.env.FAKE_MPV_ARGS_FILE, JSON.stringify(args))
+
+const socketPath = args.find(arg => arg.startsWith('--input-ipc-server='))?.split('=')[1]
+if (!socketPath) {
+  console.error('fake-mpv: --input-ipc-server is required')
+  process.exit(1)
+}
+
+const mpv = await startFakeMpv(socketPath)
+
+// mpvController stops mpv with a kill
+process.on('SIGTERM', () => mpv.close().then(() => process.exit(0)))
@@ -0,0 +1,10 @@
+export interface FakeMpv {
+  properties: Record<string, any>
+  received: any[][] // Every command, in order
+  ignored: Set<string> // Commands left unanswered (to test timeouts)
+  setProperty(name: string, value: any): void // As if mpv changed it on its own
+  send(message: Record<string, any>, split?: boolean): void // Raw message to every client, optionally in two chunks
+  close(): Promise<void>
+}
+
+export function startFakeMpv(socketPath: string): Promise<FakeMpv>
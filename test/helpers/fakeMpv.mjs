@@ -0,0 +1,136 @@
+/**
+ * Fake mpv
+ * Speaks mpv's JSON IPC on a Unix socket: properties, observers, loadfile and its events
+ * Point the app at it with NAUTIC_MPV_SOCKET (see getMpvSocketPath), or run it as mpv with fake-mpv.mjs
+ * Plain JavaScript so node can run it as a process, the types are in fakeMpv.d.mts
+ */
+
+import { createServer } from 'net'
+import { existsSync, unlinkSync } from 'fs'
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// What a freshly started mpv reports
+const IDLE_PROPERTIES = {
+  'volume': 100,
+  'pause': false,
+  'speed': 1,
+  'mute': false,
+  'path': null,
+  'filename': null,
+  'time-pos': null,
+  'duration': null,
+  'audio-delay': 0,
+  'sub-delay': 0,
+  'track-list': []
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+export function startFakeMpv(socketPath) {
+  const clients = new Set()
+  const observers = [] // { id, name, client }
+  const properties = { ...IDLE_PROPERTIES }
+  const received = []
+  const ignored = new Set()
+
+  const write = (client, message) => client.write(JSON.stringify(message) + '\n')
+
+  const setProperty = (name, value) => {
+    properties[name] = value
+    observers
+      .filter(o => o.name === name)
+      .forEach(o => write(o.client, { event: 'property-change', id: o.id, name, data: value }))
+  }
+
+  const broadcast = message => clients.forEach(client => write(client, message))
+
+  // mpv replies { request_id, error, data }, 'success' when it worked
+  const run = (client, command) => {
+    const [name, ...args] = command
+    switch (name) {
+      case 'get_property':
+        return args[0] in properties ? { error: 'success', data: properties[args[0]] } : { error: 'property not found' }
+      case 'set_property':
+        if (!(args[0] in properties)) return { error: 'property not found' }
+        setProperty(args[0], args[1])
+        return { error: 'success' }
+      case 'observe_property':
+        observers.push({ id: args[0], name: args[1], client })
+        // mpv reports the current value right away
+        setImmediate(() => write(client, { event: 'property-change', id: args[0], name: args[1], data: properties[args[1]] }))
+        return { error: 'success' }
+      case 'unobserve_property': {
+        const index = observers.findIndex(o => o.id === args[0] && o.client === client)
+        if (index === -1) return { error: 'invalid parameter' }
+        observers.splice(index, 1)
+        return { error: 'success' }
+      }
+      case 'loadfile':
+        setImmediate(() => {
+          broadcast({ event: 'start-file', playlist_entry_id: 1 })
+          setProperty('path', args[0])
+          setProperty('filename', args[0].split('/').pop())
+          setProperty('time-pos', 0)
+          broadcast({ event: 'file-loaded' })
+        })
+        return { error: 'success' }
+      default:
+        return { error: 'invalid parameter' }
+    }
+  }
+
+  const server = createServer(client => {
+    clients.add(client)
+    client.setEncoding('utf8')
+    let buffer = ''
+    client.on('data', chunk => {
+      buffer += chunk
+      let newline
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim()
+        buffer = buffer.slice(newline + 1)
+        if (!line) continue
+        const { command, request_id } = JSON.parse(line)
+        received.push(command)
+        if (ignored.has(command[0])) continue
+        write(client, { request_id, ...run(client, command) })
+      }
+    })
+    client.on('close', () => {
+      clients.delete(client)
+      for (let i = observers.length - 1; i >= 0; i--) {
+        if (observers[i].client === client) observers.splice(i, 1)
+      }
+    })
+  })
+
+  if (existsSync(socketPath)) unlinkSync(socketPath)
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(socketPath, () => resolve({
+      properties,
+      received,
+      ignored,
+      setProperty,
+      send(message, split = false) {
+        const json = JSON.stringify(message) + '\n'
+        clients.forEach(client => {
+          if (!split) return client.write(json)
+          const half = Math.floor(json.length / 2)
+          client.write(json.slice(0, half))
+          setTimeout(() => client.write(json.slice(half)), 10)
+        })
+      },
+      close: () => new Promise(done => {
+        clients.forEach(client => client.destroy())
+        server.close(() => done())
+      })
+    }))
+  })
+}
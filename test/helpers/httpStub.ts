@@ -0,0 +1,99 @@
+/**
+ * HTTP Stub
+ * Local server answering with recorded fixtures, for code that scrapes websites or calls their APIs
+ */
+
+import { createServer } from 'http'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import type { AddressInfo } from 'net'
+import { vi } from 'vitest'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface StubRequest {
+  method: string
+  url: string // Path and query as received
+  body: string
+}
+
+export interface StubResponse {
+  status?: number // 200 by default
+  type?: string // Content-Type, JSON by default
+  body: string | Buffer
+}
+
+// "METHOD /path" (query string left out) -> response, a function for endpoints answering by the request body
+export type StubRoutes = Record<string, StubResponse | ((request: StubRequest) => StubResponse)>
+
+export interface HttpStub {
+  url: string // http://127.0.0.1:<port>
+  requests: StubRequest[] // Everything received, in order
+  close(): Promise<void>
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const FIXTURES = join(__dirname, '..', 'fixtures')
+
+export function fixture(name: string): string {
+  return readFileSync(join(FIXTURES, name), 'utf8')
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Serve `routes` on a free port, anything else gets a 404
+ */
+export function startHttpStub(routes: StubRoutes): Promise<HttpStub> {
+  const requests: StubRequest[] = []
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => {
+      const request: StubRequest = { method: req.method || 'GET', url: req.url || '/', body: Buffer.concat(chunks).toString() }
+      requests.push(request)
+
+      const route = routes[`${request.method} ${request.url.split('?')[0]}`]
+      const response = typeof route === 'function' ? route(request) : route
+      if (!response) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' })
+        res.end(`No fixture for ${request.method} ${request.url}`)
+        return
+      }
+      res.writeHead(response.status || 200, { 'Content-Type': response.type || 'application/json' })
+      res.end(response.body)
+    })
+  })
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise(done => server.close(() => done()))
+      })
+    })
+  })
+}
+
+/**
+ * Send fetch() calls for `hosts` to the stub as /<host><path>, so one stub stands in for several sites
+ * Undone by vi.unstubAllGlobals()
+ */
+export function routeFetch(stub: HttpStub, hosts: string[]): void {
+  const realFetch = globalThis.fetch
+  vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url)
+    if (!hosts.includes(url.host)) return realFetch(input, init)
+    return realFetch(`${stub.url}/${url.host}${url.pathname}${url.search}`, init)
+  })
+}
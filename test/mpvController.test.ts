@@ -0,0 +1,115 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createConnection } from 'net'
+import { once } from 'events'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+vi.mock('electron', () => import('./helpers/electron'))
+// The real one is the app entry, it would start Electron
+vi.mock('../src/main/index', () => ({ getIsFullScreen: () => false, setQuitting: () => {} }))
+vi.mock('../src/main/lib/logger', () => ({ logger: { log: () => {}, info: () => {}, warn: () => {}, error: () => {} } }))
+
+import { ipcMain } from 'electron'
+import { MpvIpcClient } from '../src/main/lib/mpvIpc'
+
+const WINDOW_HANDLE = 0x3a0000cn
+
+describe.skipIf(process.platform === 'win32')('mpv controller', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'nautic-mpv-'))
+  const socketPath = join(dir, 'mpv.sock')
+  const argsFile = join(dir, 'args.json')
+  const display = process.env.DISPLAY
+  let controller: typeof import('../src/main/mpvController')
+  let uiSender: { send: ReturnType<typeof vi.fn>, isDestroyed: () => boolean }
+  let client: MpvIpcClient
+
+  const hostWindow = {
+    getNativeWindowHandle: () => {
+      const handle = Buffer.alloc(8)
+      handle.writeBigUInt64LE(WINDOW_HANDLE)
+      return handle
+    },
+    isDestroyed: () => false
+  }
+
+  // Everything the renderer got on one channel, in order
+  const sent = (channel: string) => uiSender.send.mock.calls.filter(([name]) => name === channel).map(([, data]) => data)
+
+  beforeAll(async () => {
+    // The controller reads the socket path when it loads
+    process.env.NAUTIC_MPV_PATH = join(__dirname, 'helpers', 'fake-mpv.mjs')
+    process.env.NAUTIC_MPV_SOCKET = socketPath
+    process.env.FAKE_MPV_ARGS_FILE = argsFile
+    process.env.DISPLAY = ':99' // X11, so mpv gets embedded with --wid
+    controller = await import('../src/main/mpvController')
+
+    uiSender = { send: vi.fn(), isDestroyed: () => false }
+    // Same order as the app's main window
+    controller.setupMpvController(hostWindow as any, uiSender as any)
+    controller.setupIpcHandlers(uiSender as any, hostWindow as any)
+    await vi.waitFor(() => expect(sent('mpv-volume')).toEqual([100]), { timeout: 5000 })
+
+    // Second connection, like a user clicking in the mpv window
+    const socket = createConnection(socketPath)
+    socket.on('error', () => {})
+    client = new MpvIpcClient(socket)
+    await once(socket, 'connect')
+  })
+
+  afterAll(() => {
+    client?.destroy()
+    controller?.quitMpv()
+    for (const name of ['NAUTIC_MPV_PATH', 'NAUTIC_MPV_SOCKET', 'FAKE_MPV_ARGS_FILE']) delete process.env[name]
+    if (display === undefined) delete process.env.DISPLAY
+    else process.env.DISPLAY = display
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('launches mpv idle on its IPC socket, embedded into the host window', () => {
+    const args: string[] = JSON.parse(readFileSync(argsFile, 'utf8'))
+
+    expect(args[0]).toBe(`--input-ipc-server=${socketPath}`)
+    expect(args).toEqual(expect.arrayContaining([
+      `--wid=${WINDOW_HANDLE}`, '--no-border', '--force-window=no', '--idle=yes', '--no-osc', '--input-default-bindings=no'
+    ]))
+    expect(args).not.toContain('--force-window=yes')
+  })
+
+  it('tells the renderer once mpv is ready', () => {
+    expect(sent('mpv-ready')).toHaveLength(1)
+  })
+
+  it('forwards the current value of observed properties', () => {
+    expect(sent('mpv-paused')).toEqual([false])
+    expect(sent('mpv-speed')).toEqual([1])
+    expect(sent('mpv-mute')).toEqual([false])
+    expect(sent('mpv-audio-delay')).toEqual([0])
+    expect(sent('mpv-sub-delay')).toEqual([0])
+  })
+
+  it('forwards property changes mpv makes on its own', async () => {
+    await client.set('pause', true)
+    await client.set('volume', 40)
+    await client.set('sub-delay', 0.5)
+
+    await vi.waitFor(() => {
+      expect(sent('mpv-paused')).toEqual([false, true])
+      expect(sent('mpv-volume')).toEqual([100, 40])
+      expect(sent('mpv-sub-delay')).toEqual([0, 0.5])
+    })
+  })
+
+  it('sends remote commands to mpv and reports the result back', async () => {
+    ipcMain.emit('remote-command', {}, 'volume', 70)
+
+    await vi.waitFor(() => expect(sent('mpv-volume').at(-1)).toBe(70))
+    expect(await client.get('volume')).toBe(70)
+  })
+
+  it('reports the file mpv loaded', async () => {
+    await client.command('loadfile', '/videos/Big Buck Bunny.mkv', 'replace')
+
+    await vi.waitFor(() => expect(sent('mpv-filename').at(-1)).toBe('Big Buck Bunny.mkv'))
+  })
+})
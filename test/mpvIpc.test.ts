@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createConnection } from 'net'
+import { once } from 'events'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { startFakeMpv, type FakeMpv } from './helpers/fakeMpv.mjs'
+
+vi.mock('electron', () => import('./helpers/electron'))
+
+import { MpvIpcClient, MpvCommandError, type MpvEvent } from '../src/main/lib/mpvIpc'
+import { getMpvSocketPath } from '../src/main/lib/platform'
+
+const TIMEOUT_MS = 300
+
+describe.skipIf(process.platform === 'win32')('mpv IPC', () => {
+  let dir: string
+  let mpv: FakeMpv
+  let client: MpvIpcClient
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'nautic-mpv-'))
+    process.env.NAUTIC_MPV_SOCKET = join(dir, 'mpv.sock')
+    mpv = await startFakeMpv(getMpvSocketPath())
+
+    const socket = createConnection(getMpvSocketPath())
+    socket.on('error', () => {}) // A dying mpv resets the connection, mpvController handles it the same way
+    client = new MpvIpcClient(socket, TIMEOUT_MS)
+    await once(socket, 'connect')
+  })
+
+  afterEach(async () => {
+    client.destroy()
+    await mpv.close()
+    delete process.env.NAUTIC_MPV_SOCKET
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('connects to the socket NAUTIC_MPV_SOCKET names', () => {
+    expect(getMpvSocketPath()).toBe(join(dir, 'mpv.sock'))
+    expect(client.connected).toBe(true)
+  })
+
+  it('resolves commands with their data', async () => {
+    await client.set('volume', 45)
+
+    expect(await client.get('volume')).toBe(45)
+    expect(mpv.received).toEqual([['set_property', 'volume', 45], ['get_property', 'volume']])
+  })
+
+  it('matches replies to their request when several are in flight', async () => {
+    mpv.properties.speed = 1.5
+
+    const values = await Promise.all([client.get('volume'), client.get('speed'), client.get('pause')])
+
+    expect(values).toEqual([100, 1.5, false])
+  })
+
+  it('rejects commands mpv refuses with MpvCommandError', async () => {
+    const error = await client.get('no-such-property').catch(err => err)
+
+    expect(error).toBeInstanceOf(MpvCommandError)
+    expect(error.command).toEqual(['get_property', 'no-such-property'])
+    expect(error.reason).toBe('property not found')
+  })
+
+  it('rejects commands mpv never answers', async () => {
+    mpv.ignored.add('seek')
+
+    await expect(client.command('seek', 10, 'absolute')).rejects.toThrow(`no reply after ${TIMEOUT_MS}ms`)
+  })
+
+  it('reports the current value and every change of observed properties', async () => {
+    const events: MpvEvent[] = []
+    client.on('event', (msg: MpvEvent) => {
+      if (msg.event === 'property-change') events.push(msg)
+    })
+
+    const id = client.observe('pause')
+    await vi.waitFor(() => expect(events).toHaveLength(1))
+    mpv.setProperty('pause', true)
+    await vi.waitFor(() => expect(events).toHaveLength(2))
+
+    expect(events).toEqual([
+      { event: 'property-change', id, name: 'pause', data: false },
+      { event: 'property-change', id, name: 'pause', data: true }
+    ])
+  })
+
+  it('stops reporting unobserved properties', async () => {
+    const id = client.observe('volume')
+    await client.unobserve(id)
+
+    const changes: MpvEvent[] = []
+    client.on('event', (msg: MpvEvent) => {
+      if (msg.name === 'volume') changes.push(msg)
+    })
+    mpv.setProperty('volume', 20)
+    await client.get('volume') // Replies come after the events mpv sent before them
+
+    expect(changes.filter(c => c.data === 20)).toEqual([])
+  })
+
+  it('waits for the events of a loadfile', async () => {
+    const loaded = client.waitForEvent('file-loaded')
+    await client.command('loadfile', '/videos/Big Buck Bunny.mkv', 'replace')
+    await loaded
+
+    expect(await client.get('path')).toBe('/videos/Big Buck Bunny.mkv')
+  })
+
+  it('reassembles messages split across chunks', async () => {
+    const event = client.waitForEvent('playback-restart')
+    mpv.send({ event: 'playback-restart' }, true)
+
+    expect(await event).toEqual({ event: 'playback-restart' })
+  })
+
+  it('fails pending commands and emits close when mpv goes away', async () => {
+    mpv.ignored.add('get_property')
+    const pending = client.get('volume').catch(err => err)
+    const closed = once(client, 'close')
+
+    await mpv.close()
+
+    expect((await pending).reason).toBe('mpv connection closed')
+    await closed
+    expect(client.connected).toBe(false)
+  })
+})
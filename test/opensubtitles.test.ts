@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { fixture, startHttpStub, type HttpStub } from './helpers/httpStub'
+
+vi.mock('electron', () => import('./helpers/electron'))
+
+// Same client, pointed at the stub instead of api.opensubtitles.org
+vi.mock('opensubtitles-api', async importOriginal => {
+  const { default: OS } = await importOriginal<{ default: new (creds: any) => any }>()
+  return {
+    default: class extends OS {
+      constructor(creds: any) {
+        super({ ...creds, endpoint: `${process.env.OPENSUBTITLES_STUB}/xml-rpc` })
+      }
+    }
+  }
+})
+
+import { openSubtitlesProvider } from '../src/main/lib/opensubtitles'
+
+// Matches MovieByteSize of the first result in search.xml
+const VIDEO_SIZE = 262144
+
+function methodCalls(stub: HttpStub, method: string): string[] {
+  return stub.requests.map(r => r.body).filter(body => body.includes(`<methodName>${method}</methodName>`))
+}
+
+describe('opensubtitles', () => {
+  let stub: HttpStub
+  let dir: string
+  let videoPath: string
+
+  beforeAll(async () => {
+    stub = await startHttpStub({
+      'POST /xml-rpc': request => ({
+        type: 'text/xml',
+        body: fixture(request.body.includes('<methodName>LogIn</methodName>') ? 'opensubtitles/login.xml' : 'opensubtitles/search.xml')
+      })
+    })
+    process.env.OPENSUBTITLES_STUB = stub.url
+
+    dir = mkdtempSync(join(tmpdir(), 'nautic-os-'))
+    videoPath = join(dir, 'Big.Buck.Bunny.2008.1080p.BluRay.x264.mkv')
+    writeFileSync(videoPath, Buffer.alloc(VIDEO_SIZE, 7))
+  })
+
+  beforeEach(() => {
+    stub.requests.length = 0
+  })
+
+  afterAll(async () => {
+    delete process.env.OPENSUBTITLES_STUB
+    rmSync(dir, { recursive: true, force: true })
+    await stub.close()
+  })
+
+  it('searches by text with the requested languages', async () => {
+    const matches = await openSubtitlesProvider.search({ query: 'Big Buck Bunny', languages: ['en', 'es'] })
+
+    const [search] = methodCalls(stub, 'SearchSubtitles')
+    expect(search).toContain('<name>query</name><value><string>Big Buck Bunny</string></value>')
+    expect(search).toContain('<string>eng,spa</string>')
+    expect(matches.map(m => [m.subtitle.info.filename, m.language])).toEqual([
+      ['Big.Buck.Bunny.2008.1080p.BluRay.x264.srt', 'en'],
+      ['bbb_720p_web.srt', 'en'],
+      ['big_buck_bunny_spa.srt', 'es']
+    ])
+    expect(matches.some(m => m.exact)).toBe(false)
+  })
+
+  it('links the UTF-8 re-encoded download', async () => {
+    const [match] = await openSubtitlesProvider.search({ query: 'Big Buck Bunny' })
+
+    expect(match.subtitle._link).toBe('https://dl.opensubtitles.org/en/download/subencoding-utf8/src-api/vrf-19b10c55/sid-8b2nTq3f/filead/1956874211')
+  })
+
+  it('marks hash matches of the playing file as exact', async () => {
+    const matches = await openSubtitlesProvider.search({ query: 'Big Buck Bunny', filePath: videoPath, hash: 'from-the-file' })
+
+    // One call by hash and size, one by filename tags (sent in parallel)
+    const searches = methodCalls(stub, 'SearchSubtitles')
+    expect(searches).toHaveLength(2)
+    expect(searches.some(body => body.includes(`<name>moviebytesize</name><value><string>${VIDEO_SIZE}</string></value>`))).toBe(true)
+    expect(searches.some(body => body.includes('<name>tag</name><value><string>Big.Buck.Bunny.2008.1080p.BluRay.x264.mkv</string></value>'))).toBe(true)
+    expect(matches.filter(m => m.exact).map(m => m.subtitle.info.filename)).toEqual(['Big.Buck.Bunny.2008.1080p.BluRay.x264.srt'])
+  })
+
+  it('searches with the token of its session', async () => {
+    await openSubtitlesProvider.search({ query: 'Big Buck Bunny' })
+
+    const [search] = methodCalls(stub, 'SearchSubtitles')
+    expect(search).toContain('<string>v7fk1Yq2lJ0W9c3nS5bE8a4dR6t</string>')
+  })
+})
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+vi.mock('electron', () => import('./helpers/electron'))
+
+const platform = process.platform
+const argv = process.argv
+
+// platform.ts picks the executable suffix when it loads
+async function loadOn(name: NodeJS.Platform): Promise<typeof import('../src/main/lib/platform')> {
+  Object.defineProperty(process, 'platform', { value: name })
+  vi.resetModules()
+  return import('../src/main/lib/platform')
+}
+
+const hostWindow = {
+  getNativeWindowHandle: () => {
+    const handle = Buffer.alloc(8)
+    handle.writeBigUInt64LE(0x1c0042n)
+    return handle
+  }
+} as any
+
+describe('mpv launch settings', () => {
+  let root: string
+  let bin: string
+
+  beforeEach(() => {
+    // In dev the bundled binaries are in ./resources
+    root = mkdtempSync(join(tmpdir(), 'nautic-root-'))
+    vi.spyOn(process, 'cwd').mockReturnValue(root)
+    bin = join(root, 'bin')
+    mkdirSync(bin)
+    vi.stubEnv('PATH', bin)
+    vi.stubEnv('NAUTIC_MPV_PATH', '')
+    vi.stubEnv('DISPLAY', '')
+  })
+
+  afterEach(() => {
+    Object.defineProperty(process, 'platform', { value: platform })
+    process.argv = argv
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('runs the mpv NAUTIC_MPV_PATH names', async () => {
+    vi.stubEnv('NAUTIC_MPV_PATH', '/opt/fake/mpv')
+    const { getMpvPath } = await loadOn('linux')
+
+    expect(getMpvPath()).toBe('/opt/fake/mpv')
+  })
+
+  it('prefers the bundled mpv', async () => {
+    mkdirSync(join(root, 'resources', 'mpv'), { recursive: true })
+    writeFileSync(join(root, 'resources', 'mpv', 'mpv'), '')
+    writeFileSync(join(bin, 'mpv'), '')
+    const { getMpvPath } = await loadOn('linux')
+
+    expect(getMpvPath()).toBe(join(root, 'resources', 'mpv', 'mpv'))
+  })
+
+  it('does not take the mpv config folder for a bundled Linux mpv', async () => {
+    mkdirSync(join(root, 'resources', 'mpv', 'mpv'), { recursive: true })
+    writeFileSync(join(bin, 'mpv'), '')
+    const { getMpvPath } = await loadOn('linux')
+
+    expect(getMpvPath()).toBe(join(bin, 'mpv'))
+  })
+
+  it('finds mpv on the PATH', async () => {
+    writeFileSync(join(bin, 'mpv'), '')
+    const { getMpvPath } = await loadOn('linux')
+
+    expect(getMpvPath()).toBe(join(bin, 'mpv'))
+  })
+
+  it('finds mpv.exe on the PATH on Windows', async () => {
+    writeFileSync(join(bin, 'mpv.exe'), '')
+    const { getMpvPath } = await loadOn('win32')
+
+    expect(getMpvPath()).toBe(join(bin, 'mpv.exe'))
+  })
+
+  it('falls back to the bare name when mpv is nowhere to be found', async () => {
+    const { getMpvPath } = await loadOn('linux')
+
+    expect(getMpvPath()).toBe('mpv')
+  })
+
+  it('embeds into the window handle on Windows', async () => {
+    const { getEmbedStrategy, getEmbedArgs } = await loadOn('win32')
+
+    expect(getEmbedStrategy()).toBe('wid')
+    expect(getEmbedArgs(hostWindow)).toEqual([`--wid=${0x1c0042}`, '--no-border', '--force-window=no'])
+  })
+
+  it('embeds into the X window on Linux under X11', async () => {
+    vi.stubEnv('DISPLAY', ':0')
+    const { getEmbedStrategy } = await loadOn('linux')
+
+    expect(getEmbedStrategy()).toBe('wid')
+  })
+
+  it('opens a window of its own on native Wayland', async () => {
+    vi.stubEnv('DISPLAY', ':0') // XWayland is around but Electron doesn't use it
+    process.argv = [...argv, '--ozone-platform=wayland']
+    const { getEmbedStrategy, getEmbedArgs } = await loadOn('linux')
+
+    expect(getEmbedStrategy()).toBe('window')
+    expect(getEmbedArgs(hostWindow)).toEqual(['--force-window=yes', '--title=NauticPlayer'])
+  })
+
+  it('opens a window of its own without a display server mpv can embed into', async () => {
+    const { getEmbedStrategy } = await loadOn('linux')
+
+    expect(getEmbedStrategy()).toBe('window')
+  })
+
+  it('opens a window of its own on macOS', async () => {
+    vi.stubEnv('DISPLAY', ':0')
+    const { getEmbedStrategy } = await loadOn('darwin')
+
+    expect(getEmbedStrategy()).toBe('window')
+  })
+})
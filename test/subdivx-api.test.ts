@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fixture, routeFetch, startHttpStub, type HttpStub, type StubResponse } from './helpers/httpStub'
+
+vi.mock('electron', () => import('./helpers/electron'))
+
+import fetchSubdivx, { subdivxProvider } from '../src/main/lib/subdivx-api'
+
+describe('subdivx', () => {
+  let stub: HttpStub
+  let tokenResponse: StubResponse
+
+  beforeAll(async () => {
+    stub = await startHttpStub({
+      'GET /www.subdivx.com/inc/gt.php': () => tokenResponse,
+      'POST /www.subdivx.com/inc/ajax.php': { body: fixture('subdivx/search.json') }
+    })
+    routeFetch(stub, ['www.subdivx.com'])
+  })
+
+  beforeEach(() => {
+    tokenResponse = { body: fixture('subdivx/token.json') }
+    stub.requests.length = 0
+  })
+
+  afterAll(async () => {
+    vi.unstubAllGlobals()
+    await stub.close()
+  })
+
+  it('searches with a fresh token', async () => {
+    await fetchSubdivx('Big Buck Bunny')
+
+    const search = stub.requests.find(r => r.url === '/www.subdivx.com/inc/ajax.php')!
+    const form = new URLSearchParams(search.body)
+    expect(form.get('tabla')).toBe('resultados')
+    expect(form.get('buscar')).toBe('Big Buck Bunny')
+    expect(form.get('token')).toBe('7b1f0c2e9d4a6b3c8e5f1a2d')
+  })
+
+  it('turns result rows into download links', async () => {
+    const links = await fetchSubdivx('Big Buck Bunny')
+
+    expect(links.map(l => [l._link, l.info.filename, l.info.language])).toEqual([
+      ['https://www.subdivx.com/descargar.php?id=712345', 'Big Buck Bunny (2008)', 'es'],
+      ['https://www.subdivx.com/descargar.php?id=698120', 'Big Buck Bunny (2008) 720p', 'es']
+    ])
+    expect(links.every(l => l.isZip())).toBe(true)
+  })
+
+  it('reports every result as Spanish', async () => {
+    const matches = await subdivxProvider.search({ query: 'Big Buck Bunny' })
+
+    expect(matches).toHaveLength(2)
+    expect(matches.every(m => m.provider === 'subdivx' && m.language === 'es')).toBe(true)
+  })
+
+  it('fails when the site hands out no token', async () => {
+    tokenResponse = { body: '{}' }
+
+    await expect(fetchSubdivx('Big Buck Bunny')).rejects.toThrow('Subdivx did not return a search token')
+    expect(stub.requests.some(r => r.url === '/www.subdivx.com/inc/ajax.php')).toBe(false)
+  })
+
+  it('fails on an HTTP error', async () => {
+    tokenResponse = { status: 503, type: 'text/html', body: '<h1>Service Unavailable</h1>' }
+
+    await expect(fetchSubdivx('Big Buck Bunny')).rejects.toThrow('status: 503')
+  })
+})
@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import JSZip from 'jszip'
+import { fixture, routeFetch, startHttpStub, type HttpStub } from './helpers/httpStub'
+
+vi.mock('electron', () => import('./helpers/electron'))
+
+import fetchSubdlCom, { subdlProvider } from '../src/main/lib/subdl-api'
+
+const SRT = '1\n00:00:01,000 --> 00:00:03,500\nA big rabbit wakes up\n'
+
+describe('subdl', () => {
+  let stub: HttpStub
+
+  beforeAll(async () => {
+    const zip = new JSZip()
+    zip.file('Big.Buck.Bunny.2008.1080p.BluRay.x264.srt', SRT)
+    zip.file('readme.txt', 'Downloaded from subdl.com')
+
+    stub = await startHttpStub({
+      'GET /api.subdl.com/auto': request => request.url.includes('rate%20limited')
+        ? { status: 429, body: '{"error":"Too many requests"}' }
+        : { body: fixture('subdl/auto.json') },
+      'GET /subdl.com/subtitle/sd10378/big-buck-bunny': { type: 'text/html', body: fixture('subdl/movie.html') },
+      'GET /dl.subdl.com/subtitle/3197651-3213944.zip': { type: 'application/zip', body: await zip.generateAsync({ type: 'nodebuffer' }) }
+    })
+    routeFetch(stub, ['api.subdl.com', 'subdl.com', 'dl.subdl.com'])
+  })
+
+  afterAll(async () => {
+    vi.unstubAllGlobals()
+    await stub.close()
+  })
+
+  it('lists the suggested movies', async () => {
+    const movies = await fetchSubdlCom('Big Buck Bunny')
+
+    expect(stub.requests.at(-1)!.url).toBe('/api.subdl.com/auto?query=Big%20Buck%20Bunny')
+    expect(movies.map(m => [m.title, m.link])).toEqual([
+      ['Big Buck Bunny', '/subtitle/sd10378/big-buck-bunny'],
+      ['Big Buck Bunny: The Return', '/subtitle/sd99812/big-buck-bunny-the-return']
+    ])
+  })
+
+  it('scrapes the subtitles of the best matching movie only', async () => {
+    const matches = await subdlProvider.search({ query: 'Big Buck Bunny' })
+
+    expect(stub.requests.some(r => r.url.includes('sd99812'))).toBe(false)
+    expect(matches.map(m => [m.subtitle.info.filename, m.language, m.subtitle._link])).toEqual([
+      ['Big.Buck.Bunny.2008.1080p.BluRay.x264', 'en', 'https://dl.subdl.com/subtitle/3197651-3213944.zip'],
+      ['Big.Buck.Bunny.2008.720p.WEB-DL', 'en', 'https://dl.subdl.com/subtitle/3197651-3213950.zip'],
+      ['Big.Buck.Bunny.2008.Spanish', 'es', 'https://dl.subdl.com/subtitle/3197651-3214002.zip']
+    ])
+  })
+
+  it('downloads and unpacks the subtitle from its zip', async () => {
+    const [match] = await subdlProvider.search({ query: 'Big Buck Bunny' })
+    const file = await match.subtitle.download()
+
+    expect(file.subtitles).toHaveLength(1)
+    expect(file.subtitles[0].filename).toBe('Big.Buck.Bunny.2008.1080p.BluRay.x264.srt')
+    expect(file.subtitles[0].subtitles).toBe(SRT)
+  })
+
+  it('fails when the suggestion API errors', async () => {
+    await expect(fetchSubdlCom('rate limited')).rejects.toThrow('status: 429')
+  })
+})
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+vi.mock('electron', () => import('./helpers/electron'))
+// The real one writes into ./logs
+vi.mock('../src/main/lib/logger', () => ({ logger: { log: () => {}, info: () => {}, warn: () => {}, error: () => {} } }))
+
+// OpenSubtitles always has an exact English match, the tests check whether it gets downloaded
+const openSubtitles = vi.hoisted(() => {
+  const download = vi.fn(async () => ({ subtitles: [{ subtitles: '1\n00:00:01,000 --> 00:00:02,000\nHello\n', filename: 'Movie.en.srt' }] }))
+  return {
+    download,
+    provider: {
+      id: 'opensubtitles',
+      name: 'OpenSubtitles',
+      exactMatches: true,
+      search: async () => [{
+        provider: 'opensubtitles',
+        subtitle: { info: { filename: 'Movie.en.srt' }, page: { title: '' }, download },
+        language: 'en',
+        exact: true
+      }]
+    }
+  }
+})
+vi.mock('../src/main/lib/opensubtitles', () => ({ openSubtitlesProvider: openSubtitles.provider }))
+
+import { findAutoSubtitle, getSubtitleCacheDir } from '../src/main/lib/subtitleService'
+
+describe('findAutoSubtitle', () => {
+  let dir: string
+  let videoPath: string
+  let fill = 0
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'nautic-subs-'))
+    videoPath = join(dir, 'Movie.mkv')
+    // Different content every time, so no test sees another one's cached match
+    writeFileSync(videoPath, Buffer.alloc(256 * 1024, ++fill))
+    openSubtitles.download.mockClear()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    rmSync(getSubtitleCacheDir(), { recursive: true, force: true })
+  })
+
+  it('downloads an exact match in a preferred language', async () => {
+    const match = await findAutoSubtitle(videoPath)
+
+    expect(match).toMatchObject({ provider: 'opensubtitles', language: 'en' })
+    expect(openSubtitles.download).toHaveBeenCalledOnce()
+  })
+
+  it('leaves the video alone when an untagged subtitle of the release sits next to it', async () => {
+    writeFileSync(join(dir, 'Movie.srt'), '1\n00:00:01,000 --> 00:00:02,000\nHello\n')
+
+    expect(await findAutoSubtitle(videoPath)).toBeNull()
+    expect(openSubtitles.download).not.toHaveBeenCalled()
+  })
+
+  it('leaves the video alone when a tagged subtitle of the release sits next to it', async () => {
+    writeFileSync(join(dir, 'Movie.en.srt'), '1\n00:00:01,000 --> 00:00:02,000\nHello\n')
+
+    expect(await findAutoSubtitle(videoPath)).toBeNull()
+    expect(openSubtitles.download).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    server: {
+      deps: {
+        // Bundled with the tests so vi.mock('electron') also replaces the electron it imports
+        inline: ['@electron-toolkit/utils']
+      }
+    }
+  }
+})